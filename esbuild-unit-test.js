@@ -0,0 +1,47 @@
+import { build } from "esbuild";
+import { glsl } from "esbuild-plugin-glsl";
+import { spawnSync } from "child_process";
+import { readdirSync, rmSync } from "fs";
+import { join } from "path";
+
+//headless tests live in __tests__ folders next to what they test
+function findTests(dir, found = []) {
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+        const path = join(dir, entry.name);
+        if (entry.isDirectory()) {
+            findTests(path, found);
+        } else if (dir.endsWith("__tests__") && entry.name.endsWith(".test.ts")) {
+            found.push(path);
+        }
+    }
+    return found;
+}
+
+const outdir = 'build/unit-tests';
+rmSync(outdir, { recursive: true, force: true });
+
+build({
+    entryPoints: findTests('src'),
+    outdir,
+    outbase: 'src',
+    outExtension: { '.js': '.mjs' },
+    bundle: true,
+    metafile: true,
+    sourcemap: 'inline',
+    platform: 'node',
+    format: 'esm',
+    target: ['node16'],
+    tsconfig: './tsconfig.module.json',
+    external: ['node:*'],
+    plugins: [
+        glsl({
+            minify: false
+        })
+    ]
+})
+.then((result) => {
+    const tests = Object.keys(result.metafile.outputs);
+    const { status } = spawnSync(process.execPath, ['--enable-source-maps', '--test', ...tests], { stdio: 'inherit' });
+    process.exit(status === null ? 1 : status);
+})
+.catch(() => process.exit(1));
@@ -0,0 +1,221 @@
+import { Object3D } from 'three'
+
+export type RigProperty =
+  | 'x'
+  | 'y'
+  | 'z'
+  | 'rotationX'
+  | 'rotationY'
+  | 'rotationZ'
+
+type EasingFunction = (k: number) => number
+
+//value = offset + shape(sin(timeEasing(time * frequency + delay) * 2PI + phase)) * amplitude
+export type RigSineChannel = {
+  type: 'sine'
+  joint: string
+  property: RigProperty
+  amplitude: number
+  //cycles per loop of the animation, negative runs backwards
+  frequency?: number
+  //in turns, before timeEasing
+  delay?: number
+  //in radians
+  phase?: number
+  offset?: number
+  timeEasing?: EasingFunction
+  shape?: EasingFunction
+}
+
+//easing is used on the way to the next key
+export type RigKeyframe = {
+  time: number
+  value: number
+  easing?: EasingFunction
+}
+
+export type RigKeyframeChannel = {
+  type: 'keyframes'
+  joint: string
+  property: RigProperty
+  //sorted by time, from 0 to 1
+  keys: RigKeyframe[]
+}
+
+export type RigChannel = RigSineChannel | RigKeyframeChannel
+
+export type RigAnimation = {
+  channels: RigChannel[]
+  //looping animations ease from the last key back to the first, defaults to true
+  loop?: boolean
+}
+
+type RigPose = [number, number, number, number, number, number]
+
+const C1_1 = Math.PI * 2
+
+function sampleSine(channel: RigSineChannel, time: number) {
+  let t = time * (channel.frequency !== undefined ? channel.frequency : 1)
+  t += channel.delay || 0
+  if (channel.timeEasing) {
+    t = channel.timeEasing(t - Math.floor(t))
+  }
+  let wave = Math.sin(t * C1_1 + (channel.phase || 0))
+  if (channel.shape) {
+    wave = channel.shape(wave)
+  }
+  return (channel.offset || 0) + wave * channel.amplitude
+}
+
+function sampleKeys(keys: RigKeyframe[], time: number, loop: boolean) {
+  const first = keys[0]
+  const last = keys[keys.length - 1]
+  let from = last
+  let to = first
+  let span = first.time + 1 - last.time
+  let elapsed = time >= last.time ? time - last.time : time + 1 - last.time
+  if (!loop && (time <= first.time || time >= last.time)) {
+    return time <= first.time ? first.value : last.value
+  }
+  for (let i = 0; i < keys.length - 1; i++) {
+    if (time >= keys[i].time && time < keys[i + 1].time) {
+      from = keys[i]
+      to = keys[i + 1]
+      span = to.time - from.time
+      elapsed = time - from.time
+      break
+    }
+  }
+  const ratio = span > 0 ? elapsed / span : 0
+  const eased = from.easing ? from.easing(ratio) : ratio
+  return from.value + (to.value - from.value) * eased
+}
+
+function getProperty(joint: Object3D, property: RigProperty) {
+  switch (property) {
+    case 'x':
+      return joint.position.x
+    case 'y':
+      return joint.position.y
+    case 'z':
+      return joint.position.z
+    case 'rotationX':
+      return joint.rotation.x
+    case 'rotationY':
+      return joint.rotation.y
+    case 'rotationZ':
+      return joint.rotation.z
+  }
+}
+
+function setProperty(joint: Object3D, property: RigProperty, value: number) {
+  switch (property) {
+    case 'x':
+      joint.position.x = value
+      break
+    case 'y':
+      joint.position.y = value
+      break
+    case 'z':
+      joint.position.z = value
+      break
+    case 'rotationX':
+      joint.rotation.x = value
+      break
+    case 'rotationY':
+      joint.rotation.y = value
+      break
+    case 'rotationZ':
+      joint.rotation.z = value
+      break
+  }
+}
+
+//a model built once from named joints, posed by animations that add to the rest pose of each joint
+export default class Rig {
+  private _joints: Map<string, Object3D> = new Map()
+  private _restPoses: Map<Object3D, RigPose> = new Map()
+  private _animations: Map<string, RigAnimation> = new Map()
+  constructor(public readonly root: Object3D) {
+    //
+  }
+  get animationNames() {
+    return Array.from(this._animations.keys())
+  }
+  //the rest pose is however the joint is placed the first time the rig gets posed
+  addJoint<T extends Object3D>(name: string, joint: T) {
+    if (this._joints.has(name)) {
+      throw new Error(`joint "${name}" already exists`)
+    }
+    this._joints.set(name, joint)
+    return joint
+  }
+  getJoint(name: string) {
+    return this._joints.get(name)
+  }
+  addAnimation(name: string, animation: RigAnimation) {
+    for (const channel of animation.channels) {
+      if (!this._joints.has(channel.joint)) {
+        throw new Error(
+          `animation "${name}" needs missing joint "${channel.joint}"`
+        )
+      }
+    }
+    this._animations.set(name, animation)
+  }
+  hasAnimation(name: string) {
+    return this._animations.has(name)
+  }
+  isLooping(name: string) {
+    const animation = this._animations.get(name)
+    return !animation || animation.loop !== false
+  }
+  resetPose() {
+    this.captureRestPoses()
+    this._restPoses.forEach((pose, joint) => {
+      joint.position.set(pose[0], pose[1], pose[2])
+      joint.rotation.set(pose[3], pose[4], pose[5])
+    })
+  }
+  //time goes from 0 to 1 through the animation, strength blends from the rest pose
+  pose(name: string, time: number, strength = 1) {
+    this.resetPose()
+    const animation = this._animations.get(name)
+    if (!animation) {
+      return false
+    }
+    const loop = animation.loop !== false
+    const t = loop ? time - Math.floor(time) : Math.min(Math.max(time, 0), 1)
+    for (const channel of animation.channels) {
+      const joint = this._joints.get(channel.joint)!
+      const value =
+        channel.type === 'sine'
+          ? sampleSine(channel, t)
+          : sampleKeys(channel.keys, t, loop)
+      setProperty(
+        joint,
+        channel.property,
+        getProperty(joint, channel.property) + value * strength
+      )
+    }
+    return true
+  }
+  private captureRestPoses() {
+    if (this._restPoses.size === this._joints.size) {
+      return
+    }
+    this._joints.forEach((joint) => {
+      if (!this._restPoses.has(joint)) {
+        const { position, rotation } = joint
+        this._restPoses.set(joint, [
+          position.x,
+          position.y,
+          position.z,
+          rotation.x,
+          rotation.y,
+          rotation.z
+        ])
+      }
+    })
+  }
+}
@@ -0,0 +1,367 @@
+import JITTileSampler from '../rendering/tileMaker/mapTileMaker/JITTileSampler'
+import {
+  MetaTile,
+  NamedMetaBits
+} from '../rendering/tileMaker/mapTileMaker/metaTiles'
+
+//only what collision needs, so it can run headless on a stub
+export type TileCollisionSource = Pick<
+  JITTileSampler,
+  'sampleMeta' | 'onDirtyMetaProcessed'
+>
+
+//in world units, a tile spans half a unit either side of its coordinate
+//source is the meta bit the shape comes from
+export type TileCollisionBox = {
+  type: 'box'
+  source: MetaTile
+  minX: number
+  minY: number
+  maxX: number
+  maxY: number
+}
+
+export type TileCollisionCircle = {
+  type: 'circle'
+  source: MetaTile
+  x: number
+  y: number
+  radius: number
+}
+
+export type TileCollisionShape = TileCollisionBox | TileCollisionCircle
+
+export type TileCollisionListener = (x: number, y: number) => void
+
+const __cardinalOffsets = [
+  [0, -1],
+  [1, 0],
+  [0, 1],
+  [-1, 0]
+]
+
+const __blockBits: MetaTile[] = ['bricks', 'drywall']
+const __treeBits: MetaTile[] = ['treePine', 'treeMaple']
+const __objectBits: MetaTile[] = ['testObject', 'pyramid']
+
+//collision shapes of every tile derived from its meta and that of its neighbours
+export default class TileCollisionMap {
+  logWallThickness = 0.2
+  beamThickness = 0.12
+  trunkRadius = 0.2
+  lampPostRadius = 0.1
+  bushRadius = 0.4
+  objectRadius = 0.35
+  private _shapes: Map<string, TileCollisionShape[]> = new Map()
+  //meta values the cached shapes were built from, to notice edits
+  private _metaValues: Map<string, number> = new Map()
+  private _shapeListeners: TileCollisionListener[] = []
+  private _fastBlocks = 0
+  private _fastRocks = 0
+  private _fastLogWall = 0
+  private _fastBeam = 0
+  private _fastTrees = 0
+  private _fastLampPost = 0
+  private _fastBush = 0
+  private _fastObjects = 0
+  private _fastDoor = 0
+  private _fastHarvested = 0
+  private _masksReady = false
+  private _viewKey = ''
+  constructor(
+    private _source: TileCollisionSource,
+    //tiles this far outside of the view keep their shapes, enough for the chunks of TilePhysicsBridge
+    private _viewMargin = 32
+  ) {
+    _source.onDirtyMetaProcessed(this.onMetaProcessed)
+  }
+  get cachedShapeCount() {
+    return this._shapes.size
+  }
+  //called when the shapes of a tile that was already asked for may have changed
+  listenForShapeChanges(listener: TileCollisionListener) {
+    this._shapeListeners.push(listener)
+  }
+  stopListeningForShapeChanges(listener: TileCollisionListener) {
+    const index = this._shapeListeners.indexOf(listener)
+    if (index !== -1) {
+      this._shapeListeners.splice(index, 1)
+    }
+  }
+  getShapes(x: number, y: number) {
+    const key = x + ':' + y
+    let shapes = this._shapes.get(key)
+    if (!shapes) {
+      shapes = this.buildShapes(x, y)
+      this._shapes.set(key, shapes)
+    }
+    return shapes
+  }
+  //pushes a circle out of every shape it overlaps, returns true if it was pushed
+  resolveCircle(position: { x: number; y: number }, radius: number) {
+    let pushed = false
+    const minTX = Math.round(position.x - radius)
+    const maxTX = Math.round(position.x + radius)
+    const minTY = Math.round(position.y - radius)
+    const maxTY = Math.round(position.y + radius)
+    for (let ty = minTY; ty <= maxTY; ty++) {
+      for (let tx = minTX; tx <= maxTX; tx++) {
+        for (const shape of this.getShapes(tx, ty)) {
+          if (pushCircleOutOfShape(position, radius, shape)) {
+            pushed = true
+          }
+        }
+      }
+    }
+    return pushed
+  }
+  //moves a circle in steps no longer than half its radius so it can't tunnel through thin walls
+  moveCircle(
+    position: { x: number; y: number },
+    toX: number,
+    toY: number,
+    radius: number
+  ) {
+    const dx = toX - position.x
+    const dy = toY - position.y
+    const steps = Math.max(
+      1,
+      Math.ceil(Math.sqrt(dx * dx + dy * dy) / (radius * 0.5))
+    )
+    let pushed = false
+    for (let i = 0; i < steps; i++) {
+      position.x += dx / steps
+      position.y += dy / steps
+      if (this.resolveCircle(position, radius)) {
+        pushed = true
+      }
+    }
+    return pushed
+  }
+  //forgets the shapes of tiles that are too far from the view, they are built again when asked for
+  setView(x: number, y: number, width: number, height: number) {
+    const margin = this._viewMargin
+    const minX = x - margin
+    const minY = y - margin
+    const maxX = x + width - 1 + margin
+    const maxY = y + height - 1 + margin
+    const viewKey = `${minX}:${minY}:${maxX}:${maxY}`
+    if (viewKey === this._viewKey) {
+      return
+    }
+    this._viewKey = viewKey
+    //every tile with shapes also has its meta value
+    const outOfView: string[] = []
+    this._metaValues.forEach((_, key) => {
+      const [tx, ty] = key.split(':').map((v) => parseInt(v))
+      if (tx < minX || tx > maxX || ty < minY || ty > maxY) {
+        outOfView.push(key)
+      }
+    })
+    for (const key of outOfView) {
+      this._shapes.delete(key)
+      this._metaValues.delete(key)
+    }
+  }
+  //forgets every shape, e.g. after changing the sizes
+  clear() {
+    this._shapes.clear()
+    this._metaValues.clear()
+  }
+  private onMetaProcessed = (x: number, y: number, meta: NamedMetaBits) => {
+    const key = x + ':' + y
+    const oldValue = this._metaValues.get(key)
+    if (oldValue === meta.value) {
+      return
+    }
+    //an untracked tile may still be the evicted neighbour of a wall that is cached
+    if (oldValue !== undefined) {
+      this._metaValues.set(key, meta.value)
+    }
+    //walls connect to their neighbours, so those change shape too
+    this.invalidate(x, y)
+    for (const [dx, dy] of __cardinalOffsets) {
+      this.invalidate(x + dx, y + dy)
+    }
+  }
+  private invalidate(x: number, y: number) {
+    if (!this._shapes.delete(x + ':' + y)) {
+      return
+    }
+    for (const listener of this._shapeListeners) {
+      listener(x, y)
+    }
+  }
+  private sampleMeta(x: number, y: number) {
+    const meta = this._source.sampleMeta(x, y)
+    this._metaValues.set(x + ':' + y, meta.value)
+    return meta
+  }
+  private buildShapes(x: number, y: number) {
+    const meta = this.sampleMeta(x, y)
+    if (!this._masksReady) {
+      this.makeMasks(meta)
+    }
+    const shapes: TileCollisionShape[] = []
+    const harvested = meta.hasFast(this._fastHarvested)
+    const door = meta.hasFast(this._fastDoor)
+    if (
+      (meta.hasFast(this._fastBlocks) && !door) ||
+      (meta.hasFast(this._fastRocks) && !harvested)
+    ) {
+      const source = meta.hasFast(this._fastRocks)
+        ? 'rocks'
+        : getFirstBit(meta, __blockBits)
+      shapes.push(makeBox(source, x - 0.5, y - 0.5, x + 0.5, y + 0.5))
+      return shapes
+    }
+    if (meta.hasFast(this._fastLogWall) && !door) {
+      this.addSections(
+        shapes,
+        'logWall',
+        x,
+        y,
+        this._fastLogWall,
+        this.logWallThickness
+      )
+    }
+    if (meta.hasFast(this._fastBeam)) {
+      this.addSections(shapes, 'beam', x, y, this._fastBeam, this.beamThickness)
+    }
+    if (meta.hasFast(this._fastTrees) && !harvested) {
+      shapes.push(
+        makeCircle(getFirstBit(meta, __treeBits), x, y, this.trunkRadius)
+      )
+    }
+    if (meta.hasFast(this._fastLampPost)) {
+      shapes.push(makeCircle('lampPost', x, y, this.lampPostRadius))
+    }
+    if (meta.hasFast(this._fastBush) && !harvested) {
+      shapes.push(makeCircle('bush', x, y, this.bushRadius))
+    }
+    if (meta.hasFast(this._fastObjects)) {
+      shapes.push(
+        makeCircle(getFirstBit(meta, __objectBits), x, y, this.objectRadius)
+      )
+    }
+    return shapes
+  }
+  //a post in the middle and a thin section out to every connected neighbour
+  private addSections(
+    shapes: TileCollisionShape[],
+    source: MetaTile,
+    x: number,
+    y: number,
+    connectingMask: number,
+    thickness: number
+  ) {
+    const t = thickness * 0.5
+    shapes.push(makeBox(source, x - t, y - t, x + t, y + t))
+    for (const [dx, dy] of __cardinalOffsets) {
+      if (!this.sampleMeta(x + dx, y + dy).hasFast(connectingMask)) {
+        continue
+      }
+      shapes.push(
+        makeBox(
+          source,
+          dx < 0 ? x - 0.5 : x - t,
+          dy < 0 ? y - 0.5 : y - t,
+          dx > 0 ? x + 0.5 : x + t,
+          dy > 0 ? y + 0.5 : y + t
+        )
+      )
+    }
+  }
+  private makeMasks(meta: NamedMetaBits) {
+    this._fastBlocks = meta.makeFastMultiMask(__blockBits)
+    this._fastRocks = meta.makeFastMask('rocks')
+    this._fastLogWall = meta.makeFastMask('logWall')
+    this._fastBeam = meta.makeFastMask('beam')
+    this._fastTrees = meta.makeFastMultiMask(__treeBits)
+    this._fastLampPost = meta.makeFastMask('lampPost')
+    this._fastBush = meta.makeFastMask('bush')
+    this._fastObjects = meta.makeFastMultiMask(__objectBits)
+    this._fastDoor = meta.makeFastMask('door')
+    this._fastHarvested = meta.makeFastMask('harvested')
+    this._masksReady = true
+  }
+}
+
+function getFirstBit(meta: NamedMetaBits, bits: MetaTile[]) {
+  for (const bit of bits) {
+    if (meta.has(bit)) {
+      return bit
+    }
+  }
+  return bits[0]
+}
+
+function makeBox(
+  source: MetaTile,
+  minX: number,
+  minY: number,
+  maxX: number,
+  maxY: number
+): TileCollisionBox {
+  return { type: 'box', source, minX, minY, maxX, maxY }
+}
+
+function makeCircle(
+  source: MetaTile,
+  x: number,
+  y: number,
+  radius: number
+): TileCollisionCircle {
+  return { type: 'circle', source, x, y, radius }
+}
+
+function pushCircleOutOfShape(
+  position: { x: number; y: number },
+  radius: number,
+  shape: TileCollisionShape
+) {
+  let cx: number
+  let cy: number
+  let minDistance = radius
+  if (shape.type === 'circle') {
+    cx = shape.x
+    cy = shape.y
+    minDistance += shape.radius
+  } else {
+    cx = Math.min(Math.max(position.x, shape.minX), shape.maxX)
+    cy = Math.min(Math.max(position.y, shape.minY), shape.maxY)
+    if (cx === position.x && cy === position.y) {
+      //centre is inside the box, leave by the nearest side
+      const left = position.x - shape.minX
+      const right = shape.maxX - position.x
+      const top = position.y - shape.minY
+      const bottom = shape.maxY - position.y
+      const nearest = Math.min(left, right, top, bottom)
+      if (nearest === left) {
+        position.x = shape.minX - radius
+      } else if (nearest === right) {
+        position.x = shape.maxX + radius
+      } else if (nearest === top) {
+        position.y = shape.minY - radius
+      } else {
+        position.y = shape.maxY + radius
+      }
+      return true
+    }
+  }
+  const dx = position.x - cx
+  const dy = position.y - cy
+  const distanceSq = dx * dx + dy * dy
+  if (distanceSq >= minDistance * minDistance) {
+    return false
+  }
+  const distance = Math.sqrt(distanceSq)
+  if (distance === 0) {
+    position.y = cy + minDistance
+    return true
+  }
+  const push = (minDistance - distance) / distance
+  position.x += dx * push
+  position.y += dy * push
+  return true
+}
@@ -0,0 +1,134 @@
+import { strict as assert } from 'node:assert'
+import { describe, it } from 'node:test'
+import StubTileCostSource from '../../pathfinding/__tests__/StubTileCostSource'
+import TileCollisionMap, { TileCollisionBox } from '../TileCollisionMap'
+
+function makeCollision(map: string, viewMargin?: number) {
+  const source = new StubTileCostSource(map)
+  const collision = new TileCollisionMap(source, viewMargin)
+  return { source, collision }
+}
+
+function boxes(collision: TileCollisionMap, x: number, y: number) {
+  return collision
+    .getShapes(x, y)
+    .filter((shape): shape is TileCollisionBox => shape.type === 'box')
+    .map((box) => [box.minX, box.minY, box.maxX, box.maxY])
+}
+
+describe('TileCollisionMap', () => {
+  it('builds no shapes for open ground', () => {
+    const { collision } = makeCollision(`
+      ...
+      ...
+    `)
+    assert.deepEqual(collision.getShapes(1, 1), [])
+  })
+
+  it('joins log walls to the walls next to them', () => {
+    const { collision } = makeCollision(`
+      .....
+      .###.
+      ..#..
+      .....
+    `)
+    const t = collision.logWallThickness * 0.5
+    //a post, then sections out to the east, south and west
+    assert.deepEqual(boxes(collision, 2, 1), [
+      [2 - t, 1 - t, 2 + t, 1 + t],
+      [2 - t, 1 - t, 2.5, 1 + t],
+      [2 - t, 1 - t, 2 + t, 1.5],
+      [1.5, 1 - t, 2 + t, 1 + t]
+    ])
+    assert.deepEqual(boxes(collision, 1, 1), [
+      [1 - t, 1 - t, 1 + t, 1 + t],
+      [1 - t, 1 - t, 1.5, 1 + t]
+    ])
+    assert.equal(collision.getShapes(2, 1)[0].source, 'logWall')
+  })
+
+  it('leaves doors and harvested trees open and gives trees a trunk', () => {
+    const { collision } = makeCollision(`
+      .D.
+      .Tt
+    `)
+    assert.deepEqual(collision.getShapes(1, 0), [])
+    assert.deepEqual(collision.getShapes(2, 1), [])
+    assert.deepEqual(collision.getShapes(1, 1), [
+      {
+        type: 'circle',
+        source: 'treePine',
+        x: 1,
+        y: 1,
+        radius: collision.trunkRadius
+      }
+    ])
+  })
+
+  it('pushes circles out of walls', () => {
+    const { collision } = makeCollision(`
+      ...
+      .#.
+      ...
+    `)
+    const position = { x: 1, y: 1.3 }
+    assert.equal(collision.resolveCircle(position, 0.25), true)
+    assert.ok(
+      Math.abs(position.y - (1 + collision.logWallThickness * 0.5 + 0.25)) <
+        1e-9
+    )
+    assert.equal(collision.resolveCircle(position, 0.25), false)
+  })
+
+  it('rebuilds the shapes of an edited tile and its neighbours', () => {
+    const { collision, source } = makeCollision(`
+      ....
+      .#..
+      ....
+    `)
+    const heard: string[] = []
+    collision.listenForShapeChanges((x, y) => heard.push(x + ':' + y))
+    assert.equal(boxes(collision, 1, 1).length, 1)
+    source.set(2, 1, '#')
+    assert.deepEqual(heard, ['1:1'])
+    assert.equal(boxes(collision, 1, 1).length, 2)
+  })
+
+  it('forgets shapes that are too far from the view', () => {
+    const { collision } = makeCollision(
+      `
+      ..........
+      .#........
+      ..........
+    `,
+      1
+    )
+    collision.getShapes(1, 1)
+    collision.getShapes(8, 1)
+    assert.equal(collision.cachedShapeCount, 2)
+    collision.setView(6, 0, 2, 3)
+    assert.equal(collision.cachedShapeCount, 1)
+    collision.setView(0, 0, 2, 3)
+    assert.equal(collision.cachedShapeCount, 0)
+    assert.equal(boxes(collision, 1, 1).length, 1)
+  })
+
+  it('still rebuilds a wall when its forgotten neighbour is edited', () => {
+    const { collision, source } = makeCollision(
+      `
+      ....
+      .#..
+      ....
+    `,
+      1
+    )
+    const heard: string[] = []
+    collision.listenForShapeChanges((x, y) => heard.push(x + ':' + y))
+    collision.getShapes(1, 1)
+    //keeps the wall, but not the tile east of it
+    collision.setView(0, 0, 1, 3)
+    source.set(2, 1, '#')
+    assert.deepEqual(heard, ['1:1'])
+    assert.equal(boxes(collision, 1, 1).length, 2)
+  })
+})
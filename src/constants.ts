@@ -3,3 +3,5 @@ export const sunOffset = 0.25
 
 //export const verticalScale = 1
 export const verticalScale = Math.SQRT2 / 2
+
+export const idealFrameDuration = 1 / 60
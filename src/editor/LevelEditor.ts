@@ -0,0 +1,247 @@
+import { Vector2 } from 'three'
+import JITTileSampler from '../rendering/tileMaker/mapTileMaker/JITTileSampler'
+import MetaEditHistory from '../rendering/tileMaker/mapTileMaker/MetaEditHistory'
+import { MetaTile } from '../rendering/tileMaker/mapTileMaker/metaTiles'
+
+export type LevelEditorTool = 'paint' | 'rect' | 'fill' | 'erase'
+
+//maps a pointer position to the tile under it, returns false when it isn't over the map
+export type TilePicker = (
+  clientX: number,
+  clientY: number,
+  target: Vector2
+) => boolean
+
+export const levelEditorPaletteBits: MetaTile[] = [
+  'floor',
+  'logWall',
+  'beam',
+  'bricks',
+  'drywall',
+  'window',
+  'door',
+  'grass',
+  'bush',
+  'rocks',
+  'goldOreForRocks',
+  'silverOreForRocks',
+  'ironOreForRocks',
+  'copperOreForRocks',
+  'treePine',
+  'treeMaple',
+  'water',
+  'sand',
+  'dirt',
+  'lampPost'
+]
+
+const __tile = new Vector2()
+
+//a drag keeps the tool it started with, switching tools only affects the next one
+type LevelEditorDrag = {
+  tool: LevelEditorTool
+  start: Vector2
+  //whether the drag opened a history transaction it has to close
+  transacting: boolean
+}
+
+export default class LevelEditor {
+  tool: LevelEditorTool = 'paint'
+  bit: MetaTile = levelEditorPaletteBits[0]
+  //flood fills stop after this many tiles
+  maxFillTiles = 1024
+  readonly hoverTile = new Vector2()
+  hovering = false
+  private _drag: LevelEditorDrag | undefined
+  private _changeListeners: Array<() => void> = []
+  constructor(
+    private _sampler: JITTileSampler,
+    private _history?: MetaEditHistory
+  ) {
+    //
+  }
+  //called when the tool, bit or hovered tile changes
+  onChange(cb: () => void) {
+    this._changeListeners.push(cb)
+  }
+  setTool(tool: LevelEditorTool) {
+    this.tool = tool
+    this.emitChange()
+  }
+  setBit(bit: MetaTile) {
+    this.bit = bit
+    this.emitChange()
+  }
+  cycleBit(step: number) {
+    const bits = levelEditorPaletteBits
+    const index = bits.indexOf(this.bit)
+    this.setBit(bits[(index + step + bits.length) % bits.length])
+  }
+  //the meta the tool would leave on the tile, before validation
+  getResultingMeta(x: number, y: number) {
+    const meta = this._sampler.sampleMeta(x, y).clone()
+    if (this.tool === 'erase') {
+      meta.disableBit(this.bit)
+    } else {
+      meta.enableBit(this.bit)
+    }
+    return meta
+  }
+  previewVisIds(x: number, y: number) {
+    const meta = this.getResultingMeta(x, y)
+    this._sampler.validateMeta(meta, x, y)
+    return this._sampler.previewVisIds(x, y, meta)
+  }
+  paint(x: number, y: number) {
+    const meta = this.getResultingMeta(x, y)
+    if (meta.value !== this._sampler.sampleMeta(x, y).value) {
+      this._sampler.writeMeta(x, y, meta)
+    }
+  }
+  fillRect(x0: number, y0: number, x1: number, y1: number) {
+    this.transact(`${this.bit} rect`, () => {
+      for (let y = Math.min(y0, y1); y <= Math.max(y0, y1); y++) {
+        for (let x = Math.min(x0, x1); x <= Math.max(x0, x1); x++) {
+          this.paint(x, y)
+        }
+      }
+    })
+  }
+  //paints the connected tiles that share the meta of the start tile
+  floodFill(x: number, y: number) {
+    const target = this._sampler.sampleMeta(x, y).value
+    const visited: Set<string> = new Set()
+    const open: Array<[number, number]> = [[x, y]]
+    const tiles: Array<[number, number]> = []
+    while (open.length > 0 && tiles.length < this.maxFillTiles) {
+      const [tx, ty] = open.pop()!
+      const key = tx + ':' + ty
+      if (visited.has(key)) {
+        continue
+      }
+      visited.add(key)
+      if (this._sampler.sampleMeta(tx, ty).value !== target) {
+        continue
+      }
+      tiles.push([tx, ty])
+      open.push([tx + 1, ty], [tx - 1, ty], [tx, ty + 1], [tx, ty - 1])
+    }
+    this.transact(`${this.bit} fill`, () => {
+      for (const [tx, ty] of tiles) {
+        this.paint(tx, ty)
+      }
+    })
+  }
+  pointerDown(x: number, y: number) {
+    //a drag that never got its pointerUp
+    this.pointerCancel()
+    const tool = this.tool
+    switch (tool) {
+      case 'paint':
+      case 'erase':
+        if (this._history) {
+          this._history.beginTransaction(`${tool} ${this.bit}`)
+        }
+        this._drag = {
+          tool,
+          start: new Vector2(x, y),
+          transacting: !!this._history
+        }
+        this.paint(x, y)
+        break
+      case 'rect':
+        this._drag = { tool, start: new Vector2(x, y), transacting: false }
+        break
+      case 'fill':
+        this.floodFill(x, y)
+        break
+    }
+  }
+  pointerMove(x: number, y: number) {
+    const moved = !this.hovering || !this.hoverTile.equals(__tile.set(x, y))
+    this.hovering = true
+    this.hoverTile.set(x, y)
+    const drag = this._drag
+    if (drag && (drag.tool === 'paint' || drag.tool === 'erase')) {
+      this.paint(x, y)
+    }
+    if (moved) {
+      this.emitChange()
+    }
+  }
+  pointerUp(x: number, y: number) {
+    const drag = this._drag
+    if (!drag) {
+      return
+    }
+    if (drag.tool === 'rect') {
+      this._drag = undefined
+      this.fillRect(drag.start.x, drag.start.y, x, y)
+    } else {
+      this.pointerCancel()
+    }
+  }
+  //ends a drag without finishing it, what was painted so far stays as one edit
+  pointerCancel() {
+    const drag = this._drag
+    this._drag = undefined
+    if (drag && drag.transacting && this._history) {
+      this._history.endTransaction()
+    }
+  }
+  pointerLeave() {
+    this.hovering = false
+    this.emitChange()
+  }
+  //listens on the window, returns a function that stops listening
+  bindMouse(pickTile: TilePicker) {
+    const pick = (ev: MouseEvent) => pickTile(ev.clientX, ev.clientY, __tile)
+    const onDown = (ev: MouseEvent) => {
+      if (ev.button === 0 && pick(ev)) {
+        this.pointerDown(__tile.x, __tile.y)
+      }
+    }
+    const onMove = (ev: MouseEvent) => {
+      if (pick(ev)) {
+        this.pointerMove(__tile.x, __tile.y)
+      } else if (this.hovering) {
+        this.pointerLeave()
+      }
+    }
+    const onUp = (ev: MouseEvent) => {
+      if (ev.button !== 0) {
+        return
+      }
+      if (pick(ev)) {
+        this.pointerUp(__tile.x, __tile.y)
+      } else {
+        this.pointerUp(this.hoverTile.x, this.hoverTile.y)
+      }
+    }
+    //the mouseup never arrives when the window loses focus mid-drag
+    const onBlur = () => this.pointerCancel()
+    window.addEventListener('mousedown', onDown)
+    window.addEventListener('mousemove', onMove)
+    window.addEventListener('mouseup', onUp)
+    window.addEventListener('blur', onBlur)
+    return () => {
+      window.removeEventListener('mousedown', onDown)
+      window.removeEventListener('mousemove', onMove)
+      window.removeEventListener('mouseup', onUp)
+      window.removeEventListener('blur', onBlur)
+      this.pointerCancel()
+    }
+  }
+  private transact(label: string, cb: () => void) {
+    if (this._history) {
+      this._history.transact(label, cb)
+    } else {
+      cb()
+    }
+  }
+  private emitChange() {
+    for (const cb of this._changeListeners) {
+      cb()
+    }
+  }
+}
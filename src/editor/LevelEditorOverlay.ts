@@ -0,0 +1,117 @@
+import {
+  Mesh,
+  MeshBasicMaterial,
+  Object3D,
+  PlaneGeometry,
+  Vector4
+} from 'three'
+import NamedBitsInNumber from '../helpers/utils/NamedBitsInNumber'
+import { MaterialPassType } from '../helpers/materials/materialLib'
+import { BasicTextureMaterial } from '../materials/BasicTextureMaterial'
+import JITTileSampler from '../rendering/tileMaker/mapTileMaker/JITTileSampler'
+import { metaTileStrings } from '../rendering/tileMaker/mapTileMaker/metaTiles'
+import LevelEditor, { levelEditorPaletteBits } from './LevelEditor'
+
+const __uvST = new Vector4()
+
+class TileThumbnail {
+  readonly object = new Object3D()
+  private _bottom: Mesh
+  private _top: Mesh
+  private _bottomMaterial: BasicTextureMaterial
+  private _topMaterial: BasicTextureMaterial
+  constructor(geometry: PlaneGeometry) {
+    this._bottomMaterial = new BasicTextureMaterial({ uvST: new Vector4() })
+    this._topMaterial = new BasicTextureMaterial({ uvST: new Vector4() })
+    this._bottom = new Mesh(geometry, this._bottomMaterial)
+    this._top = new Mesh(geometry, this._topMaterial)
+    //the top half of a tile is baked as a separate tile, one tile up
+    this._top.position.y = 1
+    this.object.add(this._bottom, this._top)
+  }
+  show(
+    sampler: JITTileSampler,
+    pass: MaterialPassType,
+    ids: { idBottom: number; idTop: number }
+  ) {
+    this.showTile(sampler, pass, ids.idBottom, this._bottomMaterial)
+    this.showTile(sampler, pass, ids.idTop, this._topMaterial)
+  }
+  private showTile(
+    sampler: JITTileSampler,
+    pass: MaterialPassType,
+    id: number,
+    material: BasicTextureMaterial
+  ) {
+    const tileMaker = sampler.tileMaker
+    material.texture = tileMaker.getTexture(pass, tileMaker.getTilePage(id))
+    tileMaker.getTileUvST(id, __uvST)
+    material.uniforms.uUvST.value.copy(__uvST)
+  }
+}
+
+//palette thumbnails from the tile atlas and a preview of the hovered tile, in tile units
+export default class LevelEditorOverlay {
+  readonly object = new Object3D()
+  private _thumbnails: TileThumbnail[] = []
+  private _preview: TileThumbnail
+  private _selection: Mesh
+  constructor(
+    private _editor: LevelEditor,
+    private _sampler: JITTileSampler,
+    private _pass: MaterialPassType = 'customColor',
+    public columns = 10
+  ) {
+    const geometry = new PlaneGeometry(1, 1)
+    geometry.translate(0.5, 0.5, 0)
+    for (let i = 0; i < levelEditorPaletteBits.length; i++) {
+      const thumbnail = new TileThumbnail(geometry)
+      thumbnail.object.position.set(
+        (i % columns) * 1.25,
+        -~~(i / columns) * 2.25,
+        0
+      )
+      this._thumbnails.push(thumbnail)
+      this.object.add(thumbnail.object)
+    }
+    this._preview = new TileThumbnail(geometry)
+    this._preview.object.position.set(columns * 1.25 + 0.5, 0, 0)
+    this.object.add(this._preview.object)
+    this._selection = new Mesh(
+      geometry,
+      new MeshBasicMaterial({ color: 0xffffff, wireframe: true })
+    )
+    this._selection.scale.set(1.25, 2.25, 1)
+    this.object.add(this._selection)
+  }
+  //call every frame, atlas slots get reused so the thumbnails are refreshed
+  update() {
+    const sampler = this._sampler
+    const editor = this._editor
+    const x = editor.hoverTile.x
+    const y = editor.hoverTile.y
+    //only what is shown this frame stays pinned
+    sampler.clearPreviews()
+    for (let i = 0; i < levelEditorPaletteBits.length; i++) {
+      const meta = new NamedBitsInNumber(0, metaTileStrings)
+      meta.enableBit(levelEditorPaletteBits[i])
+      sampler.validateMeta(meta, x, y)
+      this._thumbnails[i].show(
+        sampler,
+        this._pass,
+        sampler.previewVisIds(x, y, meta)
+      )
+    }
+    this._preview.object.visible = editor.hovering
+    if (editor.hovering) {
+      this._preview.show(sampler, this._pass, editor.previewVisIds(x, y))
+    }
+    const selected = levelEditorPaletteBits.indexOf(editor.bit)
+    this._selection.position.copy(this._thumbnails[selected].object.position)
+    this._selection.position.x -= 0.125
+    this._selection.position.y -= 0.125
+  }
+  dispose() {
+    this._sampler.clearPreviews()
+  }
+}
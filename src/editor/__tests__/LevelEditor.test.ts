@@ -0,0 +1,80 @@
+import { strict as assert } from 'node:assert'
+import { describe, it } from 'node:test'
+import MetaEditHistory from '../../rendering/tileMaker/mapTileMaker/MetaEditHistory'
+import StubMetaSampler from '../../rendering/tileMaker/mapTileMaker/__tests__/StubMetaSampler'
+import LevelEditor from '../LevelEditor'
+
+function makeEditor() {
+  const stub = new StubMetaSampler()
+  const history = new MetaEditHistory(stub.sampler)
+  const editor = new LevelEditor(stub.sampler, history)
+  editor.setBit('grass')
+  return { stub, history, editor }
+}
+
+//a drag across a row of tiles
+function drag(editor: LevelEditor, fromX: number, toX: number) {
+  editor.pointerDown(fromX, 0)
+  for (let x = fromX + 1; x <= toX; x++) {
+    editor.pointerMove(x, 0)
+  }
+  editor.pointerUp(toX, 0)
+}
+
+describe('LevelEditor', () => {
+  it('undoes a painted drag as one edit', () => {
+    const { stub, history, editor } = makeEditor()
+    drag(editor, 0, 3)
+    assert.equal(stub.writes, 4)
+    assert.equal(history.undoLabel, 'paint grass')
+    history.undo()
+    assert.equal(history.canUndo, false)
+    assert.equal(stub.getValue(2, 0), 0)
+  })
+
+  it('finishes a drag with the tool it started with', () => {
+    const { stub, history, editor } = makeEditor()
+    editor.pointerDown(0, 0)
+    editor.pointerMove(1, 0)
+    editor.setTool('rect')
+    editor.pointerMove(2, 0)
+    editor.pointerUp(2, 0)
+    assert.equal(stub.writes, 3)
+    assert.equal(history.undoLabel, 'paint grass')
+
+    //the next edits are not swallowed by a transaction left open
+    editor.pointerDown(0, 2)
+    editor.pointerUp(1, 3)
+    assert.equal(history.undoLabel, 'grass rect')
+    history.undo()
+    history.undo()
+    assert.equal(history.canUndo, false)
+    assert.equal(stub.getValue(1, 0), 0)
+  })
+
+  it('closes the transaction of a drag that is cancelled', () => {
+    const { history, editor } = makeEditor()
+    editor.pointerDown(0, 0)
+    editor.pointerMove(1, 0)
+    editor.pointerCancel()
+    assert.equal(history.undoLabel, 'paint grass')
+    editor.pointerMove(2, 0)
+    editor.pointerUp(2, 0)
+    editor.setTool('erase')
+    drag(editor, 0, 1)
+    assert.equal(history.undoLabel, 'erase grass')
+    history.undo()
+    history.undo()
+    assert.equal(history.canUndo, false)
+  })
+
+  it('closes a drag that never got its pointerUp on the next pointerDown', () => {
+    const { history, editor } = makeEditor()
+    editor.pointerDown(0, 0)
+    editor.setTool('fill')
+    editor.pointerDown(5, 5)
+    assert.equal(history.undoLabel, 'grass fill')
+    history.undo()
+    assert.equal(history.undoLabel, 'paint grass')
+  })
+})
@@ -0,0 +1,104 @@
+import { Vector2 } from 'three'
+import { LightController } from '../mapCache/PointLightRenderer'
+import {
+  SpriteAnimationState,
+  SpriteController
+} from '../rendering/tileMaker/spriteMaker/JITSpriteSampler'
+import { removeFromArray } from '../utils/arrayUtils'
+import IEntityComponent from './IEntityComponent'
+
+export default class Entity {
+  z = 0
+  animTime = 0
+  canBeGrabbed = false
+  canBeHeld = false
+  canHoldItem = false
+  //played while animTime is 0, while it isn't animTime drives moveAnimation
+  idleAnimation: SpriteAnimationState = 'idle'
+  moveAnimation: SpriteAnimationState = 'run'
+  private _components: IEntityComponent[] = []
+  get components(): readonly IEntityComponent[] {
+    return this._components
+  }
+  constructor(
+    public x: number,
+    public y: number,
+    public angle: number,
+    public readonly sprite: SpriteController,
+    //positioned by components, see LanternLightComponent
+    public readonly light?: LightController
+  ) {
+    //
+  }
+  addComponent<T extends IEntityComponent>(component: T) {
+    this._components.push(component)
+    if (component.attach) {
+      component.attach(this)
+    }
+    return component
+  }
+  removeComponent(component: IEntityComponent) {
+    if (!this._components.includes(component)) {
+      return
+    }
+    removeFromArray(this._components, component)
+    if (component.detach) {
+      component.detach(this)
+    }
+  }
+  getComponent<T extends IEntityComponent>(
+    type: new (...args: never[]) => T
+  ): T | undefined {
+    for (const component of this._components) {
+      if (component instanceof type) {
+        return component
+      }
+    }
+    return undefined
+  }
+  update(dt: number) {
+    //components may add other components while updating
+    for (let i = 0; i < this._components.length; i++) {
+      this._components[i].update(this, dt)
+    }
+    this.syncSprite()
+  }
+  syncSprite() {
+    const sprite = this.sprite
+    sprite.x = this.x
+    sprite.y = this.y
+    sprite.z = this.z
+    //one-shot clips like attack play out before this takes over again
+    if (sprite.looping) {
+      if (this.animTime !== 0) {
+        sprite.stop()
+        sprite.animationState = this.moveAnimation
+        sprite.animTime = this.animTime
+      } else if (
+        !sprite.playing ||
+        sprite.animationState !== this.idleAnimation
+      ) {
+        sprite.play(this.idleAnimation)
+      }
+    }
+    //the sprite maker snaps it to the angles it bakes
+    sprite.angle = this.angle
+  }
+  getCoordInFront(distance = 0.75, target = new Vector2()) {
+    const a = this.angle - Math.PI * 0.5
+    target.x = this.x + Math.cos(a) * distance
+    target.y = this.y + Math.sin(a) * distance
+    return target
+  }
+  getTileCoordInFront(distance = 0.75, target = new Vector2()) {
+    this.getCoordInFront(distance, target)
+    target.x = Math.round(target.x)
+    target.y = Math.round(target.y)
+    return target
+  }
+  destroy() {
+    while (this._components.length > 0) {
+      this.removeComponent(this._components[this._components.length - 1])
+    }
+  }
+}
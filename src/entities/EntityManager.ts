@@ -0,0 +1,126 @@
+import { Color } from 'three'
+import PointLightRenderer, {
+  LightOptions
+} from '../mapCache/PointLightRenderer'
+import JITSpriteSampler, {
+  MetaSprite,
+  SpriteController
+} from '../rendering/tileMaker/spriteMaker/JITSpriteSampler'
+import { removeFromArray } from '../utils/arrayUtils'
+import Entity from './Entity'
+
+export type EntityLightOptions = LightOptions & {
+  //in pixels, like PointLightRenderer lights
+  size: number
+  color: Color
+  z?: number
+  useShadows?: boolean
+  shadowResolution?: number
+}
+
+const __sprites: SpriteController[] = []
+
+export default class EntityManager {
+  private _entities: Entity[] = []
+  private _entitiesBySprite: Map<SpriteController, Entity> = new Map()
+  get entities(): readonly Entity[] {
+    return this._entities
+  }
+  constructor(
+    private _spriteSampler: JITSpriteSampler,
+    private _lightRenderer?: PointLightRenderer
+  ) {
+    //
+  }
+  makeEntity(
+    x: number,
+    y: number,
+    angle: number,
+    spriteBits: MetaSprite[] = [],
+    lightOptions?: EntityLightOptions
+  ) {
+    const sprite = this._spriteSampler.makeSprite(x, y, angle)
+    for (const bit of spriteBits) {
+      sprite.metaBytes.enableBit(bit)
+    }
+    this._spriteSampler.validateMeta(sprite.metaBytes)
+    let light
+    if (lightOptions) {
+      if (!this._lightRenderer) {
+        throw new Error('EntityManager needs a PointLightRenderer for lights')
+      }
+      const {
+        size,
+        color,
+        z = 0.5,
+        useShadows = true,
+        shadowResolution = 64
+      } = lightOptions
+      light = this._lightRenderer
+        .getLightGroup(useShadows, shadowResolution)
+        .makeLight(x, y, z, size, color, lightOptions)
+    }
+    const entity = new Entity(x, y, angle, sprite, light)
+    this._entities.push(entity)
+    this._entitiesBySprite.set(sprite, entity)
+    return entity
+  }
+  //detaches all components and returns the sprite and light for reuse
+  removeEntity(entity: Entity) {
+    if (!this._entities.includes(entity)) {
+      return false
+    }
+    entity.destroy()
+    removeFromArray(this._entities, entity)
+    this._entitiesBySprite.delete(entity.sprite)
+    this._spriteSampler.removeSprite(entity.sprite)
+    if (entity.light && this._lightRenderer) {
+      this._lightRenderer.removeLight(entity.light)
+    }
+    return true
+  }
+  getEntity(sprite: SpriteController) {
+    return this._entitiesBySprite.get(sprite)
+  }
+  //positions are those of the sprites, so as of their last sync
+  getEntitiesNear(
+    x: number,
+    y: number,
+    radius: number,
+    results: Entity[] = []
+  ) {
+    __sprites.length = 0
+    this._spriteSampler.spatialIndex.queryRadius(x, y, radius, __sprites)
+    for (const sprite of __sprites) {
+      const entity = this._entitiesBySprite.get(sprite)
+      if (entity) {
+        results.push(entity)
+      }
+    }
+    return results
+  }
+  getNearestEntities(
+    x: number,
+    y: number,
+    count: number,
+    maxDistance = Infinity,
+    filter?: (entity: Entity) => boolean
+  ) {
+    const entitiesBySprite = this._entitiesBySprite
+    return this._spriteSampler.spatialIndex
+      .queryNearest(x, y, count, maxDistance, (sprite) => {
+        const entity = entitiesBySprite.get(sprite)
+        return !!entity && (!filter || filter(entity))
+      })
+      .map((sprite) => entitiesBySprite.get(sprite)!)
+  }
+  update(dt: number) {
+    //components may remove entities while updating
+    const entities = this._entities.slice()
+    for (const entity of entities) {
+      if (this._entitiesBySprite.get(entity.sprite) === entity) {
+        entity.update(dt)
+      }
+    }
+  }
+}
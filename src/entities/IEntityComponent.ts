@@ -0,0 +1,7 @@
+import Entity from './Entity'
+
+export default interface IEntityComponent {
+  attach?(entity: Entity): void
+  update(entity: Entity, dt: number): void
+  detach?(entity: Entity): void
+}
@@ -0,0 +1,27 @@
+import { idealFrameDuration } from '../../constants'
+import FlowField from '../../pathfinding/FlowField'
+import { TileCoord } from '../../pathfinding/findPath'
+import Entity from '../Entity'
+import IEntityComponent from '../IEntityComponent'
+import { walkTowards } from './walkTowards'
+
+const __next: TileCoord = { x: 0, y: 0 }
+
+//walks down a shared flow field, cheap enough for whole herds
+export default class FlowFieldFollowerComponent implements IEntityComponent {
+  constructor(public field: FlowField, public speed = 0.05) {
+    //
+  }
+  update(entity: Entity, dt: number) {
+    const next = this.field.getNextTile(
+      Math.round(entity.x),
+      Math.round(entity.y),
+      __next
+    )
+    if (!next) {
+      entity.animTime = 0
+      return
+    }
+    walkTowards(entity, next.x, next.y, (this.speed * dt) / idealFrameDuration)
+  }
+}
@@ -0,0 +1,48 @@
+import { Vector2 } from 'three'
+import { lerp } from 'three/src/math/MathUtils'
+import Entity from '../Entity'
+import EntityManager from '../EntityManager'
+import IEntityComponent from '../IEntityComponent'
+
+const __coord = new Vector2()
+
+//drags a grabbed entity along in front of itself
+export default class GrabberComponent implements IEntityComponent {
+  grabbed: Entity | undefined
+  constructor(private _entities: EntityManager, public grabDistance = 0.5) {
+    //
+  }
+  //grabs the closest grabbable entity in front, returns it if there was one
+  grab(entity: Entity) {
+    if (this.grabbed) {
+      return this.grabbed
+    }
+    const { x, y } = entity.getCoordInFront(0.75, __coord)
+    this.grabbed = this._entities.getNearestEntities(
+      x,
+      y,
+      1,
+      this.grabDistance,
+      (other) => other !== entity && other.canBeGrabbed
+    )[0]
+    return this.grabbed
+  }
+  release() {
+    this.grabbed = undefined
+  }
+  update(entity: Entity, dt: number) {
+    const other = this.grabbed
+    if (!other) {
+      return
+    }
+    const a = Math.atan2(entity.y - other.y, entity.x - other.x) + Math.PI * 0.5
+    other.angle = a
+    entity.angle = a + Math.PI
+    const coord = entity.getCoordInFront(0.75, __coord)
+    other.x = lerp(other.x, coord.x, 0.5)
+    other.y = lerp(other.y, coord.y, 0.5)
+  }
+  detach() {
+    this.release()
+  }
+}
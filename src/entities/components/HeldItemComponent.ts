@@ -0,0 +1,17 @@
+import { lerp } from 'three/src/math/MathUtils'
+import Entity from '../Entity'
+import IEntityComponent from '../IEntityComponent'
+
+//follows the entity carrying it, slightly above
+export default class HeldItemComponent implements IEntityComponent {
+  constructor(public parent: Entity) {
+    //
+  }
+  update(entity: Entity, dt: number) {
+    const parent = this.parent
+    entity.x = lerp(entity.x, parent.x, 0.5)
+    entity.y = lerp(entity.y, parent.y, 0.5)
+    entity.z = lerp(entity.z, parent.z + 0.35, 0.5)
+    entity.angle = parent.angle
+  }
+}
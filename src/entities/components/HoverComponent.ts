@@ -0,0 +1,19 @@
+import { rand2 } from '../../utils/math'
+import Entity from '../Entity'
+import IEntityComponent from '../IEntityComponent'
+
+export default class HoverComponent implements IEntityComponent {
+  constructor(
+    public hoverRange = 1,
+    public hoverSpeed = 0.004,
+    public hoverOffset = rand2(Math.PI * 2)
+  ) {
+    //
+  }
+  update(entity: Entity, dt: number) {
+    entity.z =
+      Math.abs(
+        Math.cos(this.hoverSpeed * performance.now() + this.hoverOffset)
+      ) * this.hoverRange
+  }
+}
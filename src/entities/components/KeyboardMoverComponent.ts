@@ -0,0 +1,98 @@
+import { Vector2 } from 'three'
+import { lerp } from 'three/src/math/MathUtils'
+import { idealFrameDuration } from '../../constants'
+import Entity from '../Entity'
+import IEntityComponent from '../IEntityComponent'
+import GrabberComponent from './GrabberComponent'
+
+const angleLerpRate = 0.2
+
+function wrapAngle(angle: number) {
+  if (angle < -Math.PI) {
+    return angle + Math.PI * 2
+  } else if (angle > Math.PI) {
+    return angle - Math.PI * 2
+  }
+  return angle
+}
+
+//twin-stick style movement, the direction vector overrides where the entity faces
+export default class KeyboardMoverComponent implements IEntityComponent {
+  speed = 0.05
+  private _angle = 0
+  private _mv = new Vector2()
+  private _dv = new Vector2()
+  constructor(public movementVector: Vector2, public directionVector: Vector2) {
+    //
+  }
+  attach(entity: Entity) {
+    this._angle = entity.angle
+  }
+  update(entity: Entity, dt: number) {
+    const adjDt = dt / idealFrameDuration
+    const angleLerpAmt = 1 - Math.pow(1 - angleLerpRate, adjDt)
+    const mv = this._mv.copy(this.movementVector).normalize()
+    const dv = this._dv.copy(this.directionVector).normalize()
+
+    const directionOverridesMovementAngle =
+      this.directionVector.x !== 0 || this.directionVector.y !== 0
+
+    let newAngle = entity.angle
+    let newDirectionAngle = entity.angle
+    if (directionOverridesMovementAngle) {
+      newDirectionAngle = Math.atan2(-dv.y, dv.x) + Math.PI * 0.5
+      newAngle = newDirectionAngle
+    }
+
+    if (!(mv.x === 0 && mv.y === 0)) {
+      const newMovementAngle = Math.atan2(-mv.y, mv.x) + Math.PI * 0.5
+      if (!directionOverridesMovementAngle) {
+        newAngle = newMovementAngle
+      }
+      const speed = this.speed * adjDt
+      let movementDirectionAngleDelta = newMovementAngle - newDirectionAngle
+      while (movementDirectionAngleDelta > Math.PI) {
+        movementDirectionAngleDelta -= Math.PI * 2
+      }
+      while (movementDirectionAngleDelta < -Math.PI) {
+        movementDirectionAngleDelta += Math.PI * 2
+      }
+      const runningBackwards =
+        movementDirectionAngleDelta > Math.PI * 0.55 ||
+        movementDirectionAngleDelta < Math.PI * -0.55
+
+      const speedDirection = runningBackwards ? -1 : 1
+      const speedScale = lerp(
+        Math.cos(movementDirectionAngleDelta) * 0.5 + 0.5,
+        1,
+        0.65
+      )
+      entity.animTime += 0.02 * speedScale * speedDirection
+      entity.x += mv.x * speed * Math.abs(speedScale)
+      entity.y -= mv.y * speed * Math.abs(speedScale)
+    } else {
+      entity.animTime = 0
+    }
+    const angle = wrapAngle(
+      this._angle + wrapAngle(newAngle - this._angle) * angleLerpAmt
+    )
+    this._angle = angle
+    entity.angle = angle
+
+    const grabber = entity.getComponent(GrabberComponent)
+    const grabbed = grabber && grabber.grabbed
+    if (grabbed) {
+      //circle around whatever is being dragged instead of walking through it
+      const dx = grabbed.x - entity.x
+      const dy = grabbed.y - entity.y
+      const dist = Math.sqrt(dx * dx + dy * dy)
+      const angleDelta = wrapAngle(Math.atan2(dy, dx) - angle + Math.PI * 0.5)
+      const sideAngle =
+        angleDelta < Math.PI * 0.45 && angleDelta > Math.PI * -0.45
+          ? angle + Math.PI * -0.5
+          : angle + Math.PI * 0.5
+      entity.x = lerp(entity.x, grabbed.x - Math.cos(sideAngle) * dist, 0.1)
+      entity.y = lerp(entity.y, grabbed.y - Math.sin(sideAngle) * dist, 0.1)
+    }
+  }
+}
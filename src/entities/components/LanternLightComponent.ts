@@ -0,0 +1,67 @@
+import { lerp } from 'three/src/math/MathUtils'
+import { idealFrameDuration } from '../../constants'
+import Entity from '../Entity'
+import EntityManager from '../EntityManager'
+import IEntityComponent from '../IEntityComponent'
+
+const angleLerpRate = 0.25
+const __nearby: Entity[] = []
+
+//swings the light of the entity like a lantern carried at its side
+export default class LanternLightComponent implements IEntityComponent {
+  private _swing = 0
+  private _intensity = 1
+  constructor(
+    public distance = 0.75,
+    //when given, lanterns crowding together are dimmed so they don't blow out
+    private _entities?: EntityManager,
+    public crowdRadius = 2
+  ) {
+    //
+  }
+  attach(entity: Entity) {
+    if (!entity.light) {
+      throw new Error('LanternLightComponent needs an entity with a light')
+    }
+    this._intensity = entity.light.intensity
+  }
+  update(entity: Entity, dt: number) {
+    const light = entity.light!
+    const adjDt = dt / idealFrameDuration
+    const lerpAmt = 1 - Math.pow(1 - angleLerpRate, adjDt)
+    const a = entity.angle + Math.PI * -0.375
+    this._swing += dt
+
+    const x = entity.x + Math.cos(a) * this.distance
+    const y = entity.y + Math.sin(a) * this.distance
+    //snap when teleported
+    if (Math.abs(light.x - x) > 2 || Math.abs(light.y - y) > 2) {
+      light.x = x
+      light.y = y
+    } else {
+      light.x = lerp(light.x, x, lerpAmt)
+      light.y = lerp(light.y, y, lerpAmt)
+    }
+    light.z = lerp(0.45, 0.55, Math.sin(this._swing * 5) * 0.5 + 0.5)
+    if (this._entities) {
+      __nearby.length = 0
+      this._entities.getEntitiesNear(
+        entity.x,
+        entity.y,
+        this.crowdRadius,
+        __nearby
+      )
+      let crowd = 0
+      for (const other of __nearby) {
+        if (other !== entity && other.light) {
+          crowd++
+        }
+      }
+      light.intensity = lerp(
+        light.intensity,
+        this._intensity / Math.sqrt(1 + crowd),
+        lerpAmt
+      )
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import { idealFrameDuration } from '../../constants'
+import { findPath, TileCoord } from '../../pathfinding/findPath'
+import TileCostMap from '../../pathfinding/TileCostMap'
+import Entity from '../Entity'
+import IEntityComponent from '../IEntityComponent'
+import { walkTowards } from './walkTowards'
+
+//walks an A* path to a tile, or after another entity
+export default class PathFollowerComponent implements IEntityComponent {
+  path: TileCoord[] | undefined
+  private _pathIndex = 0
+  private _goal: TileCoord | undefined
+  private _targetEntity: Entity | undefined
+  private _timeSincePath = 0
+  constructor(
+    private _costs: TileCostMap,
+    public speed = 0.05,
+    //in seconds, how often the path to a moving target entity is recomputed
+    public repathInterval = 1
+  ) {
+    //
+  }
+  setGoal(x: number, y: number) {
+    this._goal = { x, y }
+    this._targetEntity = undefined
+    this.path = undefined
+  }
+  follow(target: Entity) {
+    this._targetEntity = target
+    this._timeSincePath = Infinity
+  }
+  stop() {
+    this._goal = undefined
+    this._targetEntity = undefined
+    this.path = undefined
+  }
+  update(entity: Entity, dt: number) {
+    this._timeSincePath += dt
+    const target = this._targetEntity
+    if (target && this._timeSincePath > this.repathInterval) {
+      this._goal = { x: Math.round(target.x), y: Math.round(target.y) }
+      this.path = undefined
+    }
+    const goal = this._goal
+    if (!goal) {
+      return
+    }
+    let next = this.path && this.path[this._pathIndex]
+    //walls may have gone up since
+    if (next && !this._costs.isWalkable(next.x, next.y)) {
+      this.path = undefined
+      next = undefined
+    }
+    if (!this.path) {
+      this._timeSincePath = 0
+      this.path = findPath(
+        this._costs,
+        { x: Math.round(entity.x), y: Math.round(entity.y) },
+        goal
+      )
+      this._pathIndex = 0
+      if (!this.path) {
+        //unreachable, a target entity is tried again after repathInterval
+        this._goal = undefined
+        entity.animTime = 0
+        return
+      }
+      next = this.path[0]
+    }
+    if (!next) {
+      this.path = undefined
+      this._goal = undefined
+      entity.animTime = 0
+      return
+    }
+    const speed = (this.speed * dt) / idealFrameDuration
+    if (walkTowards(entity, next.x, next.y, speed)) {
+      this._pathIndex++
+    }
+  }
+}
@@ -0,0 +1,41 @@
+import JITTileSampler from '../../rendering/tileMaker/mapTileMaker/JITTileSampler'
+import Entity from '../Entity'
+import IEntityComponent from '../IEntityComponent'
+
+//keeps the entity around the target by teleporting it back in range whenever it strays too far
+export default class SolipsisticRespawnerComponent implements IEntityComponent {
+  private _fastWaterOrRocks: number
+  constructor(
+    public target: Entity,
+    private _metaTileSampler: JITTileSampler,
+    public range = 10
+  ) {
+    this._fastWaterOrRocks = _metaTileSampler
+      .sampleMeta(0, 0)
+      .makeFastMultiMask(['water', 'rocks'])
+  }
+  update(entity: Entity, dt: number) {
+    const target = this.target
+    const range = this.range
+    let x = entity.x
+    let y = entity.y
+    const distanceX = target.x - entity.x
+    if (Math.abs(distanceX) > range) {
+      x = target.x + Math.sign(distanceX) * (range - 1)
+    }
+    const distanceY = target.y - entity.y
+    if (Math.abs(distanceY) > range) {
+      y = target.y + Math.sign(distanceY) * (range - 1)
+    }
+    if (entity.x !== x || entity.y !== y) {
+      const meta = this._metaTileSampler.sampleMeta(
+        Math.round(x),
+        Math.round(y)
+      )
+      if (!meta.hasFast(this._fastWaterOrRocks)) {
+        entity.x = x
+        entity.y = y
+      }
+    }
+  }
+}
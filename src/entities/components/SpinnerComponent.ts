@@ -0,0 +1,12 @@
+import Entity from '../Entity'
+import IEntityComponent from '../IEntityComponent'
+
+export default class SpinnerComponent implements IEntityComponent {
+  //radians per second
+  constructor(public spinSpeed = 4) {
+    //
+  }
+  update(entity: Entity, dt: number) {
+    entity.angle += this.spinSpeed * dt
+  }
+}
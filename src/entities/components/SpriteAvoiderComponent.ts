@@ -0,0 +1,55 @@
+import { idealFrameDuration } from '../../constants'
+import Entity from '../Entity'
+import EntityManager from '../EntityManager'
+import IEntityComponent from '../IEntityComponent'
+import HeldItemComponent from './HeldItemComponent'
+
+const __nearby: Entity[] = []
+
+//pushes overlapping entities apart, items that touch something that can hold them get picked up
+export default class SpriteAvoiderComponent implements IEntityComponent {
+  constructor(private _entities: EntityManager, public size = 0.5) {
+    //
+  }
+  update(entity: Entity, dt: number) {
+    const size = this.size
+    const x = entity.x
+    const y = entity.y
+    let vx = 0
+    let vy = 0
+    const amt = (dt / idealFrameDuration) * 0.5
+    __nearby.length = 0
+    this._entities.getEntitiesNear(x, y, size, __nearby)
+    for (const other of __nearby) {
+      if (other === entity) {
+        continue
+      }
+      const dx = x - other.x
+      const dy = y - other.y
+      const dist = Math.max(0.01, Math.sqrt(dx * dx + dy * dy))
+      if (dist >= size) {
+        continue
+      }
+      if (
+        (other.canBeHeld && entity.canHoldItem) ||
+        (entity.canBeHeld && other.canHoldItem)
+      ) {
+        const container = other.canHoldItem ? other : entity
+        const item = entity === container ? other : entity
+        item.canBeHeld = false
+        item.canBeGrabbed = false
+        item.canHoldItem = true
+        container.canHoldItem = false
+        item.addComponent(new HeldItemComponent(container))
+      } else if (Math.abs(entity.z - other.z) < 0.2) {
+        const ratio = 1 - dist / size
+        vx += dx * ratio
+        vy += dy * ratio
+        other.x -= dx * ratio * amt
+        other.y -= dy * ratio * amt
+      }
+    }
+    entity.x += vx * amt
+    entity.y += vy * amt
+  }
+}
@@ -0,0 +1,131 @@
+import { idealFrameDuration } from '../../constants'
+import JITTileSampler from '../../rendering/tileMaker/mapTileMaker/JITTileSampler'
+import Entity from '../Entity'
+import IEntityComponent from '../IEntityComponent'
+
+const cardinalOffsets = [
+  [-1, 0],
+  [0, 1],
+  [1, 0],
+  [0, -1]
+]
+
+//pushes the entity out of walls, trees, rocks and open water
+export default class TileAvoiderComponent implements IEntityComponent {
+  private _fastSmallColliders: number
+  private _fastTrees: number
+  private _fastRocks: number
+  private _fastBeam: number
+  private _fastBricksOrBushes: number
+  private _fastHarvested: number
+  private _fastMaturePlant: number
+  private _fastMediumColliders: number
+  private _fastWater: number
+  private _vx = 0
+  private _vy = 0
+  constructor(private _metaTileSampler: JITTileSampler) {
+    const tempSample = _metaTileSampler.sampleMeta(0, 0)
+    this._fastSmallColliders = tempSample.makeFastMultiMask([
+      'beam',
+      'lampPost'
+    ])
+    this._fastTrees = tempSample.makeFastMultiMask(['treePine', 'treeMaple'])
+    this._fastRocks = tempSample.makeFastMask('rocks')
+    this._fastBeam = tempSample.makeFastMask('beam')
+    this._fastBricksOrBushes = tempSample.makeFastMultiMask(['bricks', 'bush'])
+    this._fastHarvested = tempSample.makeFastMask('harvested')
+    this._fastMaturePlant = tempSample.makeFastMask('maturePlant')
+    this._fastMediumColliders = tempSample.makeFastMultiMask([
+      'bricks',
+      'bush',
+      'testObject',
+      'pyramid'
+    ])
+    this._fastWater = tempSample.makeFastMask('water')
+  }
+  update(entity: Entity, dt: number) {
+    const sampler = this._metaTileSampler
+    const x = entity.x
+    const y = entity.y
+    const otx = Math.floor(x)
+    const oty = Math.floor(y)
+    this._vx = 0
+    this._vy = 0
+    for (let ix = 0; ix < 2; ix++) {
+      for (let iy = 0; iy < 2; iy++) {
+        const tx = otx + ix
+        const ty = oty + iy
+        const namedBits = sampler.sampleMeta(tx, ty)
+        let size = 0
+        if (
+          namedBits.hasFast(this._fastMediumColliders) ||
+          (namedBits.hasFast(this._fastTrees) &&
+            !namedBits.hasFast(this._fastHarvested))
+        ) {
+          size = 0.65
+          this.pushFromConnections(x, y, tx, ty, this._fastBricksOrBushes, size)
+        } else if (
+          namedBits.hasFast(this._fastSmallColliders) ||
+          (namedBits.hasFast(this._fastTrees) &&
+            namedBits.hasFast(this._fastHarvested) &&
+            namedBits.hasFast(this._fastMaturePlant))
+        ) {
+          size = 0.35
+          this.pushFromConnections(x, y, tx, ty, this._fastBeam, size)
+        } else if (
+          namedBits.hasFast(this._fastRocks) &&
+          !namedBits.hasFast(this._fastHarvested)
+        ) {
+          size = 0.9
+        } else if (namedBits.hasFast(this._fastWater)) {
+          let waters = 0
+          for (const co of cardinalOffsets) {
+            if (
+              sampler
+                .sampleMeta(tx + co[0], ty + co[1])
+                .hasFast(this._fastWater)
+            ) {
+              waters++
+            }
+          }
+          if (waters === 4) {
+            size = 0.75
+          }
+        }
+        if (size > 0) {
+          this.push(x - tx, y - ty, size)
+        }
+      }
+    }
+    const amt = dt / idealFrameDuration
+    entity.x += this._vx * amt
+    entity.y += this._vy * amt
+  }
+  //walls and hedges also collide halfway towards connected neighbours
+  private pushFromConnections(
+    x: number,
+    y: number,
+    tx: number,
+    ty: number,
+    connectingMask: number,
+    size: number
+  ) {
+    for (const co of cardinalOffsets) {
+      if (
+        this._metaTileSampler
+          .sampleMeta(tx + co[0], ty + co[1])
+          .hasFast(connectingMask)
+      ) {
+        this.push(x - tx - co[0] * 0.5, y - ty - co[1] * 0.5, size)
+      }
+    }
+  }
+  private push(dx: number, dy: number, size: number) {
+    const dist = Math.max(0.01, Math.sqrt(dx * dx + dy * dy))
+    if (dist < size) {
+      const ratio = 1 - dist / size
+      this._vx += dx * ratio
+      this._vy += dy * ratio
+    }
+  }
+}
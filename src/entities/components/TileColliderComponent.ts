@@ -0,0 +1,38 @@
+import TileCollisionMap from '../../collision/TileCollisionMap'
+import Entity from '../Entity'
+import IEntityComponent from '../IEntityComponent'
+
+//keeps entities out of tile collision shapes, add it after anything that moves the entity
+//can be shared, it remembers where each entity was last frame
+export default class TileColliderComponent implements IEntityComponent {
+  //moves further than this are teleports and aren't swept
+  maxSweep = 1
+  private _lastPositions: Map<Entity, { x: number; y: number }> = new Map()
+  constructor(private _collision: TileCollisionMap, public radius = 0.25) {
+    //
+  }
+  attach(entity: Entity) {
+    this._lastPositions.set(entity, { x: entity.x, y: entity.y })
+  }
+  update(entity: Entity) {
+    let position = this._lastPositions.get(entity)
+    if (!position) {
+      position = { x: entity.x, y: entity.y }
+      this._lastPositions.set(entity, position)
+    }
+    const dx = entity.x - position.x
+    const dy = entity.y - position.y
+    if (dx * dx + dy * dy > this.maxSweep * this.maxSweep) {
+      position.x = entity.x
+      position.y = entity.y
+      this._collision.resolveCircle(position, this.radius)
+    } else {
+      this._collision.moveCircle(position, entity.x, entity.y, this.radius)
+    }
+    entity.x = position.x
+    entity.y = position.y
+  }
+  detach(entity: Entity) {
+    this._lastPositions.delete(entity)
+  }
+}
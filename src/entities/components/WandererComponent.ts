@@ -0,0 +1,34 @@
+import { clamp } from 'three/src/math/MathUtils'
+import { rand, rand2 } from '../../utils/math'
+import Entity from '../Entity'
+import IEntityComponent from '../IEntityComponent'
+
+//idles, turns around randomly and now and then walks off in the direction it faces
+export default class WandererComponent implements IEntityComponent {
+  private _angleDelta = 0
+  constructor(public maxSpeed = 0.4) {
+    //
+  }
+  update(entity: Entity, dt: number) {
+    let angleDelta = this._angleDelta
+    if (entity.animTime === 0) {
+      angleDelta += rand2(0.03)
+      angleDelta = clamp(angleDelta, -0.1, 0.1)
+      angleDelta *= 0.99
+      entity.angle += angleDelta
+      entity.angle *= 0.99
+      this._angleDelta = angleDelta
+      if (rand() > 0.97) {
+        entity.animTime += 0.01
+      }
+    }
+    if (entity.animTime > 0) {
+      entity.animTime += 0.025
+      entity.x += Math.cos(entity.angle - Math.PI * 0.5) * this.maxSpeed
+      entity.y += Math.sin(entity.angle - Math.PI * 0.5) * this.maxSpeed
+    }
+    if (entity.animTime >= 1) {
+      entity.animTime = 0
+    }
+  }
+}
@@ -0,0 +1,24 @@
+import Entity from '../Entity'
+
+//steps the entity towards a point, facing it and animating the walk
+//returns true once it's there
+export function walkTowards(
+  entity: Entity,
+  x: number,
+  y: number,
+  distance: number
+) {
+  const dx = x - entity.x
+  const dy = y - entity.y
+  const remaining = Math.sqrt(dx * dx + dy * dy)
+  if (remaining <= distance) {
+    entity.x = x
+    entity.y = y
+    return true
+  }
+  entity.angle = Math.atan2(dy, dx) + Math.PI * 0.5
+  entity.x += (dx / remaining) * distance
+  entity.y += (dy / remaining) * distance
+  entity.animTime = (entity.animTime + 0.025) % 1 || 0.025
+  return false
+}
@@ -0,0 +1,41 @@
+import { MaterialPalette } from './materialLib'
+
+//palettes by id so they fit in a byte of a tile description, 0 is no palette
+export default class MaterialPaletteRegistry {
+  private _palettes: MaterialPalette[] = []
+  private _names: string[] = []
+  private _ids: Map<string, number> = new Map()
+  constructor() {
+    //
+  }
+  register(name: string, palette: MaterialPalette) {
+    if (this._ids.has(name)) {
+      throw new Error(`palette "${name}" already exists`)
+    }
+    const id = this._palettes.length + 1
+    if (id > 255) {
+      throw new Error('no more room for palettes!')
+    }
+    this._palettes.push(palette)
+    this._names.push(name)
+    this._ids.set(name, id)
+    return id
+  }
+  has(name: string) {
+    return this._ids.has(name)
+  }
+  //ids are only stable for the lifetime of the registry, save names instead
+  getId(name: string) {
+    const id = this._ids.get(name)
+    if (id === undefined) {
+      throw new Error(`unknown palette "${name}"`)
+    }
+    return id
+  }
+  get(id: number): MaterialPalette | undefined {
+    return this._palettes[id - 1]
+  }
+  getName(id: number): string | undefined {
+    return this._names[id - 1]
+  }
+}
@@ -41,8 +41,10 @@ export const CuratedMaterialTypeStrings = [
   'skin',
   'plastic',
   'grass',
+  'grassDry',
   'bush',
   'leafMaple',
+  'leafAutumn',
   'pineNeedle',
   'berry',
   'pants',
@@ -67,6 +69,11 @@ export const isCuratedMaterial = makeSafetyCheckFromConstStringArray(
   CuratedMaterialTypeStrings
 )
 
+//materials to swap for others, anything not listed stays as it is
+export type MaterialPalette = {
+  [K in CuratedMaterialType]?: CuratedMaterialType
+}
+
 const MaterialPassTypeStrings = [
   'beauty',
   'normals',
@@ -190,6 +197,14 @@ export const standardMaterialParamLib: {
     side: DoubleSide,
     opacity: 0.5
   },
+  grassDry: {
+    roughness: 1,
+    metalness: 0.95,
+    color: new Color(0.55, 0.5, 0.2),
+    wireframe: true,
+    side: DoubleSide,
+    opacity: 0.5
+  },
   bush: {
     roughness: 1,
     metalness: 0.95,
@@ -206,6 +221,12 @@ export const standardMaterialParamLib: {
     // wireframe: true,
     opacity: 0.5
   },
+  leafAutumn: {
+    roughness: 1,
+    metalness: 0.95,
+    color: new Color(0.7, 0.2, 0.05),
+    opacity: 0.5
+  },
   pineNeedle: {
     roughness: 0.8,
     metalness: 0.95,
@@ -372,10 +393,13 @@ function __onBeforeRenderDoUpdateWorldNormals(
     .value as Matrix3
   modelNormalMatrix.getNormalMatrix(this.matrixWorld)
 }
+//with a palette, meshes swap from the material they were made with, so any palette can follow any other
+//that is remembered in userData, so set materials before a mesh is first rendered with a palette
 export function changeMeshMaterials(
   node: Object3D,
   pass: MaterialPassType,
-  visibleOnly = false
+  visibleOnly = false,
+  palette?: MaterialPalette
 ) {
   if (!visibleOnly || (visibleOnly && node.visible)) {
     if (node instanceof Mesh && node.material instanceof Material) {
@@ -383,7 +407,16 @@ export function changeMeshMaterials(
         if (node.material instanceof WorldNormalMeshMaterial) {
           node.onBeforeRender = NOOP
         }
-        const mat = getMeshMaterial(node.material.name, pass)
+        let name: CuratedMaterialType = node.material.name
+        if (palette) {
+          if (!node.userData.unpalettedMaterial) {
+            node.userData.unpalettedMaterial = name
+          }
+          const unpaletted = node.userData
+            .unpalettedMaterial as CuratedMaterialType
+          name = palette[unpaletted] || unpaletted
+        }
+        const mat = getMeshMaterial(name, pass)
         node.material = mat
         if (node.material instanceof WorldNormalMeshMaterial) {
           node.onBeforeRender = __onBeforeRenderDoUpdateWorldNormals
@@ -391,7 +424,7 @@ export function changeMeshMaterials(
       }
     }
     for (const child of node.children) {
-      changeMeshMaterials(child, pass, visibleOnly)
+      changeMeshMaterials(child, pass, visibleOnly, palette)
     }
   }
 }
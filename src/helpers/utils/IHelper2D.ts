@@ -0,0 +1,3 @@
+export default interface IHelper2D {
+  getValue(x: number, y: number): number
+}
@@ -9,6 +9,8 @@ import JITTileSampler from '../../rendering/tileMaker/mapTileMaker/JITTileSample
 import JITSpriteSampler from '../../rendering/tileMaker/spriteMaker/JITSpriteSampler'
 import MapCacheRenderer from '../../mapCache/MapCacheRenderer'
 import MapTileMaker from '../../rendering/tileMaker/mapTileMaker/MapTileMaker'
+import TileDefinitionRegistry from '../../rendering/tileMaker/TileDefinitionRegistry'
+import WorldGenerator from '../../rendering/tileMaker/mapTileMaker/WorldGenerator'
 import { sunOffset, sunSpeed } from '../../constants'
 
 import MapWithSpritesCacheRenderer from '../../mapCache/MapWithSpritesCacheRenderer'
@@ -53,19 +55,29 @@ export default class MapScrollingView {
     mapViewUvST?: Vector4,
     mapViewSubTilePixelOffsetUvST?: Vector4,
     clipspaceMode = true,
-    passes?: MaterialPassType[]
+    passes?: MaterialPassType[],
+    registerExtraTileDefinitions?: (
+      tileDefinitions: TileDefinitionRegistry
+    ) => void,
+    worldGenerator?: WorldGenerator
   ) {
     const tileMaker = new MapTileMaker(
       pixelsPerTile,
       pixelsPerCacheEdge,
-      passes
+      passes,
+      registerExtraTileDefinitions
     )
     const spriteMaker = new SpriteMaker(
       pixelsPerTile,
       pixelsPerCacheEdge,
       passes
     )
-    const jitTileSampler = new JITTileSampler(tileMaker, viewWidth, viewHeight)
+    const jitTileSampler = new JITTileSampler(
+      tileMaker,
+      viewWidth,
+      viewHeight,
+      worldGenerator
+    )
     const jitSpriteSampler = new JITSpriteSampler(
       spriteMaker,
       pixelsPerTile,
@@ -81,19 +93,10 @@ export default class MapScrollingView {
     )
 
     tileMaker.listenForMadeTiles(jitTileSampler.onTileMade)
-    tileMaker.isIndexStillOnScreen = (index: number) => {
-      for (let iCol = 0; iCol < viewWidth; iCol++) {
-        for (let iRow = 0; iRow < viewHeight; iRow++) {
-          const x = this.offsetX + iCol
-          const y = this.offsetY + iRow
-          const sampledVis = jitTileSampler.sampleVisIds(x, y)
-          if (index === sampledVis.idBottom || index === sampledVis.idTop) {
-            return true
-          }
-        }
-      }
-      return false
-    }
+    tileMaker.isIndexStillOnScreen = jitTileSampler.isTileIdOnScreen
+    tileMaker.listenForEvictedTiles(jitTileSampler.onTileEvicted)
+    tileMaker.bakeScheduler.priorityOf = jitTileSampler.getTileIdBakePriority
+    spriteMaker.isIndexStillOnScreen = jitSpriteSampler.isTileIdOnScreen
 
     const mapWithSpritesCacheRenderer = new MapWithSpritesCacheRenderer(
       mapCacheRenderer,
@@ -191,12 +194,14 @@ export default class MapScrollingView {
       this.mapCacheRenderer.tileBottomPointsGeo.drawRange.count = 0
       this.mapCacheRenderer.tileTopPointsGeo.drawRange.count = 0
     }
+    this.jitSpriteSampler.updateAnimations(dt)
     this.jitSpriteSampler.updateVis(
       this.mapWithSpritesCacheRenderer.spriteBottomPointsGeo,
       this.mapWithSpritesCacheRenderer.spriteTopPointsGeo
     )
     this.spriteMaker.render(renderer)
     this.mapWithSpritesCacheRenderer.render(renderer)
+    this.pointLightRenderer.update(dt)
     this.pointLightRenderer.render(renderer)
   }
 }
@@ -1,6 +1,48 @@
 import JITTileSampler from './rendering/tileMaker/mapTileMaker/JITTileSampler'
 import MapTileMaker from './rendering/tileMaker/mapTileMaker/MapTileMaker'
+import TileDefinitionRegistry from './rendering/tileMaker/TileDefinitionRegistry'
+import TileBakeScheduler from './rendering/tileMaker/TileBakeScheduler'
+import MetaConstraintSolver from './rendering/tileMaker/mapTileMaker/MetaConstraintSolver'
+import TileActions from './rendering/tileMaker/mapTileMaker/TileActions'
+import LevelEditor from './editor/LevelEditor'
+import LevelEditorOverlay from './editor/LevelEditorOverlay'
+import MetaEditHistory from './rendering/tileMaker/mapTileMaker/MetaEditHistory'
+import TileActionInputBinder from './rendering/tileMaker/mapTileMaker/TileActionInputBinder'
+import WorldGenerator from './rendering/tileMaker/mapTileMaker/WorldGenerator'
+import { worldGeneratorPresets } from './rendering/tileMaker/mapTileMaker/worldGeneratorPresets'
 import MapScrollingView from './helpers/utils/MapScrollingView'
+import InMemoryMetaStore from './metaStores/InMemoryMetaStore'
+import IndexedDBMetaStore from './metaStores/IndexedDBMetaStore'
+import MetaChunkStore from './metaStores/MetaChunkStore'
+import InMemoryChunkBackend from './metaStores/InMemoryChunkBackend'
+import IndexedDBChunkBackend from './metaStores/IndexedDBChunkBackend'
+import LocalStorageMap from './utils/LocalStorageMap'
+import { exportWorld, importWorld } from './worldSave/worldSave'
+import {
+  deserializeWorldSave,
+  serializeWorldSave,
+  worldSaveMigrations
+} from './worldSave/worldSaveFormat'
+import Entity from './entities/Entity'
+import EntityManager from './entities/EntityManager'
+import FlowFieldFollowerComponent from './entities/components/FlowFieldFollowerComponent'
+import GrabberComponent from './entities/components/GrabberComponent'
+import HeldItemComponent from './entities/components/HeldItemComponent'
+import HoverComponent from './entities/components/HoverComponent'
+import KeyboardMoverComponent from './entities/components/KeyboardMoverComponent'
+import LanternLightComponent from './entities/components/LanternLightComponent'
+import PathFollowerComponent from './entities/components/PathFollowerComponent'
+import SolipsisticRespawnerComponent from './entities/components/SolipsisticRespawnerComponent'
+import SpinnerComponent from './entities/components/SpinnerComponent'
+import SpriteAvoiderComponent from './entities/components/SpriteAvoiderComponent'
+import TileAvoiderComponent from './entities/components/TileAvoiderComponent'
+import TileColliderComponent from './entities/components/TileColliderComponent'
+import WandererComponent from './entities/components/WandererComponent'
+import TileCostMap from './pathfinding/TileCostMap'
+import FlowField from './pathfinding/FlowField'
+import { findPath } from './pathfinding/findPath'
+import TileCollisionMap from './collision/TileCollisionMap'
+import TilePhysicsBridge from './physics/TilePhysicsBridge'
 import TextureCachingScroller from './rendering/TextureCachingScroller'
 
 import { BasicFullScreenMaterial } from './materials/BasicFullScreenMaterial'
@@ -14,20 +56,75 @@ import Memoize3D from './helpers/utils/Memoize3D'
 import { TILES } from './helpers/utils/tilesEnum'
 import { LightController } from './mapCache/PointLightRenderer'
 import { SpriteController } from './rendering/tileMaker/spriteMaker/JITSpriteSampler'
+import SpatialIndex from './rendering/tileMaker/spriteMaker/SpatialIndex'
 import { createMapCacheViewPlane } from './helpers/utils/createMapCacheViewPlane'
 export default {
   MapTileMaker,
+  TileDefinitionRegistry,
+  TileBakeScheduler,
   JITTileSampler,
+  MetaConstraintSolver,
+  TileActions,
+  TileActionInputBinder,
+  MetaEditHistory,
+  LevelEditor,
+  LevelEditorOverlay,
+  WorldGenerator,
+  worldGeneratorPresets,
   MapScrollingView,
   TextureCachingScroller,
   geometry: {
     FibonacciSphereGeometry
   },
+  worldSave: {
+    exportWorld,
+    importWorld,
+    serializeWorldSave,
+    deserializeWorldSave,
+    worldSaveMigrations
+  },
+  metaStores: {
+    InMemoryMetaStore,
+    IndexedDBMetaStore,
+    LocalStorageMap,
+    MetaChunkStore,
+    InMemoryChunkBackend,
+    IndexedDBChunkBackend
+  },
   helpers: {
     createMapCacheViewPlane
   },
   LightController,
   SpriteController,
+  SpatialIndex,
+  Entity,
+  EntityManager,
+  entityComponents: {
+    FlowFieldFollowerComponent,
+    GrabberComponent,
+    HeldItemComponent,
+    HoverComponent,
+    KeyboardMoverComponent,
+    LanternLightComponent,
+    PathFollowerComponent,
+    SolipsisticRespawnerComponent,
+    SpinnerComponent,
+    SpriteAvoiderComponent,
+    TileAvoiderComponent,
+    TileColliderComponent,
+    WandererComponent
+  },
+  pathfinding: {
+    TileCostMap,
+    FlowField,
+    findPath
+  },
+  collision: {
+    TileCollisionMap
+  },
+  physics: {
+    TilePhysicsBridge
+  },
   getMeshMaterial,
   PegboardMesh,
   LandscapeTileIndex3D,
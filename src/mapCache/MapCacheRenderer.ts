@@ -45,11 +45,7 @@ export default class MapCacheRenderer {
 
     //nothingness will be the default visuals for queued tiles
     const nothingnessVisProps = new NamedBitsInBytes(
-      new Uint8Array(
-        Math.ceil(
-          _jitTileSampler.tileMaker.visualPropertyLookupStrings.length / 8
-        )
-      ),
+      new Uint8Array(_jitTileSampler.bytesPerTile),
       _jitTileSampler.tileMaker.visualPropertyLookupStrings
     )
     nothingnessVisProps.enableBit('nothingness')
@@ -85,7 +81,7 @@ export default class MapCacheRenderer {
     tileTopPointsGeo.setIndex(new BufferAttribute(indexArr, 1))
     const pass = _jitTileSampler.tileMaker.passes[0]
     const pointsBottomMaterial = new TileCacheWriterPointMaterial({
-      tileTex: _jitTileSampler.tileMaker.getTexture(pass),
+      tileTex: _jitTileSampler.tileMaker.getTextures(pass),
       viewWidth,
       viewHeight,
       pixelsPerTile,
@@ -95,7 +91,7 @@ export default class MapCacheRenderer {
     this._pointsBottomMaterial = pointsBottomMaterial
     pointsBottom.frustumCulled = false
     const pointsTopMaterial = new TileCacheWriterPointMaterial({
-      tileTex: _jitTileSampler.tileMaker.getTexture(pass),
+      tileTex: _jitTileSampler.tileMaker.getTextures(pass),
       viewWidth,
       viewHeight,
       pixelsPerTile,
@@ -138,9 +134,9 @@ export default class MapCacheRenderer {
   render(renderer: WebGLRenderer) {
     for (const pass of this._jitTileSampler.tileMaker.passes) {
       renderer.setRenderTarget(this.mapCache.get(pass)!)
-      const passTileTex = this._jitTileSampler.tileMaker.getTexture(pass)
-      this._pointsBottomMaterial.tileTexture = passTileTex
-      this._pointsTopMaterial.tileTexture = passTileTex
+      const passTileTex = this._jitTileSampler.tileMaker.getTextures(pass)
+      this._pointsBottomMaterial.tileTextures = passTileTex
+      this._pointsTopMaterial.tileTextures = passTileTex
       renderer.render(this.mapCacheScene, this.mapCacheCamera)
     }
     renderer.setRenderTarget(null)
@@ -2,6 +2,7 @@ import {
   BufferAttribute,
   BufferGeometry,
   Float32BufferAttribute,
+  Int16BufferAttribute,
   LinearEncoding,
   Mesh,
   NearestFilter,
@@ -10,7 +11,6 @@ import {
   Points,
   RepeatWrapping,
   Scene,
-  Uint16BufferAttribute,
   Vector4,
   WebGLRenderer,
   WebGLRenderTarget
@@ -55,18 +55,19 @@ export default class MapWithSpritesCacheRenderer {
     const viewHeight = height * pixelsPerTile
     const xyzBottomArr = new Float32Array(maxSprites * 3)
     const xyzTopArr = new Float32Array(maxSprites * 3)
-    const idBottomArr = new Uint16Array(maxSprites)
-    const idTopArr = new Uint16Array(maxSprites)
+    //signed, mirrored sprite facings are negative
+    const idBottomArr = new Int16Array(maxSprites)
+    const idTopArr = new Int16Array(maxSprites)
 
     const tileBottomPointsGeo = new BufferGeometry()
     const xyzBottomAttr = new Float32BufferAttribute(xyzBottomArr, 3)
     tileBottomPointsGeo.setAttribute('xyz', xyzBottomAttr)
-    const idBottomAttr = new Uint16BufferAttribute(idBottomArr, 1)
+    const idBottomAttr = new Int16BufferAttribute(idBottomArr, 1)
     tileBottomPointsGeo.setAttribute('id', idBottomAttr)
     const tileTopPointsGeo = new BufferGeometry()
     const xyzTopAttr = new Float32BufferAttribute(xyzTopArr, 3)
     tileTopPointsGeo.setAttribute('xyz', xyzTopAttr)
-    const idTopAttr = new Uint16BufferAttribute(idTopArr, 1)
+    const idTopAttr = new Int16BufferAttribute(idTopArr, 1)
     tileTopPointsGeo.setAttribute('id', idTopAttr)
     const indexArr = new Uint16Array(maxSprites)
     for (let i = 0; i < maxSprites; i++) {
@@ -91,7 +92,7 @@ export default class MapWithSpritesCacheRenderer {
 
     const uvST = new Vector4(1, 1, 0, 0)
     const matParams: Partial<TileCacheWriterPointMaterialParameters> = {
-      tileTex: spriteMaker.getTexture(pass),
+      tileTex: spriteMaker.getTextures(pass),
       viewWidth,
       viewHeight,
       pixelsPerTile,
@@ -100,7 +101,7 @@ export default class MapWithSpritesCacheRenderer {
         'customRoughnessMetalnessHeight'
       )!.texture,
       mapDepthCacheUvST: uvST,
-      alternateDepthTileTex: spriteMaker.getTexture(
+      alternateDepthTileTex: spriteMaker.getTextures(
         'customRoughnessMetalnessHeight'
       ),
       depthSortByY: true,
@@ -161,10 +162,11 @@ export default class MapWithSpritesCacheRenderer {
       this.mapCacheBackdropMaterial.texture =
         this._mapCacheRenderer.mapCache.get(pass)!.texture
       renderer.setRenderTarget(this.mapCache.get(pass)!)
-      const passTileTex = this._jitSpriteSampler.spriteMaker.getTexture(pass)
+      const passTileTex = this._jitSpriteSampler.spriteMaker.getTextures(pass)
       const isTopDownHeight = pass === 'customTopDownHeight'
       const isHeight = pass.includes('Height')
-      const passDepthTileTex = this._jitSpriteSampler.spriteMaker.getTexture(
+      const mirrorNormals = pass === 'normals' ? 1 : 0
+      const passDepthTileTex = this._jitSpriteSampler.spriteMaker.getTextures(
         isTopDownHeight
           ? 'customTopDownHeight'
           : 'customRoughnessMetalnessHeight'
@@ -174,17 +176,19 @@ export default class MapWithSpritesCacheRenderer {
           ? 'customTopDownHeight'
           : 'customRoughnessMetalnessHeight'
       )!.texture
-      this._pointsBottomMaterial.tileTexture = passTileTex
+      this._pointsBottomMaterial.tileTextures = passTileTex
       this._pointsBottomMaterial.mapDepthCacheTexture = passDepthMapTex
-      this._pointsBottomMaterial.alternateDepthTileTexture = passDepthTileTex
+      this._pointsBottomMaterial.alternateDepthTileTextures = passDepthTileTex
       this._pointsBottomMaterial.zSlideScale = isTopDownHeight ? 0 : 1
       this._pointsBottomMaterial.zColorScale = isHeight ? 1 : 0
-      this._pointsTopMaterial.tileTexture = passTileTex
+      this._pointsBottomMaterial.mirrorNormals = mirrorNormals
+      this._pointsTopMaterial.tileTextures = passTileTex
       this._pointsTopMaterial.mapDepthCacheTexture = passDepthMapTex
-      this._pointsTopMaterial.alternateDepthTileTexture = passDepthTileTex
-      this._pointsTopMaterial.alternateDepthTileTexture = passDepthTileTex
+      this._pointsTopMaterial.alternateDepthTileTextures = passDepthTileTex
+      this._pointsTopMaterial.alternateDepthTileTextures = passDepthTileTex
       this._pointsTopMaterial.zSlideScale = isTopDownHeight ? 0 : 1
       this._pointsTopMaterial.zColorScale = isHeight ? 1 : 0
+      this._pointsTopMaterial.mirrorNormals = mirrorNormals
       renderer.clearDepth()
       renderer.render(this.mapCacheScene, this.mapCacheCamera)
     }
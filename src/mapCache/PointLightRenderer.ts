@@ -18,79 +18,262 @@ import {
   PointLightPointMaterialParameters
 } from '../materials/PointLightPointMaterial'
 import MapWithSpritesCacheRenderer from './MapWithSpritesCacheRenderer'
+import { removeFromArray } from '../utils/arrayUtils'
 import { wrap } from '../utils/math'
 import { COLOR_BLACK } from '../utils/colorLibrary'
+import { detRandLights } from '../utils/random'
+
+export type LightFalloff = 'linear' | 'quadratic' | 'cubic'
+
+const __falloffExponents: { [K in LightFalloff]: number } = {
+  linear: 1,
+  quadratic: 2,
+  cubic: 3
+}
+
+//speeds are in cycles per second, amounts are fractions of the base value
+export type LightAnimation =
+  | { type: 'flicker'; amount?: number; speed?: number }
+  | { type: 'pulse'; amount?: number; speed?: number }
+  | { type: 'colorCycle'; colors: Color[]; speed?: number }
+  //lag is roughly how many seconds it takes to catch up
+  | {
+      type: 'follow'
+      target: { x: number; y: number }
+      lag?: number
+      offsetX?: number
+      offsetY?: number
+    }
+
+export type LightOptions = {
+  intensity?: number
+  falloff?: LightFalloff
+  enabled?: boolean
+  animations?: LightAnimation[]
+}
+
+//when more lights are in view than a group can draw
+export type LightCapPolicy = 'nearest' | 'brightest' | 'first'
 
 export class LightController {
+  enabled = true
+  intensity = 1
+  falloff: LightFalloff = 'quadratic'
+  animations: LightAnimation[] = []
+  //what gets drawn after the animations, size, intensity and color stay as set
+  animatedSize: number
+  animatedIntensity = 1
+  readonly animatedColor = new Color()
+  private _time = detRandLights(0, 100)
   constructor(
     public x: number,
     public y: number,
     public z: number,
     public size: number,
-    public color: Color
-  ) {}
+    public color: Color,
+    options: LightOptions = {}
+  ) {
+    const { intensity = 1, falloff = 'quadratic', enabled = true } = options
+    this.intensity = intensity
+    this.falloff = falloff
+    this.enabled = enabled
+    if (options.animations) {
+      this.animations = options.animations.slice()
+    }
+    this.animatedSize = size
+    this.animatedIntensity = intensity
+    this.animatedColor.copy(color)
+  }
+  get falloffExponent() {
+    return __falloffExponents[this.falloff]
+  }
+  animate(dt: number) {
+    this._time += dt
+    const time = this._time
+    let size = this.size
+    let intensity = this.intensity
+    this.animatedColor.copy(this.color)
+    for (const animation of this.animations) {
+      switch (animation.type) {
+        case 'flicker': {
+          const { amount = 0.3, speed = 1 } = animation
+          const t = time * speed * Math.PI * 2
+          //uneven sines read as a flame rather than a wave
+          const wobble =
+            Math.sin(t * 7.3) * 0.5 +
+            Math.sin(t * 13.1 + 1.7) * 0.3 +
+            Math.sin(t * 23.9 + 4.1) * 0.2
+          intensity *= 1 - amount * (wobble * 0.5 + 0.5)
+          break
+        }
+        case 'pulse': {
+          const { amount = 0.2, speed = 0.5 } = animation
+          size *= 1 + amount * Math.sin(time * speed * Math.PI * 2)
+          break
+        }
+        case 'colorCycle': {
+          const { colors, speed = 0.25 } = animation
+          if (colors.length === 0) {
+            break
+          }
+          const t = wrap(time * speed, 0, 1) * colors.length
+          const i = Math.floor(t) % colors.length
+          this.animatedColor.lerpColors(
+            colors[i],
+            colors[(i + 1) % colors.length],
+            t - Math.floor(t)
+          )
+          break
+        }
+        case 'follow': {
+          const { target, lag = 0.1, offsetX = 0, offsetY = 0 } = animation
+          const x = target.x + offsetX
+          const y = target.y + offsetY
+          //snap when teleported
+          if (
+            lag <= 0 ||
+            Math.abs(this.x - x) > 2 ||
+            Math.abs(this.y - y) > 2
+          ) {
+            this.x = x
+            this.y = y
+          } else {
+            const amt = 1 - Math.exp(-dt / lag)
+            this.x += (x - this.x) * amt
+            this.y += (y - this.y) * amt
+          }
+          break
+        }
+      }
+    }
+    this.animatedSize = size
+    this.animatedIntensity = intensity
+  }
 }
 
-class LightGroup {
+const __candidates: LightController[] = []
+const __scores: Map<LightController, number> = new Map()
+
+function getLightBrightness(light: LightController) {
+  const c = light.animations.length > 0 ? light.animatedColor : light.color
+  const intensity =
+    light.animations.length > 0 ? light.animatedIntensity : light.intensity
+  const size = light.animations.length > 0 ? light.animatedSize : light.size
+  return (c.r + c.g + c.b) * intensity * size
+}
+
+export class LightGroup {
   update(
     ppt: number,
     offsetX: number,
     offsetY: number,
     viewWidth: number,
-    viewHeight: number
+    viewHeight: number,
+    capPolicy: LightCapPolicy = 'nearest'
   ) {
     const lightPointsGeo = this._lightPointsGeo
     const xyzSizeAttr = lightPointsGeo.getAttribute('xyzSize')
     const xyzSizeArr = xyzSizeAttr.array as number[]
     const colorAttr = lightPointsGeo.getAttribute('color')
     const colorArr = colorAttr.array as number[]
+    const falloffAttr = lightPointsGeo.getAttribute('falloff')
+    const falloffArr = falloffAttr.array as number[]
     lightPointsGeo.drawRange.count = 0
-    let j = 0
+    const candidates = __candidates
+    candidates.length = 0
     for (let i = 0; i < this._lights.length; i++) {
-      const sprite = this._lights[i]
-      const x = sprite.x - offsetX
-      const y = sprite.y - offsetY
-      if (x < 0 || x > viewWidth || y < 0 || y > viewHeight) {
+      const light = this._lights[i]
+      const x = light.x - offsetX
+      const y = light.y - offsetY
+      if (!light.enabled || x < 0 || x > viewWidth || y < 0 || y > viewHeight) {
         continue
       }
+      candidates.push(light)
+    }
+    if (candidates.length > this._maxPointLights) {
+      this.applyCapPolicy(
+        capPolicy,
+        offsetX + viewWidth * 0.5,
+        offsetY + viewHeight * 0.5
+      )
+    }
+    let j = 0
+    for (const light of candidates) {
+      const x = light.x - offsetX
+      const y = light.y - offsetY
+      const animated = light.animations.length > 0
       const xSnap = Math.round(wrap(x, 0, viewWidth) * ppt) / ppt
       const ySnap = Math.round(wrap(y, 0, viewHeight) * ppt) / ppt
       const j3 = j * 3
       const j4 = j * 4
       xyzSizeArr[j4] = xSnap
       xyzSizeArr[j4 + 1] = ySnap
-      xyzSizeArr[j4 + 2] = sprite.z
-      xyzSizeArr[j4 + 3] = sprite.size
-      const c = sprite.color
-      colorArr[j3] = c.r
-      colorArr[j3 + 1] = c.g
-      colorArr[j3 + 2] = c.b
+      xyzSizeArr[j4 + 2] = light.z
+      xyzSizeArr[j4 + 3] = animated ? light.animatedSize : light.size
+      const c = animated ? light.animatedColor : light.color
+      const intensity = animated ? light.animatedIntensity : light.intensity
+      colorArr[j3] = c.r * intensity
+      colorArr[j3 + 1] = c.g * intensity
+      colorArr[j3 + 2] = c.b * intensity
+      falloffArr[j] = light.falloffExponent
       j++
     }
+    candidates.length = 0
     lightPointsGeo.drawRange.count = j
     if (j > 0) {
       xyzSizeAttr.needsUpdate = true
       colorAttr.needsUpdate = true
+      falloffAttr.needsUpdate = true
     }
     return j
   }
+  //trims the candidates down to what fits in the buffers
+  private applyCapPolicy(
+    capPolicy: LightCapPolicy,
+    centerX: number,
+    centerY: number
+  ) {
+    const candidates = __candidates
+    if (capPolicy !== 'first') {
+      const scores = __scores
+      for (const light of candidates) {
+        if (capPolicy === 'nearest') {
+          const dx = light.x - centerX
+          const dy = light.y - centerY
+          scores.set(light, dx * dx + dy * dy)
+        } else {
+          scores.set(light, -getLightBrightness(light))
+        }
+      }
+      candidates.sort((a, b) => scores.get(a)! - scores.get(b)!)
+      scores.clear()
+    }
+    candidates.length = this._maxPointLights
+  }
   private _lights: LightController[] = []
+  get lights(): readonly LightController[] {
+    return this._lights
+  }
   private _lightPointsGeo: BufferGeometry
   pointLightPoints: Points<BufferGeometry, PointLightPointMaterial>
   constructor(
     public useShadows: boolean,
-    maxPointLights: number,
+    public shadowResolution: number,
+    private _maxPointLights: number,
     matParams: Partial<PointLightPointMaterialParameters>
   ) {
     const lightPointsGeo = new BufferGeometry()
-    const xyzSizeArr = new Float32Array(maxPointLights * 4)
+    const xyzSizeArr = new Float32Array(_maxPointLights * 4)
     const xyzSizeAttr = new Float32BufferAttribute(xyzSizeArr, 4)
     lightPointsGeo.setAttribute('xyzSize', xyzSizeAttr)
-    const colorArr = new Float32Array(maxPointLights * 3)
+    const colorArr = new Float32Array(_maxPointLights * 3)
     const colorAttr = new Float32BufferAttribute(colorArr, 3)
     lightPointsGeo.setAttribute('color', colorAttr)
-    const indexArr = new Uint16Array(maxPointLights)
-    for (let i = 0; i < maxPointLights; i++) {
+    const falloffArr = new Float32Array(_maxPointLights)
+    const falloffAttr = new Float32BufferAttribute(falloffArr, 1)
+    lightPointsGeo.setAttribute('falloff', falloffAttr)
+    const indexArr = new Uint16Array(_maxPointLights)
+    for (let i = 0; i < _maxPointLights; i++) {
       indexArr[i] = i
     }
     lightPointsGeo.setIndex(new BufferAttribute(indexArr, 1))
@@ -101,15 +284,43 @@ class LightGroup {
     this._lightPointsGeo = lightPointsGeo
     this.pointLightPoints = pointLightPoints
   }
-  makeLight(x: number, y: number, z: number, size: number, color: Color) {
-    const light = new LightController(x, y, z, size, color)
+  makeLight(
+    x: number,
+    y: number,
+    z: number,
+    size: number,
+    color: Color,
+    options?: LightOptions
+  ) {
+    const light = new LightController(x, y, z, size, color, options)
     this._lights.push(light)
     return light
   }
+  removeLight(light: LightController) {
+    if (!this._lights.includes(light)) {
+      return false
+    }
+    removeFromArray(this._lights, light)
+    return true
+  }
+  clearLights() {
+    this._lights.length = 0
+  }
+  animate(dt: number) {
+    for (const light of this._lights) {
+      if (light.animations.length > 0) {
+        light.animate(dt)
+      }
+    }
+  }
 }
 
 export default class PointLightRenderer {
+  capPolicy: LightCapPolicy = 'nearest'
   private _lightGroups: LightGroup[] = []
+  get lightGroups(): readonly LightGroup[] {
+    return this._lightGroups
+  }
   private _lightGroupsLookup: Map<string, LightGroup> = new Map()
   private _pixelsWidth: number
   private _pixelsHeight: number
@@ -138,6 +349,7 @@ export default class PointLightRenderer {
 
       const lightGroup = new LightGroup(
         useShadows,
+        shadowResolution,
         this._maxPointLights,
         matParams
       )
@@ -194,6 +406,20 @@ export default class PointLightRenderer {
     this._pixelsWidth = pixelsWidth
     this._pixelsHeight = pixelsHeight
   }
+  removeLight(light: LightController) {
+    for (const lightGroup of this._lightGroups) {
+      if (lightGroup.removeLight(light)) {
+        return true
+      }
+    }
+    return false
+  }
+  //advances light animations, call once per frame before render
+  update(dt: number) {
+    for (const lightGroup of this._lightGroups) {
+      lightGroup.animate(dt)
+    }
+  }
   render(renderer: WebGLRenderer) {
     let jt = 0
     for (const lightGroup of this._lightGroups) {
@@ -202,7 +428,8 @@ export default class PointLightRenderer {
         this.offsetX,
         this.offsetY,
         this._viewWidth,
-        this._viewHeight
+        this._viewHeight,
+        this.capPolicy
       )
     }
     if (jt === 0) {
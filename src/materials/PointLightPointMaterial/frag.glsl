@@ -8,6 +8,7 @@ uniform sampler2D uTextureRoughnessMetalnessHeightMapCache;
 varying vec2 vInverseUv;
 varying vec2 vSizeHeight;
 varying vec3 vColor;
+varying float vFalloff;
 
 void main() {
   // vec2 uvTile = floor(uTileMap.xy * 8.0) / 8.0 + fract(vUv * 64.0) / 8.0;
@@ -38,7 +39,7 @@ void main() {
   float dotP = dot(surfaceNormal, lightDir) * (1.0 + metalness * 0.4);
   dotP = mix(1.0 - 0.5 * (1.0-dotP), dotP, roughness);
   float distance = max(0.0, 1.0 - length(relLightPos)/(lightTileSize * 0.5));
-  float lightStrength = max(0.0, dotP) * distance * distance;
+  float lightStrength = max(0.0, dotP) * pow(distance, vFalloff);
 
 
   float floorYOffset = -texelHeight * RELATIVE_TILE_SIZE;
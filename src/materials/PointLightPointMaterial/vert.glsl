@@ -3,9 +3,11 @@ precision highp float;
 uniform vec2 uViewRes;
 attribute vec4 xyzSize;
 attribute vec3 color;
+attribute float falloff;
 uniform float z;
 varying vec2 vSizeHeight;
 varying vec3 vColor;
+varying float vFalloff;
 
 varying vec2 vInverseUv;
 
@@ -15,4 +17,5 @@ void main() {
   vInverseUv = gl_Position.xy * 0.5 - 0.5 - (vec2(xyzSize.w * 0.5) / uViewRes);
   vSizeHeight = xyzSize.wz;
   vColor = color;
+  vFalloff = falloff;
 }
\ No newline at end of file
@@ -1,16 +1,22 @@
 precision lowp float;
 
-uniform sampler2D uSpriteTex;
+uniform sampler2D uSpriteTex[PAGE_COUNT];
 
 #ifdef USE_PALETTE
   uniform sampler2D uPaletteTex;
 #endif
 
 varying vec2 vFrame;
+varying float vPage;
 varying float vId;
 
 void main() {
-  vec4 sampleMap = texture2D(uSpriteTex, (gl_PointCoord + vFrame) / vec2(8.0));
+  vec4 sampleMap = vec4(0.0);
+  for(int i = 0; i < PAGE_COUNT; i++) {
+    if(abs(float(i) - vPage) < 0.5) {
+      sampleMap = texture2D(uSpriteTex[i], (gl_PointCoord + vFrame) / vec2(8.0));
+    }
+  }
   if(sampleMap.w < 0.5) {
     discard;
   }
@@ -7,7 +7,8 @@ import fragmentShader from './frag.glsl'
 import vertexShader from './vert.glsl'
 
 interface Parameters {
-  spriteTex: Texture
+  //frames past the 64 of the first page continue on the next page
+  spriteTex: Texture | Texture[]
   paletteTex: undefined | Texture
   transform: Vector3
 }
@@ -21,12 +22,17 @@ const __defaultParams: Parameters = {
 export class SpritesPointMaterial extends RawShaderMaterial {
   constructor(options: Partial<Parameters> = {}) {
     const params = buildParameters(__defaultParams, options)
+    const spriteTexPages = Array.isArray(params.spriteTex)
+      ? params.spriteTex
+      : [params.spriteTex]
     const uniforms: { [key: string]: Uniform } = {
-      uSpriteTex: new Uniform(params.spriteTex),
+      uSpriteTex: new Uniform(spriteTexPages),
       uTransform: new Uniform(params.transform),
       uAspectRatio: pixelAspectRatioUniform
     }
-    const defines: { [key: string]: boolean | string | number } = {}
+    const defines: { [key: string]: boolean | string | number } = {
+      PAGE_COUNT: spriteTexPages.length
+    }
 
     if (params.paletteTex) {
       uniforms.uPaletteTex = new Uniform(params.paletteTex)
@@ -6,11 +6,14 @@ uniform float uAspectRatio;
 uniform vec3 uTransform;
 
 varying vec2 vFrame;
+varying float vPage;
 varying float vId;
 
 void main() {
     vec2 xy = ((xyzFrame.xy / vec2(uAspectRatio, 1.0)) / uTransform.z + uTransform.xy);
-    vFrame = vec2(mod(xyzFrame.w, 8.0), floor(xyzFrame.w / 8.0));
+    float frame = mod(xyzFrame.w, 64.0);
+    vPage = floor(xyzFrame.w / 64.0);
+    vFrame = vec2(mod(frame, 8.0), floor(frame / 8.0));
     vId = id;
     float z = xyzFrame.z;
     gl_Position = vec4(xy.x, xy.y, z, 1.0);
@@ -1,13 +1,14 @@
 precision highp float;
 
 uniform vec3 uColor;
-uniform sampler2D uTileTex;
+uniform sampler2D uTileTex[PAGE_COUNT];
 
 varying vec2 vUv;
+varying float vPage;
 
 #ifdef DISCARD_BY_MAP_DEPTH_CACHE
   #ifdef ALTERNATE_DEPTH_TILE
-    uniform sampler2D uAlternateDepthTileTex;
+    uniform sampler2D uAlternateDepthTileTex[PAGE_COUNT];
   #endif
   uniform sampler2D uMapDepthCacheTexture;
   varying vec2 vInverseUv;
@@ -15,7 +16,9 @@ varying vec2 vUv;
 
 #ifdef USE_XYZ
   varying float vZ;
+  varying float vMirror;
   uniform float zColorScale;
+  uniform float mirrorNormals;
 #endif 
 
 
@@ -23,10 +26,19 @@ void main() {
   // vec2 uvTile = floor(uTileMap.xy * 8.0) / 8.0 + fract(vUv * 64.0) / 8.0;
   vec2 flippedCoord = gl_PointCoord;
   flippedCoord.y = 1.0 - flippedCoord.y;
-  vec2 uv = vUv + flippedCoord / TILES_PER_CACHE_EDGE;
+  vec2 tileCoord = flippedCoord;
+  #ifdef USE_XYZ
+    tileCoord.x = mix(tileCoord.x, 1.0 - tileCoord.x, vMirror);
+  #endif
+  vec2 uv = vUv + tileCoord / TILES_PER_CACHE_EDGE;
   #ifdef DISCARD_BY_MAP_DEPTH_CACHE
     #ifdef ALTERNATE_DEPTH_TILE
-      vec4 depthTileSample = texture2D(uAlternateDepthTileTex, uv);
+      vec4 depthTileSample = vec4(0.0);
+      for(int i = 0; i < PAGE_COUNT; i++) {
+        if(abs(float(i) - vPage) < 0.5) {
+          depthTileSample = texture2D(uAlternateDepthTileTex[i], uv);
+        }
+      }
       if(depthTileSample.a < 0.1) {
         discard;
       }
@@ -40,12 +52,19 @@ void main() {
     }
   #endif
 
-  vec4 tileTexel = texture2D(uTileTex, uv);
+  vec4 tileTexel = vec4(0.0);
+  for(int i = 0; i < PAGE_COUNT; i++) {
+    if(abs(float(i) - vPage) < 0.5) {
+      tileTexel = texture2D(uTileTex[i], uv);
+    }
+  }
   if(tileTexel.a < 0.1) {
     discard;
   }
   #ifdef USE_XYZ
     tileTexel.b += vZ * zColorScale;
+    // world normals point the other way along x in a mirrored facing
+    tileTexel.r = mix(tileTexel.r, 1.0 - tileTexel.r, vMirror * mirrorNormals);
   #endif
   
   gl_FragColor = tileTexel;
@@ -15,14 +15,15 @@ import vertexShader from './vert.glsl'
 
 export interface TileCacheWriterPointMaterialParameters {
   color: Color
-  tileTex: Texture
+  //either a single page or every page of a multi-page tile atlas
+  tileTex: Texture | Texture[]
   viewWidth: number
   viewHeight: number
   pixelsPerTile: number
   pixelsPerCacheEdge: number
   mapDepthCacheTexture?: Texture
   mapDepthCacheUvST?: Vector4
-  alternateDepthTileTex?: Texture
+  alternateDepthTileTex?: Texture | Texture[]
   depthSortByY?: boolean
   z: number
   useXYZ: boolean
@@ -41,6 +42,10 @@ const __defaultParams: TileCacheWriterPointMaterialParameters = {
   zSlideScale: 1
 }
 
+function toPages(textures: Texture | Texture[]) {
+  return Array.isArray(textures) ? textures : [textures]
+}
+
 export class TileCacheWriterPointMaterial extends RawShaderMaterial {
   private _mapDepthCacheTextureUniform: Uniform
   public get mapDepthCacheTexture(): Texture {
@@ -63,27 +68,50 @@ export class TileCacheWriterPointMaterial extends RawShaderMaterial {
   public set zColorScale(value: number) {
     this._zColorScaleUniform.value = value
   }
+  private _mirrorNormalsUniform: Uniform
+  //1 while writing world normals, so mirrored sprite facings flip them along x
+  public get mirrorNormals(): number {
+    return this._mirrorNormalsUniform.value
+  }
+  public set mirrorNormals(value: number) {
+    this._mirrorNormalsUniform.value = value
+  }
   public get tileTexture(): Texture {
-    return this._tileTexUniform.value
+    return this._tileTexUniform.value[0]
   }
   public set tileTexture(value: Texture) {
-    this._tileTexUniform.value = value
+    this.tileTextures = [value]
+  }
+  public get tileTextures(): Texture[] {
+    return this._tileTexUniform.value
+  }
+  public set tileTextures(value: Texture[]) {
+    this._tileTexUniform.value = this.fillPages(value)
   }
   public get alternateDepthTileTexture(): Texture {
-    return this._alternateDepthTileTexUniform.value
+    return this._alternateDepthTileTexUniform.value[0]
   }
   public set alternateDepthTileTexture(value: Texture) {
-    this._alternateDepthTileTexUniform.value = value
+    this.alternateDepthTileTextures = [value]
+  }
+  public get alternateDepthTileTextures(): Texture[] {
+    return this._alternateDepthTileTexUniform.value
   }
+  public set alternateDepthTileTextures(value: Texture[]) {
+    this._alternateDepthTileTexUniform.value = this.fillPages(value)
+  }
+  public readonly pageCount: number
   private _tileTexUniform: Uniform
   private _alternateDepthTileTexUniform: Uniform
   constructor(options: Partial<TileCacheWriterPointMaterialParameters> = {}) {
     const params = buildParameters(__defaultParams, options)
     assertPowerOfTwo(params.pixelsPerTile)
     assertPowerOfTwo(params.pixelsPerCacheEdge)
-    const uTileTex = new Uniform(params.tileTex)
+    const tileTexPages = toPages(params.tileTex)
+    const pageCount = tileTexPages.length
+    const uTileTex = new Uniform(tileTexPages)
     const alternateDepthTileTexUniform = new Uniform(
-      params.alternateDepthTileTex || getTempTexture()
+      toPages(params.alternateDepthTileTex || getTempTexture())
     )
     const uniforms: { [key: string]: Uniform } = {
       uColor: new Uniform(params.color),
@@ -96,7 +124,12 @@ export class TileCacheWriterPointMaterial extends RawShaderMaterial {
       PIXELS_PER_TILE: params.pixelsPerTile.toFixed(1),
       TILES_PER_CACHE_EDGE: (
         params.pixelsPerCacheEdge / params.pixelsPerTile
-      ).toFixed(1)
+      ).toFixed(1),
+      TILES_PER_PAGE: Math.pow(
+        params.pixelsPerCacheEdge / params.pixelsPerTile,
+        2
+      ).toFixed(1),
+      PAGE_COUNT: pageCount
     }
     const mapDepthCacheTextureUniform = new Uniform(params.mapDepthCacheTexture)
     if (params.mapDepthCacheTexture) {
@@ -116,10 +149,12 @@ export class TileCacheWriterPointMaterial extends RawShaderMaterial {
     }
     const zSlideScaleUniform = new Uniform(params.zSlideScale)
     const zColorScaleUniform = new Uniform(params.zColorScale)
+    const mirrorNormalsUniform = new Uniform(0)
     if (params.useXYZ) {
       defines.USE_XYZ = true
       uniforms.zSlideScale = zSlideScaleUniform
       uniforms.zColorScale = zColorScaleUniform
+      uniforms.mirrorNormals = mirrorNormalsUniform
     }
     super({
       uniforms,
@@ -131,10 +166,21 @@ export class TileCacheWriterPointMaterial extends RawShaderMaterial {
       depthWrite: true,
       depthTest: true
     })
+    this.pageCount = pageCount
     this._tileTexUniform = uTileTex
     this._alternateDepthTileTexUniform = alternateDepthTileTexUniform
+    this.alternateDepthTileTextures = alternateDepthTileTexUniform.value
     this._mapDepthCacheTextureUniform = mapDepthCacheTextureUniform
     this._zSlideScaleUniform = zSlideScaleUniform
     this._zColorScaleUniform = zColorScaleUniform
+    this._mirrorNormalsUniform = mirrorNormalsUniform
+  }
+  //the shader expects exactly pageCount samplers, missing pages repeat the first one
+  private fillPages(textures: Texture[]) {
+    const pages = textures.slice(0, this.pageCount)
+    while (pages.length < this.pageCount) {
+      pages.push(textures[0])
+    }
+    return pages
   }
 }
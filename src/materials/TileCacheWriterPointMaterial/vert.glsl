@@ -6,6 +6,7 @@ uniform vec2 uViewRes;
     #define COORD xyz.xy
     uniform float zSlideScale;
     varying float vZ;
+    varying float vMirror;
 #else 
     attribute vec2 xy;
     #define COORD xy
@@ -14,6 +15,7 @@ uniform float z;
 attribute float id;
 
 varying vec2 vUv;
+varying float vPage;
 
 #ifdef DISCARD_BY_MAP_DEPTH_CACHE 
     varying vec2 vInverseUv;
@@ -32,7 +34,15 @@ void main() {
         vZ = xyz.z * 0.5;
     #endif
     gl_PointSize = PIXELS_PER_TILE;
-    vUv = vec2(mod(id, TILES_PER_CACHE_EDGE) / TILES_PER_CACHE_EDGE, floor(id / TILES_PER_CACHE_EDGE) / TILES_PER_CACHE_EDGE);
+    float tileId = id;
+    #ifdef USE_XYZ
+        // mirrored sprite facings come in as -1 - id
+        vMirror = step(id, -0.5);
+        tileId = mix(id, -1.0 - id, vMirror);
+    #endif
+    vPage = floor(tileId / TILES_PER_PAGE);
+    float slot = mod(tileId, TILES_PER_PAGE);
+    vUv = vec2(mod(slot, TILES_PER_CACHE_EDGE) / TILES_PER_CACHE_EDGE, floor(slot / TILES_PER_CACHE_EDGE) / TILES_PER_CACHE_EDGE);
     #ifdef DISCARD_BY_MAP_DEPTH_CACHE 
         vInverseUv = gl_Position.xy * 0.5 - 0.5 - (vec2(PIXELS_PER_TILE * 0.5) / uViewRes);
         vInverseUv = vInverseUv * uMapDepthCacheUvST.xy + uMapDepthCacheUvST.zw;
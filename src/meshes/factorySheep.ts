@@ -1,5 +1,6 @@
 import { Material, Mesh, Object3D, SphereBufferGeometry } from 'three'
 import { Easing } from '../animation/Easing'
+import Rig, { RigChannel } from '../animation/Rig'
 import {
   getCachedChamferedBoxGeometry,
   getChamferedBoxGeometry
@@ -11,39 +12,28 @@ const C1_2 = Math.PI
 const C1_4 = Math.PI * 0.5
 const C1_8 = Math.PI * 0.25
 
-export function makeSheep(
+export function makeSheepRig(
   matFleecePrimary: Material,
   matFleeceSecondary: Material,
   matNose: Material,
-  matEyes: Material,
-  time = 0,
-  runStrength = 1
+  matEyes: Material
 ) {
   const pivot = new Object3D()
-  const body = new Mesh(
-    getCachedChamferedBoxGeometry(24, 26, 34, 8),
-    matFleecePrimary
+  const rig = new Rig(pivot)
+  const body = rig.addJoint(
+    'body',
+    new Mesh(getCachedChamferedBoxGeometry(24, 26, 34, 8), matFleecePrimary)
   )
-  const angle = time * C1_1
-  const phaseBody = angle * 0.5 - C1_4
-  body.position.y =
-    18 + Easing.Quadratic.Out(Math.cos(phaseBody)) * 30 * runStrength
+  body.position.y = 18
 
-  const bodyAngle = Easing.Quadratic.In(time) * C1_1
-  body.rotation.x = Math.sin(-bodyAngle) * 0.4 * runStrength
   //leg back
-  const legBack = new Mesh(
-    getCachedChamferedBoxGeometry(10, 20, 14, 4),
-    matFleecePrimary
+  const legBack = rig.addJoint(
+    'legBack',
+    new Mesh(getCachedChamferedBoxGeometry(10, 20, 14, 4), matFleecePrimary)
   )
   legBack.position.x = -10
   legBack.position.z = 7
-  legBack.position.y = Math.cos(angle + 1) * 4 * runStrength
-  //   const legBackAngle = Math.cos(angle * 0.5 - C1_4) * 1.5
-  const legBackAngle =
-    Math.sin(Easing.Quadratic.InOut((time + 1.5) % 1) * C1_1) * 1.3
-
-  legBack.rotation.x = Math.PI * 0.125 + legBackAngle * runStrength
+  legBack.rotation.x = Math.PI * 0.125
   body.add(legBack)
   const shinBack = new Mesh(
     getCachedChamferedBoxGeometry(5, 20, 7, 2),
@@ -53,21 +43,18 @@ export function makeSheep(
   shinBack.position.z = 4
   shinBack.rotation.x = Math.PI * -0.25
   legBack.add(shinBack)
-  const legBack2 = legBack.clone()
+  const legBack2 = rig.addJoint('legBack2', legBack.clone())
   legBack2.position.x *= -1
   body.add(legBack2)
 
   //leg front
-  const legFront = new Mesh(
-    getCachedChamferedBoxGeometry(10, 20, 14, 4),
-    matFleecePrimary
+  const legFront = rig.addJoint(
+    'legFront',
+    new Mesh(getCachedChamferedBoxGeometry(10, 20, 14, 4), matFleecePrimary)
   )
   legFront.position.x = -8
-  legFront.position.z = -7 + Math.sin(angle - 1) * 4 * runStrength
-  legBack.position.y = Math.cos(angle) * 4 * runStrength
-  const legFrontAngle =
-    Math.sin(Easing.Quadratic.InOut((time + 0.6) % 1) * C1_1) * 1.3
-  legFront.rotation.x = Math.PI * -0.125 + (legFrontAngle + 0.25) * runStrength
+  legFront.position.z = -7
+  legFront.rotation.x = Math.PI * -0.125
   body.add(legFront)
   const shinFront = new Mesh(
     getCachedChamferedBoxGeometry(5, 20, 7, 2),
@@ -77,35 +64,32 @@ export function makeSheep(
   shinFront.position.z = -4
   shinFront.rotation.x = Math.PI * 0.25
   legFront.add(shinFront)
-  const legFront2 = legFront.clone()
+  const legFront2 = rig.addJoint('legFront2', legFront.clone())
   legFront2.position.x *= -1
   body.add(legFront2)
 
   //tail
-  const tail = new Mesh(
-    getCachedChamferedBoxGeometry(8, 12, 10, 3),
-    matFleecePrimary
+  const tail = rig.addJoint(
+    'tail',
+    new Mesh(getCachedChamferedBoxGeometry(8, 12, 10, 3), matFleecePrimary)
   )
   tail.position.z = 17
-  const tailPhase = Math.sin(angle + 2.5) * 0.5 + 0.5
-  tail.position.y = 4 + tailPhase * 6 * runStrength
-  tail.rotation.x = Math.PI * -0.125 - tailPhase * 2 * runStrength
+  tail.position.y = 4
+  tail.rotation.x = Math.PI * -0.125
   body.add(tail)
 
   //head
-  const head = new Mesh(
-    getCachedChamferedBoxGeometry(12, 20, 12, 4),
-    matFleecePrimary
+  const head = rig.addJoint(
+    'head',
+    new Mesh(getCachedChamferedBoxGeometry(12, 20, 12, 4), matFleecePrimary)
   )
-  const headPhase = Math.sin(angle - 0.5) * 0.5 + 0.5
-  const headPhase2 = Math.sin(angle + 1) * 0.5 + 0.5
-  head.position.z = -17 + headPhase2 * -4 * runStrength
-  head.position.y = 10 + headPhase * 4 * runStrength
-  head.rotation.x = Math.PI * 0.25 + headPhase * 1.5 * runStrength
+  head.position.z = -17
+  head.position.y = 10
+  head.rotation.x = Math.PI * 0.25
   body.add(head)
 
   //ears
-  const earContainer = new Object3D()
+  const earContainer = rig.addJoint('ear', new Object3D())
   const ear = new Mesh(
     getCachedChamferedBoxGeometry(8, 2, 8, 1),
     matFleecePrimary
@@ -113,20 +97,12 @@ export function makeSheep(
   ear.position.x = -8
   ear.rotation.y = Math.PI * 0.25
   earContainer.position.y = 4
-  earContainer.rotation.x = Math.PI * 0.125
   earContainer.scale.z = 0.5
-  const ear2Container = earContainer.clone()
+  const ear2Container = rig.addJoint('ear2', earContainer.clone())
   earContainer.add(ear)
   const ear2 = ear.clone()
   ear2.position.x *= -1
   ear2Container.add(ear2)
-  const earPhase = Math.sin(angle - 2) * 0.5 + 0.5
-  earContainer.position.x = earPhase * -3 * runStrength
-  earContainer.rotation.z = -earPhase * runStrength
-  earContainer.rotation.x = -earPhase * runStrength
-  ear2Container.position.x = earPhase * 3 * runStrength
-  ear2Container.rotation.z = earPhase * runStrength
-  ear2Container.rotation.x = -earPhase * runStrength
   head.add(earContainer)
   head.add(ear2Container)
 
@@ -152,5 +128,149 @@ export function makeSheep(
 
   pivot.add(body)
 
-  return mergeMeshes(pivot)
+  const run: RigChannel[] = [
+    {
+      type: 'sine',
+      joint: 'body',
+      property: 'y',
+      amplitude: 30,
+      frequency: 0.5,
+      shape: Easing.Quadratic.Out
+    },
+    {
+      type: 'sine',
+      joint: 'body',
+      property: 'rotationX',
+      amplitude: -0.4,
+      timeEasing: Easing.Quadratic.In
+    },
+    {
+      type: 'sine',
+      joint: 'legBack',
+      property: 'y',
+      amplitude: 4,
+      phase: C1_4
+    },
+    {
+      type: 'sine',
+      joint: 'legBack2',
+      property: 'y',
+      amplitude: 4,
+      phase: C1_4 + 1
+    },
+    {
+      type: 'sine',
+      joint: 'tail',
+      property: 'y',
+      amplitude: 3,
+      offset: 3,
+      phase: 2.5
+    },
+    {
+      type: 'sine',
+      joint: 'tail',
+      property: 'rotationX',
+      amplitude: -1,
+      offset: -1,
+      phase: 2.5
+    },
+    {
+      type: 'sine',
+      joint: 'head',
+      property: 'z',
+      amplitude: -2,
+      offset: -2,
+      phase: 1
+    },
+    {
+      type: 'sine',
+      joint: 'head',
+      property: 'y',
+      amplitude: 2,
+      offset: 2,
+      phase: -0.5
+    },
+    {
+      type: 'sine',
+      joint: 'head',
+      property: 'rotationX',
+      amplitude: 0.75,
+      offset: 0.75,
+      phase: -0.5
+    }
+  ]
+  for (const joint of ['legBack', 'legBack2']) {
+    run.push({
+      type: 'sine',
+      joint,
+      property: 'rotationX',
+      amplitude: 1.3,
+      delay: 1.5,
+      timeEasing: Easing.Quadratic.InOut
+    })
+  }
+  for (const joint of ['legFront', 'legFront2']) {
+    run.push(
+      { type: 'sine', joint, property: 'z', amplitude: 4, phase: -1 },
+      {
+        type: 'sine',
+        joint,
+        property: 'rotationX',
+        amplitude: 1.3,
+        offset: 0.25,
+        delay: 0.6,
+        timeEasing: Easing.Quadratic.InOut
+      }
+    )
+  }
+  for (let s = -1; s <= 1; s += 2) {
+    const joint = s < 0 ? 'ear' : 'ear2'
+    run.push(
+      {
+        type: 'sine',
+        joint,
+        property: 'x',
+        amplitude: 1.5 * s,
+        offset: 1.5 * s,
+        phase: -2
+      },
+      {
+        type: 'sine',
+        joint,
+        property: 'rotationZ',
+        amplitude: 0.5 * s,
+        offset: 0.5 * s,
+        phase: -2
+      },
+      {
+        type: 'sine',
+        joint,
+        property: 'rotationX',
+        amplitude: -0.5,
+        offset: -0.5,
+        phase: -2
+      }
+    )
+  }
+  rig.addAnimation('run', { channels: run })
+
+  return rig
+}
+
+export function makeSheep(
+  matFleecePrimary: Material,
+  matFleeceSecondary: Material,
+  matNose: Material,
+  matEyes: Material,
+  time = 0,
+  runStrength = 1
+) {
+  const rig = makeSheepRig(
+    matFleecePrimary,
+    matFleeceSecondary,
+    matNose,
+    matEyes
+  )
+  rig.pose('run', time, runStrength)
+  return mergeMeshes(rig.root)
 }
@@ -1,4 +1,6 @@
 import { Material, Mesh, Object3D } from 'three'
+import { Easing } from '../animation/Easing'
+import Rig, { RigChannel } from '../animation/Rig'
 import { getCachedChamferedBoxGeometry } from '../utils/geometry'
 import { mergeMeshes } from '../utils/mergeMeshes'
 
@@ -8,37 +10,55 @@ const C1_4 = Math.PI * 0.5
 const C1_8 = Math.PI * 0.25
 const C1_16 = Math.PI * 0.125
 
-export function makeSkeleton(
+export function makeSkeletonRig(
   matSkin: Material,
   matBlack: Material,
-  matPants: Material,
-  time = 0,
-  runStrength = 1
+  matPants: Material
 ) {
   const pivot = new Object3D()
-  const hips = new Mesh(getCachedChamferedBoxGeometry(8, 4, 6, 2), matPants)
+  const rig = new Rig(pivot)
+  const run: RigChannel[] = []
+  const hips = rig.addJoint(
+    'hips',
+    new Mesh(getCachedChamferedBoxGeometry(8, 4, 6, 2), matPants)
+  )
   hips.position.set(0, 22, 0)
 
   hips.rotation.y = Math.PI
 
-  const torso = new Mesh(
-    getCachedChamferedBoxGeometry(3, 7, 2, 1, 0, 2, 0),
-    matSkin
+  const torso = rig.addJoint(
+    'torso',
+    new Mesh(getCachedChamferedBoxGeometry(3, 7, 2, 1, 0, 2, 0), matSkin)
   )
   torso.position.set(0, 4, 0)
-  torso.rotation.z = Math.sin(time * C1_1) * 0.3 * runStrength
   torso.rotation.x = -C1_16 * 0.5
   hips.add(torso)
+  run.push({
+    type: 'sine',
+    joint: 'torso',
+    property: 'rotationZ',
+    amplitude: 0.3
+  })
 
-  const torso2 = new Mesh(
-    getCachedChamferedBoxGeometry(10, 7, 6, 1, 0, 2, -1),
-    matBlack
+  const torso2 = rig.addJoint(
+    'torso2',
+    new Mesh(getCachedChamferedBoxGeometry(10, 7, 6, 1, 0, 2, -1), matBlack)
   )
   torso2.position.set(0, 4, 0)
-  torso2.rotation.x =
-    -C1_16 + (Math.sin(time * C1_1 * 2 - 2) * 0.5 + 0.5) * -0.3 * runStrength
-  torso2.rotation.z = Math.sin(time * C1_1) * 0.3 * runStrength
+  torso2.rotation.x = -C1_16
   torso.add(torso2)
+  run.push(
+    {
+      type: 'sine',
+      joint: 'torso2',
+      property: 'rotationX',
+      amplitude: -0.15,
+      offset: -0.15,
+      frequency: 2,
+      phase: -2
+    },
+    { type: 'sine', joint: 'torso2', property: 'rotationZ', amplitude: 0.3 }
+  )
 
   const neck = new Mesh(
     getCachedChamferedBoxGeometry(3, 5, 3, 1, 0, 4, 0),
@@ -48,16 +68,30 @@ export function makeSkeleton(
   neck.rotation.x = -C1_16 * 0.5
   torso2.add(neck)
 
-  const head = new Mesh(
-    getCachedChamferedBoxGeometry(10, 10, 10, 3, 0, 5, 0),
-    matSkin
+  const head = rig.addJoint(
+    'head',
+    new Mesh(getCachedChamferedBoxGeometry(10, 10, 10, 3, 0, 5, 0), matSkin)
   )
   head.scale.setScalar(1.5)
   head.position.set(0, 4, -2)
   head.rotation.x = C1_8
-  head.rotation.y = -Math.cos(time * C1_1 + 3.5) * 0.75 * runStrength
-  head.rotation.z = Math.sin(time * C1_1 + 3.5) * 0.75 * runStrength
   neck.add(head)
+  run.push(
+    {
+      type: 'sine',
+      joint: 'head',
+      property: 'rotationY',
+      amplitude: 0.75,
+      phase: 3.5 - C1_4
+    },
+    {
+      type: 'sine',
+      joint: 'head',
+      property: 'rotationZ',
+      amplitude: 0.75,
+      phase: 3.5
+    }
+  )
 
   const headInner = new Mesh(
     getCachedChamferedBoxGeometry(9, 9, 9, 3, 0, 3.5, -1.5),
@@ -67,7 +101,7 @@ export function makeSkeleton(
 
   const headDetails = new Object3D()
   head.add(headDetails)
-  const jawDetails = new Object3D()
+  const jawDetails = rig.addJoint('jaw', new Object3D())
   head.add(jawDetails)
 
   const mandibleMiddle = new Mesh(
@@ -76,11 +110,26 @@ export function makeSkeleton(
   )
   mandibleMiddle.position.set(0, -1, -7)
   jawDetails.add(mandibleMiddle)
-  jawDetails.rotation.x =
-    -Math.abs(Math.sin(time * C1_1 - 4)) * 0.5 * runStrength
-  jawDetails.rotation.y = Math.sin(time * C1_1 + 5) * 0.25 * runStrength
+  run.push(
+    {
+      type: 'sine',
+      joint: 'jaw',
+      property: 'rotationX',
+      amplitude: -0.5,
+      phase: -4,
+      shape: Math.abs
+    },
+    {
+      type: 'sine',
+      joint: 'jaw',
+      property: 'rotationY',
+      amplitude: 0.25,
+      phase: 5
+    }
+  )
 
   for (let s = -1; s <= 1; s += 2) {
+    const side = s < 0 ? 'L' : 'R'
     const brow = new Mesh(
       getCachedChamferedBoxGeometry(5, 2, 4, 1, 2 * s, 0, 0),
       matSkin
@@ -139,22 +188,44 @@ export function makeSkeleton(
     mandible.rotation.y = -C1_8 * s
     jawDetails.add(mandible)
 
-    const leg = new Mesh(
-      getCachedChamferedBoxGeometry(3, 14, 3, 1, 0, -5, 0),
-      matPants
+    const leg = rig.addJoint(
+      'leg' + side,
+      new Mesh(getCachedChamferedBoxGeometry(3, 14, 3, 1, 0, -5, 0), matPants)
     )
     leg.position.set(-3 * s, 0, 0)
-    leg.rotation.z =
-      (-0.25 - C1_16 - Math.sin(time * C1_1 + s * C1_4)) * s * 0.5 * runStrength
-    leg.rotation.x = C1_16 + Math.sin(time * C1_1 + s * C1_4) * runStrength
+    leg.rotation.x = C1_16
     hips.add(leg)
-    const shin = new Mesh(
-      getCachedChamferedBoxGeometry(4, 14, 4, 1.5, 0, -5, 0),
-      matPants
+    const shin = rig.addJoint(
+      'shin' + side,
+      new Mesh(getCachedChamferedBoxGeometry(4, 14, 4, 1.5, 0, -5, 0), matPants)
     )
     leg.add(shin)
     shin.position.y = -11
-    shin.rotation.x = -C1_8 + Math.sin(time * C1_1 + s * C1_4 - 2) * runStrength
+    shin.rotation.x = -C1_8
+    run.push(
+      {
+        type: 'sine',
+        joint: 'leg' + side,
+        property: 'rotationZ',
+        amplitude: -s * 0.5,
+        offset: (-0.25 - C1_16) * s * 0.5,
+        phase: s * C1_4
+      },
+      {
+        type: 'sine',
+        joint: 'leg' + side,
+        property: 'rotationX',
+        amplitude: 1,
+        phase: s * C1_4
+      },
+      {
+        type: 'sine',
+        joint: 'shin' + side,
+        property: 'rotationX',
+        amplitude: 1,
+        phase: s * C1_4 - 2
+      }
+    )
     const foot = new Mesh(
       getCachedChamferedBoxGeometry(5, 10, 4, 1.5, 0, -3, 0),
       matSkin
@@ -174,22 +245,45 @@ export function makeSkeleton(
       torso2.add(rib1)
     }
 
-    const bicep = new Mesh(
-      getCachedChamferedBoxGeometry(3, 12, 3, 1, 0, -5, 0),
-      matSkin
+    const bicep = rig.addJoint(
+      'bicep' + side,
+      new Mesh(getCachedChamferedBoxGeometry(3, 12, 3, 1, 0, -5, 0), matSkin)
     )
     bicep.position.set(-5 * s, 4, 1)
     bicep.rotation.order = 'YXZ'
-    bicep.rotation.x = C1_2 * 0.7
-    bicep.rotation.y = C1_4 * s
-    bicep.rotation.z =
-      C1_8 * s + Math.sin(time * 2 * C1_1 * s + 3) * 0.2 * runStrength
-    bicep.rotation.z -= Math.sin(-time * C1_1 + 3) * 0.6 * runStrength
-    if (runStrength === 0) {
-      bicep.rotation.y = 0
-      bicep.rotation.z = -s * 0.25
-      bicep.rotation.x = 0
-    }
+    bicep.rotation.z = -s * 0.25
+    //arms hang down at rest and swing out in front while running
+    run.push(
+      {
+        type: 'keyframes',
+        joint: 'bicep' + side,
+        property: 'rotationX',
+        keys: [{ time: 0, value: C1_2 * 0.7 }]
+      },
+      {
+        type: 'keyframes',
+        joint: 'bicep' + side,
+        property: 'rotationY',
+        keys: [{ time: 0, value: C1_4 * s }]
+      },
+      {
+        type: 'sine',
+        joint: 'bicep' + side,
+        property: 'rotationZ',
+        amplitude: 0.2,
+        offset: C1_8 * s + s * 0.25,
+        frequency: 2 * s,
+        phase: 3
+      },
+      {
+        type: 'sine',
+        joint: 'bicep' + side,
+        property: 'rotationZ',
+        amplitude: -0.6,
+        frequency: -1,
+        phase: 3
+      }
+    )
 
     torso2.add(bicep)
     const forearm = new Mesh(
@@ -247,5 +341,141 @@ export function makeSkeleton(
   pivot.add(hips)
   pivot.scale.setScalar(1.2)
 
-  return mergeMeshes(pivot)
+  rig.addAnimation('run', { channels: run })
+  rig.addAnimation('idle', {
+    channels: [
+      {
+        type: 'sine',
+        joint: 'torso2',
+        property: 'rotationX',
+        amplitude: -0.05,
+        offset: -0.05
+      },
+      {
+        type: 'sine',
+        joint: 'head',
+        property: 'rotationZ',
+        amplitude: 0.1,
+        phase: 1
+      },
+      {
+        type: 'sine',
+        joint: 'jaw',
+        property: 'rotationX',
+        amplitude: -0.15,
+        frequency: 2,
+        shape: Math.abs
+      }
+    ]
+  })
+  rig.addAnimation('attack', {
+    channels: [
+      {
+        type: 'keyframes',
+        joint: 'bicepR',
+        property: 'rotationX',
+        keys: [
+          { time: 0, value: 0, easing: Easing.Quadratic.Out },
+          { time: 0.4, value: C1_2 * 0.9, easing: Easing.Cubic.In },
+          { time: 0.6, value: C1_4 * 0.6, easing: Easing.Quadratic.InOut },
+          { time: 1, value: 0 }
+        ]
+      },
+      {
+        type: 'keyframes',
+        joint: 'torso',
+        property: 'rotationY',
+        keys: [
+          { time: 0, value: 0, easing: Easing.Quadratic.Out },
+          { time: 0.4, value: -0.4, easing: Easing.Cubic.In },
+          { time: 0.6, value: 0.4, easing: Easing.Quadratic.InOut },
+          { time: 1, value: 0 }
+        ]
+      }
+    ]
+  })
+  rig.addAnimation('hurt', {
+    loop: false,
+    channels: [
+      {
+        type: 'keyframes',
+        joint: 'torso2',
+        property: 'rotationX',
+        keys: [
+          { time: 0, value: 0, easing: Easing.Quadratic.Out },
+          { time: 0.3, value: 0.5, easing: Easing.Quadratic.InOut },
+          { time: 1, value: 0 }
+        ]
+      },
+      {
+        type: 'keyframes',
+        joint: 'head',
+        property: 'rotationX',
+        keys: [
+          { time: 0, value: 0, easing: Easing.Quadratic.Out },
+          { time: 0.3, value: 0.4, easing: Easing.Quadratic.InOut },
+          { time: 1, value: 0 }
+        ]
+      }
+    ]
+  })
+  //walks with both arms held out in front
+  const carry: RigChannel[] = run.filter(
+    (channel) => !channel.joint.startsWith('bicep')
+  )
+  for (const joint of ['bicepL', 'bicepR']) {
+    carry.push({
+      type: 'keyframes',
+      joint,
+      property: 'rotationX',
+      keys: [{ time: 0, value: C1_4 }]
+    })
+  }
+  rig.addAnimation('carry', { channels: carry })
+  rig.addAnimation('die', {
+    loop: false,
+    channels: [
+      {
+        type: 'keyframes',
+        joint: 'hips',
+        property: 'y',
+        keys: [
+          { time: 0, value: 0, easing: Easing.Quadratic.In },
+          { time: 1, value: -18 }
+        ]
+      },
+      {
+        type: 'keyframes',
+        joint: 'hips',
+        property: 'rotationX',
+        keys: [
+          { time: 0, value: 0, easing: Easing.Quadratic.In },
+          { time: 1, value: -C1_4 }
+        ]
+      },
+      {
+        type: 'keyframes',
+        joint: 'head',
+        property: 'rotationX',
+        keys: [
+          { time: 0.5, value: 0, easing: Easing.Quadratic.Out },
+          { time: 1, value: -C1_8 }
+        ]
+      }
+    ]
+  })
+
+  return rig
+}
+
+export function makeSkeleton(
+  matSkin: Material,
+  matBlack: Material,
+  matPants: Material,
+  time = 0,
+  runStrength = 1
+) {
+  const rig = makeSkeletonRig(matSkin, matBlack, matPants)
+  rig.pose('run', time, runStrength)
+  return mergeMeshes(rig.root)
 }
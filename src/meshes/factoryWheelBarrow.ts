@@ -9,6 +9,7 @@ import {
   Shape,
   Vector2
 } from 'three'
+import Rig from '../animation/Rig'
 import { getCachedChamferedBoxGeometry } from '../utils/geometry'
 import { mergeMeshes } from '../utils/mergeMeshes'
 
@@ -18,15 +19,11 @@ const C1_4 = Math.PI * 0.5
 const C1_8 = Math.PI * 0.25
 const C1_16 = Math.PI * 0.125
 
-export function makeWheelBarrow(
-  matWood: Material,
-  matWood2: Material,
-  time = 0,
-  runStrength = 1
-) {
+export function makeWheelBarrowRig(matWood: Material, matWood2: Material) {
   const axelWidth = 38
   const wheelRadius = 12
   const pivot = new Object3D()
+  const rig = new Rig(pivot)
   pivot.rotation.y = Math.PI
   const u = 0.5
   const u2 = u + 0.5
@@ -47,14 +44,13 @@ export function makeWheelBarrow(
 
   const geometry = new LatheBufferGeometry(points, 32)
   const wheel = new Mesh(geometry, matWood)
-  const axel = new Mesh(
-    getCachedChamferedBoxGeometry(axelWidth, 3, 3, 1),
-    matWood
+  const axel = rig.addJoint(
+    'axel',
+    new Mesh(getCachedChamferedBoxGeometry(axelWidth, 3, 3, 1), matWood)
   )
-  axel.rotation.x = time * -Math.PI * 2 * runStrength
-  const axelHousing = new Mesh(
-    getCachedChamferedBoxGeometry(8, 6, 8, 1),
-    matWood
+  const axelHousing = rig.addJoint(
+    'axelHousing',
+    new Mesh(getCachedChamferedBoxGeometry(8, 6, 8, 1), matWood)
   )
   axelHousing.add(axel)
   pivot.add(axelHousing)
@@ -109,7 +105,7 @@ export function makeWheelBarrow(
     return wallPivot
   }
 
-  const floor = buildWall(basketWidth, basketLength, 8)
+  const floor = rig.addJoint('floor', buildWall(basketWidth, basketLength, 8))
   floor.position.y = 4
   axelHousing.add(floor)
 
@@ -121,8 +117,6 @@ export function makeWheelBarrow(
   sideWall2.position.x *= -1
   sideWall2.rotation.z *= -1
   floor.add(sideWall2)
-  floor.rotation.z = Math.cos(time * Math.PI * 2) * 0.05 * runStrength
-  floor.rotation.x = Math.sin(time * Math.PI * 2) * 0.05 * runStrength
 
   const backWall = buildWall(wallHeight, basketLength * 0.75, 4)
   backWall.position.set(0, wallHeight * 0.5 + 2, basketLength * 0.5)
@@ -136,8 +130,54 @@ export function makeWheelBarrow(
   handle2.position.x *= -1
   axelHousing.add(handle2)
   axelHousing.add(handle)
-  axelHousing.rotation.z = Math.sin(time * Math.PI * 4) * 0.05 * runStrength
-  axelHousing.position.y += Math.cos(time * Math.PI * 4) * 0.5 * runStrength
 
-  return mergeMeshes(pivot)
+  rig.addAnimation('run', {
+    channels: [
+      {
+        type: 'keyframes',
+        joint: 'axel',
+        property: 'rotationX',
+        keys: [
+          { time: 0, value: 0 },
+          { time: 1, value: -C1_1 }
+        ]
+      },
+      {
+        type: 'sine',
+        joint: 'floor',
+        property: 'rotationZ',
+        amplitude: 0.05,
+        phase: C1_4
+      },
+      { type: 'sine', joint: 'floor', property: 'rotationX', amplitude: 0.05 },
+      {
+        type: 'sine',
+        joint: 'axelHousing',
+        property: 'rotationZ',
+        amplitude: 0.05,
+        frequency: 2
+      },
+      {
+        type: 'sine',
+        joint: 'axelHousing',
+        property: 'y',
+        amplitude: 0.5,
+        frequency: 2,
+        phase: C1_4
+      }
+    ]
+  })
+
+  return rig
+}
+
+export function makeWheelBarrow(
+  matWood: Material,
+  matWood2: Material,
+  time = 0,
+  runStrength = 1
+) {
+  const rig = makeWheelBarrowRig(matWood, matWood2)
+  rig.pose('run', time, runStrength)
+  return mergeMeshes(rig.root)
 }
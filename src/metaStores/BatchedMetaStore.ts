@@ -0,0 +1,64 @@
+import IMetaStore from './IMetaStore'
+
+//keeps everything in memory and persists changed keys in batches
+export default abstract class BatchedMetaStore<V = number>
+  implements IMetaStore<V>
+{
+  protected _values: Map<string, V> = new Map()
+  protected _pending: Set<string> = new Set()
+  private _flushTimeout: ReturnType<typeof setTimeout> | undefined
+  private _flushing: Promise<void> = Promise.resolve()
+  constructor(public readonly namespace: string, private _flushDelay = 500) {
+    //
+  }
+  has(key: string) {
+    return this._values.has(key)
+  }
+  get(key: string) {
+    return this._values.get(key)
+  }
+  set(key: string, value: V) {
+    this._values.set(key, value)
+    this.markPending(key)
+  }
+  delete(key: string) {
+    this._values.delete(key)
+    this.markPending(key)
+  }
+  keys() {
+    return this._values.keys()
+  }
+  flush() {
+    if (this._flushTimeout !== undefined) {
+      clearTimeout(this._flushTimeout)
+      this._flushTimeout = undefined
+    }
+    if (this._pending.size > 0) {
+      const keys: string[] = []
+      this._pending.forEach((key) => keys.push(key))
+      this._pending.clear()
+      const persisting = this._flushing
+        .catch(() => undefined)
+        .then(() => this.persist(keys))
+      //nothing is lost when a write fails, the keys are tried again with the next flush
+      persisting.catch(() => {
+        for (const key of keys) {
+          this.markPending(key)
+        }
+      })
+      this._flushing = persisting
+    }
+    return this._flushing
+  }
+  //deleted keys are passed in too, they are missing from _values
+  protected abstract persist(keys: string[]): Promise<void>
+  private markPending(key: string) {
+    this._pending.add(key)
+    if (this._flushTimeout === undefined) {
+      this._flushTimeout = setTimeout(() => {
+        this._flushTimeout = undefined
+        this.flush().catch((e) => console.warn('Could not persist meta', e))
+      }, this._flushDelay)
+    }
+  }
+}
@@ -0,0 +1,7 @@
+//raw storage for encoded meta chunks, keys are namespace/cx:cy
+export default interface IMetaChunkBackend {
+  read(key: string): Promise<Uint8Array | undefined>
+  write(key: string, bytes: Uint8Array): Promise<void>
+  remove(key: string): Promise<void>
+  keys(prefix: string): Promise<string[]>
+}
@@ -0,0 +1,20 @@
+export type MetaStoreLoadListener = (keys: string[]) => void
+
+//persists edited meta values by tile key (x:y), one namespace per world
+export default interface IMetaStore<V = number> {
+  readonly namespace: string
+  has(key: string): boolean
+  get(key: string): V | undefined
+  set(key: string, value: V): void
+  delete(key: string): void
+  //async stores only list the keys they have loaded so far
+  keys(): IterableIterator<string>
+  //resolves once every pending write has been persisted
+  flush(): Promise<void>
+  //async stores report keys that became readable after they were first asked for
+  onLoad?(listener: MetaStoreLoadListener): void
+  //makes every stored key readable, for stores that load lazily
+  loadAll?(): Promise<void>
+  //streaming stores load what is around the view and may drop the rest
+  setView?(x: number, y: number, width: number, height: number): void
+}
@@ -0,0 +1,25 @@
+import IMetaChunkBackend from './IMetaChunkBackend'
+
+export default class InMemoryChunkBackend implements IMetaChunkBackend {
+  private _chunks: Map<string, Uint8Array> = new Map()
+  read(key: string) {
+    return Promise.resolve(this._chunks.get(key))
+  }
+  write(key: string, bytes: Uint8Array) {
+    this._chunks.set(key, bytes)
+    return Promise.resolve()
+  }
+  remove(key: string) {
+    this._chunks.delete(key)
+    return Promise.resolve()
+  }
+  keys(prefix: string) {
+    const keys: string[] = []
+    this._chunks.forEach((_, key) => {
+      if (key.startsWith(prefix)) {
+        keys.push(key)
+      }
+    })
+    return Promise.resolve(keys)
+  }
+}
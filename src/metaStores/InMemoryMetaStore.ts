@@ -0,0 +1,26 @@
+import IMetaStore from './IMetaStore'
+
+export default class InMemoryMetaStore<V = number> implements IMetaStore<V> {
+  private _values: Map<string, V> = new Map()
+  constructor(public readonly namespace = 'default') {
+    //
+  }
+  has(key: string) {
+    return this._values.has(key)
+  }
+  get(key: string) {
+    return this._values.get(key)
+  }
+  set(key: string, value: V) {
+    this._values.set(key, value)
+  }
+  delete(key: string) {
+    this._values.delete(key)
+  }
+  keys() {
+    return this._values.keys()
+  }
+  flush() {
+    return Promise.resolve()
+  }
+}
@@ -0,0 +1,50 @@
+import IMetaChunkBackend from './IMetaChunkBackend'
+import {
+  openDatabase,
+  requestToPromise,
+  transactionToPromise
+} from './indexedDBUtils'
+
+const objectStoreName = 'chunks'
+
+export default class IndexedDBChunkBackend implements IMetaChunkBackend {
+  private _db: Promise<IDBDatabase>
+  constructor(databaseName = 'fauxel-meta-chunks') {
+    this._db = openDatabase(databaseName, objectStoreName)
+  }
+  read(key: string) {
+    return this._db.then((db) =>
+      requestToPromise<Uint8Array | undefined>(
+        db
+          .transaction(objectStoreName, 'readonly')
+          .objectStore(objectStoreName)
+          .get(key)
+      )
+    )
+  }
+  write(key: string, bytes: Uint8Array) {
+    return this.update((objectStore) => objectStore.put(bytes, key))
+  }
+  remove(key: string) {
+    return this.update((objectStore) => objectStore.delete(key))
+  }
+  keys(prefix: string) {
+    return this._db
+      .then((db) =>
+        requestToPromise(
+          db
+            .transaction(objectStoreName, 'readonly')
+            .objectStore(objectStoreName)
+            .getAllKeys(IDBKeyRange.bound(prefix, prefix + '\uffff'))
+        )
+      )
+      .then((keys) => keys.map((key) => key.toString()))
+  }
+  private update(change: (objectStore: IDBObjectStore) => void) {
+    return this._db.then((db) => {
+      const transaction = db.transaction(objectStoreName, 'readwrite')
+      change(transaction.objectStore(objectStoreName))
+      return transactionToPromise(transaction)
+    })
+  }
+}
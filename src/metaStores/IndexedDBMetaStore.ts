@@ -0,0 +1,146 @@
+import BatchedMetaStore from './BatchedMetaStore'
+import { MetaStoreLoadListener } from './IMetaStore'
+import {
+  openDatabase,
+  requestToPromise,
+  transactionToPromise
+} from './indexedDBUtils'
+
+const regionSize = 32
+const objectStoreName = 'regions'
+
+type RegionRecord = { [key: string]: number }
+
+function getRegionKey(key: string) {
+  const coords = key.split(':').map((v) => parseInt(v))
+  return `${Math.floor(coords[0] / regionSize)}:${Math.floor(
+    coords[1] / regionSize
+  )}`
+}
+
+//stores one record per 32x32 region, regions are loaded the first time a tile in them is asked for
+export default class IndexedDBMetaStore extends BatchedMetaStore<number> {
+  private _db: Promise<IDBDatabase>
+  private _regions: Map<string, Promise<void>> = new Map()
+  //keys written or deleted locally, stored values must not overwrite them
+  private _touched: Set<string> = new Set()
+  private _loadListeners: MetaStoreLoadListener[] = []
+  constructor(
+    namespace: string,
+    databaseName = 'fauxel-meta',
+    flushDelay?: number
+  ) {
+    super(namespace, flushDelay)
+    this._db = openDatabase(databaseName, objectStoreName)
+  }
+  has(key: string) {
+    this.loadRegion(getRegionKey(key))
+    return super.has(key)
+  }
+  get(key: string) {
+    this.loadRegion(getRegionKey(key))
+    return super.get(key)
+  }
+  set(key: string, value: number) {
+    this._touched.add(key)
+    super.set(key, value)
+  }
+  delete(key: string) {
+    this._touched.add(key)
+    super.delete(key)
+  }
+  onLoad(listener: MetaStoreLoadListener) {
+    this._loadListeners.push(listener)
+  }
+  preload(x: number, y: number) {
+    return this.loadRegion(getRegionKey(`${x}:${y}`))
+  }
+  loadAll() {
+    const prefix = this.getRecordKey('')
+    return this._db
+      .then((db) =>
+        requestToPromise(
+          db
+            .transaction(objectStoreName, 'readonly')
+            .objectStore(objectStoreName)
+            .getAllKeys(IDBKeyRange.bound(prefix, prefix + '\uffff'))
+        )
+      )
+      .then((keys) =>
+        Promise.all(
+          keys.map((key) =>
+            this.loadRegion(key.toString().slice(prefix.length))
+          )
+        )
+      )
+      .then(() => undefined)
+  }
+  protected persist(keys: string[]) {
+    const regionKeys: string[] = []
+    for (const key of keys) {
+      const regionKey = getRegionKey(key)
+      if (!regionKeys.includes(regionKey)) {
+        regionKeys.push(regionKey)
+      }
+    }
+    return Promise.all(regionKeys.map((r) => this.loadRegion(r)))
+      .then(() => this._db)
+      .then((db) => {
+        const records: { [regionKey: string]: RegionRecord } = {}
+        for (const regionKey of regionKeys) {
+          records[regionKey] = {}
+        }
+        this._values.forEach((value, key) => {
+          const record = records[getRegionKey(key)]
+          if (record) {
+            record[key] = value
+          }
+        })
+        const transaction = db.transaction(objectStoreName, 'readwrite')
+        const objectStore = transaction.objectStore(objectStoreName)
+        for (const regionKey of regionKeys) {
+          objectStore.put(records[regionKey], this.getRecordKey(regionKey))
+        }
+        return transactionToPromise(transaction)
+      })
+  }
+  private getRecordKey(regionKey: string) {
+    return `${this.namespace}/${regionKey}`
+  }
+  //a failed load is forgotten so the next read tries again, callers that don't wait on it only get a warning
+  private loadRegion(regionKey: string) {
+    if (!this._regions.has(regionKey)) {
+      const load = this._db
+        .then((db) =>
+          requestToPromise<RegionRecord | undefined>(
+            db
+              .transaction(objectStoreName, 'readonly')
+              .objectStore(objectStoreName)
+              .get(this.getRecordKey(regionKey))
+          )
+        )
+        .then((record) => {
+          const keys: string[] = []
+          for (const key in record) {
+            if (!this._touched.has(key)) {
+              this._values.set(key, record[key])
+              keys.push(key)
+            }
+          }
+          if (keys.length > 0) {
+            for (const listener of this._loadListeners) {
+              listener(keys)
+            }
+          }
+        })
+      this._regions.set(regionKey, load)
+      load.catch((e) => {
+        if (this._regions.get(regionKey) === load) {
+          this._regions.delete(regionKey)
+        }
+        console.warn('Could not load meta', e)
+      })
+    }
+    return this._regions.get(regionKey)!
+  }
+}
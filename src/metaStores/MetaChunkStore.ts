@@ -0,0 +1,231 @@
+import WorldGenerator from '../rendering/tileMaker/mapTileMaker/WorldGenerator'
+import BatchedMetaStore from './BatchedMetaStore'
+import IMetaChunkBackend from './IMetaChunkBackend'
+import { MetaStoreLoadListener } from './IMetaStore'
+import {
+  decodeMetaChunk,
+  encodeMetaChunk,
+  makeMetaChunkCode,
+  metaChunkSize,
+  readMetaChunkCode
+} from './metaChunkCodec'
+
+export type MetaChunkListener = (chunkX: number, chunkY: number) => void
+
+function parseKey(key: string) {
+  return key.split(':').map((v) => parseInt(v))
+}
+
+function getChunkKey(x: number, y: number) {
+  return `${Math.floor(x / metaChunkSize)}:${Math.floor(y / metaChunkSize)}`
+}
+
+//edits are kept per 32x32 chunk, encoded as run-length deltas against the generated world
+export default class MetaChunkStore extends BatchedMetaStore<number> {
+  private _chunks: Map<string, Promise<void>> = new Map()
+  //keys written or deleted locally, stored values must not overwrite them
+  private _touched: Set<string> = new Set()
+  private _loadListeners: MetaStoreLoadListener[] = []
+  private _chunkLoadListeners: MetaChunkListener[] = []
+  private _chunkUnloadListeners: MetaChunkListener[] = []
+  private _viewKey = ''
+  constructor(
+    private _worldGenerator: WorldGenerator,
+    private _backend: IMetaChunkBackend,
+    flushDelay?: number,
+    //chunks this far outside of the view stay loaded
+    private _chunkMargin = 1
+  ) {
+    super(_worldGenerator.namespace, flushDelay)
+  }
+  has(key: string) {
+    this.loadChunk(this.getChunkKeyOf(key))
+    return super.has(key)
+  }
+  get(key: string) {
+    this.loadChunk(this.getChunkKeyOf(key))
+    return super.get(key)
+  }
+  set(key: string, value: number) {
+    this._touched.add(key)
+    super.set(key, value)
+  }
+  delete(key: string) {
+    this._touched.add(key)
+    super.delete(key)
+  }
+  onLoad(listener: MetaStoreLoadListener) {
+    this._loadListeners.push(listener)
+  }
+  onChunkLoad(listener: MetaChunkListener) {
+    this._chunkLoadListeners.push(listener)
+  }
+  onChunkUnload(listener: MetaChunkListener) {
+    this._chunkUnloadListeners.push(listener)
+  }
+  setView(x: number, y: number, width: number, height: number) {
+    const margin = this._chunkMargin
+    const minX = Math.floor(x / metaChunkSize) - margin
+    const minY = Math.floor(y / metaChunkSize) - margin
+    const maxX = Math.floor((x + width - 1) / metaChunkSize) + margin
+    const maxY = Math.floor((y + height - 1) / metaChunkSize) + margin
+    const viewKey = `${minX}:${minY}:${maxX}:${maxY}`
+    if (viewKey === this._viewKey) {
+      return
+    }
+    this._viewKey = viewKey
+    const isInView = (chunkKey: string) => {
+      const [chunkX, chunkY] = parseKey(chunkKey)
+      return (
+        chunkX >= minX && chunkX <= maxX && chunkY >= minY && chunkY <= maxY
+      )
+    }
+    const outOfView: string[] = []
+    this._chunks.forEach((_, chunkKey) => {
+      if (!isInView(chunkKey)) {
+        outOfView.push(chunkKey)
+      }
+    })
+    if (outOfView.length > 0) {
+      //the view may have come back by the time pending edits are written
+      this.flush()
+        .then(() => {
+          for (const chunkKey of outOfView) {
+            if (!isInView(chunkKey)) {
+              this.unloadChunk(chunkKey)
+            }
+          }
+        })
+        .catch((e) => console.warn('Could not persist meta', e))
+    }
+    for (let chunkY = minY; chunkY <= maxY; chunkY++) {
+      for (let chunkX = minX; chunkX <= maxX; chunkX++) {
+        this.loadChunk(`${chunkX}:${chunkY}`)
+      }
+    }
+  }
+  //resolves once the chunk holding this tile can be read synchronously
+  preload(x: number, y: number) {
+    return this.loadChunk(getChunkKey(x, y))
+  }
+  //every stored chunk of this world, not just the loaded ones
+  storedChunkKeys() {
+    const prefix = this.namespace + '/'
+    return this._backend
+      .keys(prefix)
+      .then((keys) => keys.map((key) => key.slice(prefix.length)))
+  }
+  loadAll() {
+    return this.storedChunkKeys()
+      .then((chunkKeys) =>
+        Promise.all(chunkKeys.map((chunkKey) => this.loadChunk(chunkKey)))
+      )
+      .then(() => undefined)
+  }
+  protected persist(keys: string[]) {
+    const chunkKeys: string[] = []
+    for (const key of keys) {
+      const chunkKey = this.getChunkKeyOf(key)
+      if (!chunkKeys.includes(chunkKey)) {
+        chunkKeys.push(chunkKey)
+      }
+    }
+    return Promise.all(
+      chunkKeys.map((chunkKey) =>
+        this.loadChunk(chunkKey).then(() => this.writeChunk(chunkKey))
+      )
+    ).then(() => undefined)
+  }
+  private getChunkKeyOf(key: string) {
+    const [x, y] = parseKey(key)
+    return getChunkKey(x, y)
+  }
+  private getBackendKey(chunkKey: string) {
+    return `${this.namespace}/${chunkKey}`
+  }
+  private writeChunk(chunkKey: string) {
+    const [chunkX, chunkY] = parseKey(chunkKey)
+    const codes: number[] = []
+    let edited = false
+    this.forEachTile(chunkX, chunkY, (x, y, key) => {
+      const value = this._values.get(key)
+      edited = edited || value !== undefined
+      codes.push(makeMetaChunkCode(value, this._worldGenerator.getValue(x, y)))
+    })
+    const backendKey = this.getBackendKey(chunkKey)
+    return edited
+      ? this._backend.write(backendKey, encodeMetaChunk(codes))
+      : this._backend.remove(backendKey)
+  }
+  //a failed load is forgotten so the next read tries again, callers that don't wait on it only get a warning
+  private loadChunk(chunkKey: string) {
+    if (!this._chunks.has(chunkKey)) {
+      const [chunkX, chunkY] = parseKey(chunkKey)
+      const load = this._backend
+        .read(this.getBackendKey(chunkKey))
+        .then((bytes) => {
+          const keys: string[] = []
+          if (bytes) {
+            const codes = decodeMetaChunk(bytes)
+            let i = 0
+            this.forEachTile(chunkX, chunkY, (x, y, key) => {
+              const code = codes[i++]
+              if (code !== 0 && !this._touched.has(key)) {
+                this._values.set(
+                  key,
+                  readMetaChunkCode(code, this._worldGenerator.getValue(x, y))!
+                )
+                keys.push(key)
+              }
+            })
+          }
+          for (const listener of this._chunkLoadListeners) {
+            listener(chunkX, chunkY)
+          }
+          if (keys.length > 0) {
+            for (const listener of this._loadListeners) {
+              listener(keys)
+            }
+          }
+        })
+      this._chunks.set(chunkKey, load)
+      load.catch((e) => {
+        if (this._chunks.get(chunkKey) === load) {
+          this._chunks.delete(chunkKey)
+        }
+        console.warn('Could not load meta', e)
+      })
+    }
+    return this._chunks.get(chunkKey)!
+  }
+  private unloadChunk(chunkKey: string) {
+    if (!this._chunks.has(chunkKey)) {
+      return
+    }
+    const [chunkX, chunkY] = parseKey(chunkKey)
+    this.forEachTile(chunkX, chunkY, (x, y, key) => {
+      //edited again after the flush, keep it around
+      if (!this._pending.has(key)) {
+        this._values.delete(key)
+        this._touched.delete(key)
+      }
+    })
+    this._chunks.delete(chunkKey)
+    for (const listener of this._chunkUnloadListeners) {
+      listener(chunkX, chunkY)
+    }
+  }
+  private forEachTile(
+    chunkX: number,
+    chunkY: number,
+    cb: (x: number, y: number, key: string) => void
+  ) {
+    for (let iy = 0; iy < metaChunkSize; iy++) {
+      for (let ix = 0; ix < metaChunkSize; ix++) {
+        const x = chunkX * metaChunkSize + ix
+        const y = chunkY * metaChunkSize + iy
+        cb(x, y, `${x}:${y}`)
+      }
+    }
+  }
+}
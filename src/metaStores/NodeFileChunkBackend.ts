@@ -0,0 +1,46 @@
+import { promises as fs } from 'fs'
+import { join } from 'path'
+import IMetaChunkBackend from './IMetaChunkBackend'
+
+const extension = '.chunk'
+
+//one file per chunk, meant for tools and servers running in node
+export default class NodeFileChunkBackend implements IMetaChunkBackend {
+  private _ready: Promise<void>
+  constructor(private _directory: string) {
+    this._ready = fs
+      .mkdir(_directory, { recursive: true })
+      .then(() => undefined)
+  }
+  read(key: string) {
+    return this._ready
+      .then(() => fs.readFile(this.getPath(key)))
+      .then(
+        (buffer) => new Uint8Array(buffer),
+        () => undefined
+      )
+  }
+  write(key: string, bytes: Uint8Array) {
+    return this._ready.then(() => fs.writeFile(this.getPath(key), bytes))
+  }
+  remove(key: string) {
+    return this._ready
+      .then(() => fs.unlink(this.getPath(key)))
+      .catch(() => undefined)
+  }
+  keys(prefix: string) {
+    return this._ready
+      .then(() => fs.readdir(this._directory))
+      .then((fileNames) =>
+        fileNames
+          .filter((fileName) => fileName.endsWith(extension))
+          .map((fileName) =>
+            decodeURIComponent(fileName.slice(0, -extension.length))
+          )
+          .filter((key) => key.startsWith(prefix))
+      )
+  }
+  private getPath(key: string) {
+    return join(this._directory, encodeURIComponent(key) + extension)
+  }
+}
@@ -0,0 +1,32 @@
+import { existsSync, promises as fs, readFileSync } from 'fs'
+import { dirname, join } from 'path'
+import BatchedMetaStore from './BatchedMetaStore'
+
+//one json file per namespace, meant for tools and servers running in node
+export default class NodeFileMetaStore extends BatchedMetaStore<number> {
+  readonly path: string
+  constructor(namespace: string, directory = '.', flushDelay?: number) {
+    super(namespace, flushDelay)
+    this.path = join(
+      directory,
+      `${namespace.replace(/[^\w.-]/g, '_')}.meta.json`
+    )
+    if (existsSync(this.path)) {
+      const record = JSON.parse(readFileSync(this.path, 'utf8'))
+      for (const key in record) {
+        this._values.set(key, record[key])
+      }
+    }
+  }
+  protected persist() {
+    const record: { [key: string]: number } = {}
+    this._values.forEach((value, key) => {
+      record[key] = value
+    })
+    const tempPath = this.path + '.tmp'
+    return fs
+      .mkdir(dirname(this.path), { recursive: true })
+      .then(() => fs.writeFile(tempPath, JSON.stringify(record)))
+      .then(() => fs.rename(tempPath, this.path))
+  }
+}
@@ -0,0 +1,80 @@
+import { strict as assert } from 'node:assert'
+import { describe, it } from 'node:test'
+import BatchedMetaStore from '../BatchedMetaStore'
+
+//remembers what was persisted, fails as many writes as it is told to
+class FlakyMetaStore extends BatchedMetaStore<number> {
+  persisted: Map<string, number | undefined> = new Map()
+  writes = 0
+  constructor(public failures: number, flushDelay?: number) {
+    super('test', flushDelay)
+  }
+  get pendingKeys() {
+    return Array.from(this._pending).sort()
+  }
+  protected persist(keys: string[]) {
+    this.writes++
+    if (this.failures > 0) {
+      this.failures--
+      return Promise.reject(new Error('write failed'))
+    }
+    for (const key of keys) {
+      this.persisted.set(key, this._values.get(key))
+    }
+    return Promise.resolve()
+  }
+}
+
+function wait(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+describe('BatchedMetaStore', () => {
+  it('keeps the keys of a failed write pending and persists them next time', async () => {
+    const store = new FlakyMetaStore(1, 60000)
+    store.set('0:0', 1)
+    store.set('1:0', 2)
+    store.delete('1:0')
+    await assert.rejects(store.flush())
+    assert.deepEqual(store.pendingKeys, ['0:0', '1:0'])
+    assert.equal(store.persisted.size, 0)
+
+    store.set('0:0', 3)
+    await store.flush()
+    assert.deepEqual(store.pendingKeys, [])
+    assert.deepEqual(Array.from(store.persisted), [
+      ['0:0', 3],
+      ['1:0', undefined]
+    ])
+  })
+
+  it('tries a failed write again on its own', async () => {
+    const store = new FlakyMetaStore(2, 5)
+    const warn = console.warn
+    console.warn = () => undefined
+    try {
+      store.set('2:3', 4)
+      await wait(100)
+    } finally {
+      console.warn = warn
+    }
+    assert.equal(store.writes, 3)
+    assert.deepEqual(store.pendingKeys, [])
+    assert.equal(store.persisted.get('2:3'), 4)
+  })
+
+  it('does not hold up later writes after a failure', async () => {
+    const store = new FlakyMetaStore(1, 60000)
+    store.set('0:0', 1)
+    const failed = store.flush()
+    store.set('0:1', 2)
+    const next = store.flush()
+    await assert.rejects(failed)
+    await next
+    assert.equal(store.persisted.get('0:1'), 2)
+    //the first write failed after the second one was started
+    assert.deepEqual(store.pendingKeys, ['0:0'])
+    await store.flush()
+    assert.equal(store.persisted.get('0:0'), 1)
+  })
+})
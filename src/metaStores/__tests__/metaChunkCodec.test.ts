@@ -0,0 +1,103 @@
+import { strict as assert } from 'node:assert'
+import { describe, it } from 'node:test'
+import {
+  decodeMetaChunk,
+  encodeMetaChunk,
+  makeMetaChunkCode,
+  metaChunkFormatVersion,
+  metaChunkTileCount,
+  readMetaChunkCode
+} from '../metaChunkCodec'
+
+function mulberry32(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function roundTrip(codes: number[]) {
+  const bytes = encodeMetaChunk(codes)
+  assert.deepEqual(decodeMetaChunk(bytes, codes.length), codes)
+  return bytes
+}
+
+describe('metaChunkCodec', () => {
+  it('encodes a chunk without edits as a single run', () => {
+    const codes = new Array<number>(metaChunkTileCount).fill(0)
+    const bytes = roundTrip(codes)
+    //version, then 1024 as a two byte varint and the code
+    assert.deepEqual(Array.from(bytes), [metaChunkFormatVersion, 0x80, 8, 0])
+  })
+
+  it('round trips a chunk without tiles', () => {
+    const bytes = roundTrip([])
+    assert.deepEqual(Array.from(bytes), [metaChunkFormatVersion])
+  })
+
+  it('round trips long runs next to single tiles', () => {
+    const codes: number[] = []
+    for (const [run, code] of [
+      [1, 5],
+      [300, 0],
+      [1, 0x7f],
+      [1, 0x80],
+      [500, 3],
+      [221, 0]
+    ]) {
+      for (let i = 0; i < run; i++) {
+        codes.push(code)
+      }
+    }
+    assert.equal(codes.length, metaChunkTileCount)
+    roundTrip(codes)
+  })
+
+  it('round trips codes that take multi-byte varints, up to all 32 bits', () => {
+    const random = mulberry32(6)
+    const codes: number[] = []
+    for (let i = 0; i < metaChunkTileCount; i++) {
+      codes.push(random() < 0.5 ? 0 : Math.floor(random() * 0x100000000) + 1)
+    }
+    codes[0] = 0x100000000
+    codes[1] = 0x3fff
+    codes[2] = 0x4000
+    roundTrip(codes)
+  })
+
+  it('turns values into codes against the raw value and back', () => {
+    for (const [value, raw] of [
+      [0, 0],
+      [5, 5],
+      [0xffffffff, 0],
+      [0x80000000, 0x7fffffff],
+      [12, 0xffffffff]
+    ]) {
+      const code = makeMetaChunkCode(value, raw)
+      assert.ok(code > 0)
+      assert.equal(readMetaChunkCode(code, raw), value)
+    }
+    assert.equal(makeMetaChunkCode(undefined, 7), 0)
+    assert.equal(readMetaChunkCode(0, 7), undefined)
+  })
+
+  it('rejects an unknown version', () => {
+    const bytes = encodeMetaChunk([1, 1])
+    bytes[0] = metaChunkFormatVersion + 1
+    assert.throws(
+      () => decodeMetaChunk(bytes, 2),
+      /Unsupported meta chunk format version 2/
+    )
+  })
+
+  it('rejects chunks that are cut short or hold the wrong number of tiles', () => {
+    const bytes = encodeMetaChunk([0x4000, 0x4000])
+    assert.throws(
+      () => decodeMetaChunk(bytes.slice(0, bytes.length - 1), 2),
+      /ended in the middle of a value/
+    )
+    assert.throws(() => decodeMetaChunk(bytes, 3), /holds 2 tiles, expected 3/)
+  })
+})
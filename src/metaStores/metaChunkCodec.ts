@@ -0,0 +1,81 @@
+export const metaChunkSize = 32
+export const metaChunkTileCount = metaChunkSize * metaChunkSize
+export const metaChunkFormatVersion = 1
+
+//unsigned LEB128, values may use all 32 bits so no bitwise shifts
+function writeVarint(out: number[], value: number) {
+  while (value >= 0x80) {
+    out.push((value & 0x7f) | 0x80)
+    value = Math.floor(value / 0x80)
+  }
+  out.push(value)
+}
+
+function readVarint(bytes: Uint8Array, cursor: { i: number }) {
+  let value = 0
+  let scale = 1
+  let byte: number
+  do {
+    if (cursor.i >= bytes.length) {
+      throw new Error('Meta chunk ended in the middle of a value')
+    }
+    byte = bytes[cursor.i++]
+    value += (byte & 0x7f) * scale
+    scale *= 0x80
+  } while (byte & 0x80)
+  return value
+}
+
+//0 means the tile was not edited, otherwise the edited value is raw ^ (code - 1)
+export function makeMetaChunkCode(value: number | undefined, raw: number) {
+  return value === undefined ? 0 : ((value ^ raw) >>> 0) + 1
+}
+
+export function readMetaChunkCode(code: number, raw: number) {
+  return code === 0 ? undefined : ((code - 1) ^ raw) >>> 0
+}
+
+//layout: version, then (run length, code) pairs covering every tile of the chunk
+export function encodeMetaChunk(codes: number[]) {
+  const out: number[] = []
+  writeVarint(out, metaChunkFormatVersion)
+  let i = 0
+  while (i < codes.length) {
+    const code = codes[i]
+    let run = 1
+    while (i + run < codes.length && codes[i + run] === code) {
+      run++
+    }
+    writeVarint(out, run)
+    writeVarint(out, code)
+    i += run
+  }
+  return new Uint8Array(out)
+}
+
+export function decodeMetaChunk(
+  bytes: Uint8Array,
+  tileCount = metaChunkTileCount
+) {
+  const cursor = { i: 0 }
+  const version = readVarint(bytes, cursor)
+  if (version !== metaChunkFormatVersion) {
+    throw new Error(
+      `Unsupported meta chunk format version ${version}, expected ${metaChunkFormatVersion}`
+    )
+  }
+  const codes: number[] = []
+  while (cursor.i < bytes.length) {
+    const run = readVarint(bytes, cursor)
+    const code = readVarint(bytes, cursor)
+    for (let j = 0; j < run; j++) {
+      codes.push(code)
+    }
+  }
+  if (codes.length !== tileCount) {
+    throw new Error(
+      `Meta chunk holds ${codes.length} tiles, expected ${tileCount}`
+    )
+  }
+  return codes
+}
@@ -0,0 +1,129 @@
+import { getStepCost, pathNeighbourOffsets, TileCoord } from './findPath'
+import MinHeap from './MinHeap'
+import TileCostMap from './TileCostMap'
+
+//distances to the nearest goal for every tile of a rectangle, shared by any number of agents
+export default class FlowField {
+  private _distances: Float32Array
+  private _goals: TileCoord[] = []
+  private _dirty = true
+  get dirty() {
+    return this._dirty
+  }
+  constructor(
+    private _costs: TileCostMap,
+    public readonly x: number,
+    public readonly y: number,
+    public readonly width: number,
+    public readonly height: number
+  ) {
+    this._distances = new Float32Array(width * height)
+    _costs.listenForCostChanges(this.onCostChanged)
+  }
+  contains(x: number, y: number) {
+    return (
+      x >= this.x &&
+      y >= this.y &&
+      x < this.x + this.width &&
+      y < this.y + this.height
+    )
+  }
+  setGoals(goals: TileCoord[]) {
+    this._goals = goals.map((goal) => ({ x: goal.x, y: goal.y }))
+    this._dirty = true
+  }
+  setGoal(x: number, y: number) {
+    const goals = this._goals
+    if (goals.length === 1 && goals[0].x === x && goals[0].y === y) {
+      return
+    }
+    this.setGoals([{ x, y }])
+  }
+  //Infinity outside the field or where no goal can be reached
+  getDistance(x: number, y: number) {
+    if (!this.contains(x, y)) {
+      return Infinity
+    }
+    this.update()
+    return this._distances[(y - this.y) * this.width + (x - this.x)]
+  }
+  //the neighbouring tile to step onto, undefined at a goal or when stuck
+  getNextTile(x: number, y: number, target: TileCoord = { x: 0, y: 0 }) {
+    const distance = this.getDistance(x, y)
+    if (distance === 0 || distance === Infinity) {
+      return undefined
+    }
+    let best = distance
+    let found = false
+    for (const [dx, dy] of pathNeighbourOffsets) {
+      if (getStepCost(this._costs, x, y, dx, dy) === Infinity) {
+        continue
+      }
+      const neighbourDistance = this.getDistance(x + dx, y + dy)
+      if (neighbourDistance < best) {
+        best = neighbourDistance
+        target.x = x + dx
+        target.y = y + dy
+        found = true
+      }
+    }
+    return found ? target : undefined
+  }
+  //recomputes the distances if the goals or any cost inside the field changed
+  update() {
+    if (!this._dirty) {
+      return
+    }
+    this._dirty = false
+    const { x: ox, y: oy, width, height } = this
+    const distances = this._distances
+    distances.fill(Infinity)
+    const open = new MinHeap<number>()
+    for (const goal of this._goals) {
+      if (this.contains(goal.x, goal.y)) {
+        const i = (goal.y - oy) * width + (goal.x - ox)
+        distances[i] = 0
+        open.push(i, 0)
+      }
+    }
+    const costs = this._costs
+    while (open.size > 0) {
+      const i = open.pop()!
+      const tx = (i % width) + ox
+      const ty = ~~(i / width) + oy
+      const distance = distances[i]
+      for (const [dx, dy] of pathNeighbourOffsets) {
+        const nx = tx + dx
+        const ny = ty + dy
+        if (!this.contains(nx, ny)) {
+          continue
+        }
+        //walking back along the step, so the cost is that of the tile being left
+        const stepCost = getStepCost(costs, nx, ny, -dx, -dy)
+        if (stepCost === Infinity || !costs.isWalkable(nx, ny)) {
+          continue
+        }
+        const ni = (ny - oy) * width + (nx - ox)
+        const newDistance = distance + stepCost
+        if (newDistance < distances[ni]) {
+          distances[ni] = newDistance
+          open.push(ni, newDistance)
+        }
+      }
+    }
+  }
+  dispose() {
+    this._costs.stopListeningForCostChanges(this.onCostChanged)
+  }
+  private onCostChanged = (x: number, y: number) => {
+    //neighbours matter too, as diagonals can't cut corners
+    if (
+      x >= this.x - 1 &&
+      y >= this.y - 1 &&
+      x <= this.x + this.width &&
+      y <= this.y + this.height
+    ) {
+      this._dirty = true
+    }
+  }
+}
@@ -0,0 +1,60 @@
+//binary heap of values ordered by a numeric priority, lowest first
+export default class MinHeap<T> {
+  private _values: T[] = []
+  private _priorities: number[] = []
+  get size() {
+    return this._values.length
+  }
+  push(value: T, priority: number) {
+    const values = this._values
+    const priorities = this._priorities
+    let i = values.length
+    values.push(value)
+    priorities.push(priority)
+    while (i > 0) {
+      const parent = (i - 1) >> 1
+      if (priorities[parent] <= priority) {
+        break
+      }
+      values[i] = values[parent]
+      priorities[i] = priorities[parent]
+      i = parent
+    }
+    values[i] = value
+    priorities[i] = priority
+  }
+  pop() {
+    const values = this._values
+    const priorities = this._priorities
+    if (values.length === 0) {
+      return undefined
+    }
+    const top = values[0]
+    const lastValue = values.pop()!
+    const lastPriority = priorities.pop()!
+    const length = values.length
+    if (length > 0) {
+      let i = 0
+      let child = 1
+      while (child < length) {
+        if (child + 1 < length && priorities[child + 1] < priorities[child]) {
+          child++
+        }
+        if (priorities[child] >= lastPriority) {
+          break
+        }
+        values[i] = values[child]
+        priorities[i] = priorities[child]
+        i = child
+        child = i * 2 + 1
+      }
+      values[i] = lastValue
+      priorities[i] = lastPriority
+    }
+    return top
+  }
+  clear() {
+    this._values.length = 0
+    this._priorities.length = 0
+  }
+}
@@ -0,0 +1,110 @@
+import JITTileSampler from '../rendering/tileMaker/mapTileMaker/JITTileSampler'
+import { NamedMetaBits } from '../rendering/tileMaker/mapTileMaker/metaTiles'
+
+//only what pathfinding needs, so it can run headless on a stub
+//nothing in here imports three or the DOM for the same reason
+export type TileCostSource = Pick<
+  JITTileSampler,
+  'sampleMeta' | 'onDirtyMetaProcessed'
+>
+
+export type TileCostListener = (x: number, y: number, cost: number) => void
+
+//movement cost of every tile derived from its meta, Infinity for tiles that can't be entered
+export default class TileCostMap {
+  //Infinity makes water block instead of slow
+  waterCost = 4
+  private _costs: Map<string, number> = new Map()
+  private _costListeners: TileCostListener[] = []
+  private _fastWalls = 0
+  private _fastObstacles = 0
+  private _fastHarvestable = 0
+  private _fastDoor = 0
+  private _fastHarvested = 0
+  private _fastWater = 0
+  private _masksReady = false
+  constructor(private _source: TileCostSource) {
+    _source.onDirtyMetaProcessed(this.onMetaProcessed)
+  }
+  //called when the cost of a tile that was already asked for changes
+  listenForCostChanges(listener: TileCostListener) {
+    this._costListeners.push(listener)
+  }
+  stopListeningForCostChanges(listener: TileCostListener) {
+    const index = this._costListeners.indexOf(listener)
+    if (index !== -1) {
+      this._costListeners.splice(index, 1)
+    }
+  }
+  getCost(x: number, y: number) {
+    const key = x + ':' + y
+    let cost = this._costs.get(key)
+    if (cost === undefined) {
+      cost = this.getCostOfMeta(this._source.sampleMeta(x, y))
+      this._costs.set(key, cost)
+    }
+    return cost
+  }
+  isWalkable(x: number, y: number) {
+    return this.getCost(x, y) < Infinity
+  }
+  getCostOfMeta(meta: NamedMetaBits) {
+    if (!this._masksReady) {
+      this.makeMasks(meta)
+    }
+    if (meta.hasFast(this._fastWalls) && !meta.hasFast(this._fastDoor)) {
+      return Infinity
+    }
+    if (meta.hasFast(this._fastObstacles)) {
+      return Infinity
+    }
+    if (
+      meta.hasFast(this._fastHarvestable) &&
+      !meta.hasFast(this._fastHarvested)
+    ) {
+      return Infinity
+    }
+    if (meta.hasFast(this._fastWater)) {
+      return this.waterCost
+    }
+    return 1
+  }
+  //forgets every cost, e.g. after changing waterCost
+  clear() {
+    this._costs.clear()
+  }
+  private onMetaProcessed = (x: number, y: number, meta: NamedMetaBits) => {
+    const key = x + ':' + y
+    const oldCost = this._costs.get(key)
+    if (oldCost === undefined) {
+      return
+    }
+    const cost = this.getCostOfMeta(meta)
+    if (cost === oldCost) {
+      return
+    }
+    this._costs.set(key, cost)
+    for (const listener of this._costListeners) {
+      listener(x, y, cost)
+    }
+  }
+  private makeMasks(meta: NamedMetaBits) {
+    this._fastWalls = meta.makeFastMultiMask(['logWall', 'bricks', 'drywall'])
+    this._fastObstacles = meta.makeFastMultiMask([
+      'beam',
+      'lampPost',
+      'testObject',
+      'pyramid'
+    ])
+    this._fastHarvestable = meta.makeFastMultiMask([
+      'rocks',
+      'bush',
+      'treePine',
+      'treeMaple'
+    ])
+    this._fastDoor = meta.makeFastMask('door')
+    this._fastHarvested = meta.makeFastMask('harvested')
+    this._fastWater = meta.makeFastMask('water')
+    this._masksReady = true
+  }
+}
@@ -0,0 +1,135 @@
+import { strict as assert } from 'node:assert'
+import { describe, it } from 'node:test'
+import FlowField from '../FlowField'
+import TileCostMap from '../TileCostMap'
+import StubTileCostSource from './StubTileCostSource'
+
+//the field covers the whole map unless it is given a size
+function makeField(map: string, width?: number, height?: number) {
+  const source = new StubTileCostSource(map)
+  const costs = new TileCostMap(source)
+  const field = new FlowField(
+    costs,
+    0,
+    0,
+    width || source.width,
+    height || source.height
+  )
+  return { source, costs, field }
+}
+
+//follows the field from a tile until it stops, at most limit steps
+function walk(field: FlowField, x: number, y: number, limit = 100) {
+  const tiles = [{ x, y }]
+  let next = field.getNextTile(x, y)
+  while (next && tiles.length <= limit) {
+    tiles.push({ x: next.x, y: next.y })
+    next = field.getNextTile(next.x, next.y)
+  }
+  return tiles
+}
+
+describe('FlowField', () => {
+  it('measures straight and diagonal steps from the goal', () => {
+    const { field } = makeField(`
+      ....
+      ....
+      ....
+    `)
+    field.setGoal(0, 0)
+    assert.equal(field.getDistance(0, 0), 0)
+    assert.equal(field.getDistance(3, 0), 3)
+    assert.ok(Math.abs(field.getDistance(2, 2) - 2 * Math.SQRT2) < 1e-5)
+    assert.ok(Math.abs(field.getDistance(3, 2) - (1 + 2 * Math.SQRT2)) < 1e-5)
+    assert.equal(field.getDistance(4, 0), Infinity)
+  })
+
+  it('leads around walls and through doors to the goal', () => {
+    const { field, costs } = makeField(`
+      ..#..
+      ..D..
+      ..#..
+      ..#..
+    `)
+    field.setGoal(4, 3)
+    assert.equal(field.getDistance(2, 0), Infinity)
+    const tiles = walk(field, 0, 3)
+    assert.deepEqual(tiles[tiles.length - 1], { x: 4, y: 3 })
+    assert.ok(tiles.some((tile) => tile.x === 2 && tile.y === 1))
+    for (const tile of tiles) {
+      assert.ok(costs.isWalkable(tile.x, tile.y))
+    }
+  })
+
+  it('weighs water by its cost', () => {
+    const { field } = makeField(`
+      ...
+      .~.
+      ...
+    `)
+    field.setGoal(1, 0)
+    //around the water is cheaper than the 4 of wading through it
+    assert.ok(Math.abs(field.getDistance(1, 2) - 2 * Math.SQRT2) < 1e-5)
+    //a step costs what the tile stepped onto costs, so leaving water is cheap
+    assert.equal(field.getDistance(1, 1), 1)
+  })
+
+  it('does not cut corners', () => {
+    const { field } = makeField(`
+      .#
+      #.
+    `)
+    field.setGoal(0, 0)
+    assert.equal(field.getDistance(1, 1), Infinity)
+    assert.equal(field.getNextTile(1, 1), undefined)
+  })
+
+  it('recomputes when a tile it covers changes', () => {
+    const { field, source } = makeField(`
+      .....
+      .....
+      .....
+    `)
+    field.setGoal(0, 1)
+    assert.equal(field.getDistance(4, 1), 4)
+    assert.equal(field.dirty, false)
+
+    //a wall across the middle, with a gap at the top
+    source.set(2, 1, '#')
+    source.set(2, 2, '#')
+    assert.equal(field.dirty, true)
+    assert.ok(Math.abs(field.getDistance(4, 1) - (2 + 2 * Math.SQRT2)) < 1e-5)
+    assert.equal(field.dirty, false)
+
+    source.set(2, 0, '#')
+    assert.equal(field.getDistance(4, 1), Infinity)
+
+    source.set(2, 0, 'D')
+    assert.ok(field.getDistance(4, 1) < Infinity)
+  })
+
+  it('ignores changes away from it and after it is disposed', () => {
+    const { field, source, costs } = makeField(
+      `
+      .......
+      .......
+    `,
+      3,
+      2
+    )
+    field.setGoal(0, 0)
+    field.update()
+    //costs only report changes of tiles something asked for
+    costs.getCost(3, 0)
+    costs.getCost(5, 1)
+    //right next to the field still matters, as diagonals can't cut corners
+    source.set(3, 0, '#')
+    assert.equal(field.dirty, true)
+    field.update()
+    source.set(5, 1, '#')
+    assert.equal(field.dirty, false)
+    field.dispose()
+    source.set(1, 1, '#')
+    assert.equal(field.dirty, false)
+  })
+})
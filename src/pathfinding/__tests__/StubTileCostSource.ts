@@ -0,0 +1,63 @@
+import NamedBitsInNumber from '../../helpers/utils/NamedBitsInNumber'
+import {
+  MetaTile,
+  metaTileStrings,
+  NamedMetaBits
+} from '../../rendering/tileMaker/mapTileMaker/metaTiles'
+import { TileCostSource } from '../TileCostMap'
+
+const bitsByChar: { [char: string]: MetaTile[] } = {
+  '.': ['grass'],
+  '#': ['logWall'],
+  D: ['logWall', 'door'],
+  '~': ['water'],
+  T: ['grass', 'treePine'],
+  t: ['grass', 'treePine', 'harvested']
+}
+
+//a small map drawn with characters, walled in all around so searches end
+export default class StubTileCostSource implements TileCostSource {
+  readonly width: number
+  readonly height: number
+  private _metas: Map<string, NamedMetaBits> = new Map()
+  private _listeners: ((x: number, y: number, meta: NamedMetaBits) => void)[] =
+    []
+  //one row per line, leading and trailing whitespace is ignored
+  constructor(map: string) {
+    const rows = map
+      .trim()
+      .split('\n')
+      .map((row) => row.trim())
+    this.width = rows[0].length
+    this.height = rows.length
+    rows.forEach((row, y) => {
+      for (let x = 0; x < row.length; x++) {
+        this._metas.set(x + ':' + y, makeMeta(row[x]))
+      }
+    })
+  }
+  sampleMeta(x: number, y: number) {
+    return this._metas.get(x + ':' + y) || makeMeta('#')
+  }
+  onDirtyMetaProcessed(
+    cb: (x: number, y: number, meta: NamedMetaBits) => void
+  ) {
+    this._listeners.push(cb)
+  }
+  //like an edit the sampler has processed
+  set(x: number, y: number, char: string) {
+    const meta = makeMeta(char)
+    this._metas.set(x + ':' + y, meta)
+    for (const listener of this._listeners) {
+      listener(x, y, meta)
+    }
+  }
+}
+
+function makeMeta(char: string) {
+  const meta = new NamedBitsInNumber(0, metaTileStrings)
+  for (const bit of bitsByChar[char]) {
+    meta.enableBit(bit)
+  }
+  return meta
+}
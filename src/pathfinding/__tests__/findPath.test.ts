@@ -0,0 +1,143 @@
+import { strict as assert } from 'node:assert'
+import { describe, it } from 'node:test'
+import { findPath, TileCoord } from '../findPath'
+import TileCostMap from '../TileCostMap'
+import StubTileCostSource from './StubTileCostSource'
+
+function makeCosts(map: string) {
+  return new TileCostMap(new StubTileCostSource(map))
+}
+
+function assertWalkable(costs: TileCostMap, path: TileCoord[]) {
+  for (let i = 0; i < path.length; i++) {
+    assert.ok(
+      costs.isWalkable(path[i].x, path[i].y),
+      `${path[i].x}:${path[i].y}`
+    )
+    if (i > 0) {
+      const dx = Math.abs(path[i].x - path[i - 1].x)
+      const dy = Math.abs(path[i].y - path[i - 1].y)
+      assert.ok(dx <= 1 && dy <= 1 && dx + dy > 0, 'steps to a neighbour')
+    }
+  }
+}
+
+function includes(path: TileCoord[], x: number, y: number) {
+  return path.some((tile) => tile.x === x && tile.y === y)
+}
+
+describe('findPath', () => {
+  it('walks around walls', () => {
+    const costs = makeCosts(`
+      .....
+      .###.
+      .#...
+      .#.#.
+      .....
+    `)
+    const path = findPath(costs, { x: 2, y: 2 }, { x: 0, y: 2 })!
+    assert.ok(path)
+    assert.deepEqual(path[0], { x: 2, y: 2 })
+    assert.deepEqual(path[path.length - 1], { x: 0, y: 2 })
+    assertWalkable(costs, path)
+  })
+
+  it('gives up when the goal is walled in or blocked', () => {
+    const costs = makeCosts(`
+      .....
+      .###.
+      .#.#.
+      .###.
+      ..T..
+    `)
+    assert.equal(findPath(costs, { x: 0, y: 0 }, { x: 2, y: 2 }), undefined)
+    assert.equal(findPath(costs, { x: 0, y: 0 }, { x: 2, y: 4 }), undefined)
+  })
+
+  it('passes through doors but not walls', () => {
+    const costs = makeCosts(`
+      ...#...
+      ...#...
+      ...D...
+      ...#...
+      ...#...
+    `)
+    const path = findPath(costs, { x: 0, y: 0 }, { x: 6, y: 0 })!
+    assert.ok(includes(path, 3, 2))
+    assertWalkable(costs, path)
+  })
+
+  it('walks through harvested trees but not standing ones', () => {
+    const costs = makeCosts(`
+      .T.
+      .t.
+      .T.
+    `)
+    const path = findPath(costs, { x: 0, y: 1 }, { x: 2, y: 1 })!
+    assert.deepEqual(path, [
+      { x: 0, y: 1 },
+      { x: 1, y: 1 },
+      { x: 2, y: 1 }
+    ])
+  })
+
+  it('goes around water while it is expensive', () => {
+    const costs = makeCosts(`
+      .....
+      ..~..
+      .....
+    `)
+    const start = { x: 2, y: 2 }
+    const goal = { x: 2, y: 0 }
+    const around = findPath(costs, start, goal)!
+    assert.equal(around.length, 3)
+    assert.ok(!includes(around, 2, 1))
+
+    costs.waterCost = 1
+    costs.clear()
+    assert.deepEqual(findPath(costs, start, goal), [
+      start,
+      { x: 2, y: 1 },
+      goal
+    ])
+  })
+
+  it('never enters water that blocks', () => {
+    const costs = makeCosts(`
+      .~.
+    `)
+    costs.waterCost = Infinity
+    assert.equal(findPath(costs, { x: 0, y: 0 }, { x: 2, y: 0 }), undefined)
+  })
+
+  it('does not cut corners diagonally', () => {
+    const costs = makeCosts(`
+      .#
+      #.
+    `)
+    assert.equal(findPath(costs, { x: 0, y: 0 }, { x: 1, y: 1 }), undefined)
+    const open = makeCosts(`
+      ..
+      #.
+    `)
+    const path = findPath(open, { x: 0, y: 0 }, { x: 1, y: 1 })!
+    assert.deepEqual(path, [
+      { x: 0, y: 0 },
+      { x: 1, y: 0 },
+      { x: 1, y: 1 }
+    ])
+  })
+
+  it('takes diagonals across open ground', () => {
+    const costs = makeCosts(`
+      ...
+      ...
+      ...
+    `)
+    assert.deepEqual(findPath(costs, { x: 0, y: 0 }, { x: 2, y: 2 }), [
+      { x: 0, y: 0 },
+      { x: 1, y: 1 },
+      { x: 2, y: 2 }
+    ])
+  })
+})
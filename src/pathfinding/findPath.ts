@@ -0,0 +1,108 @@
+import MinHeap from './MinHeap'
+import TileCostMap from './TileCostMap'
+
+export type TileCoord = { x: number; y: number }
+
+//8 directions, straight ones first so they win ties
+export const pathNeighbourOffsets: ReadonlyArray<readonly [number, number]> = [
+  [1, 0],
+  [-1, 0],
+  [0, 1],
+  [0, -1],
+  [1, 1],
+  [-1, 1],
+  [1, -1],
+  [-1, -1]
+]
+
+const __diagonalLength = Math.SQRT2
+
+//cost of stepping from a tile onto its neighbour, Infinity if blocked or cutting a corner
+export function getStepCost(
+  costs: TileCostMap,
+  x: number,
+  y: number,
+  dx: number,
+  dy: number
+) {
+  const cost = costs.getCost(x + dx, y + dy)
+  if (cost === Infinity) {
+    return Infinity
+  }
+  if (dx !== 0 && dy !== 0) {
+    if (!costs.isWalkable(x + dx, y) || !costs.isWalkable(x, y + dy)) {
+      return Infinity
+    }
+    return cost * __diagonalLength
+  }
+  return cost
+}
+
+function heuristic(x: number, y: number, goal: TileCoord) {
+  const dx = Math.abs(x - goal.x)
+  const dy = Math.abs(y - goal.y)
+  return Math.max(dx, dy) + (__diagonalLength - 1) * Math.min(dx, dy)
+}
+
+//A* from tile to tile, returns the tiles to walk through including both ends or undefined if there is no way
+//gives up after expanding maxExpanded tiles, as the world never ends
+export function findPath(
+  costs: TileCostMap,
+  start: TileCoord,
+  goal: TileCoord,
+  maxExpanded = 4096
+): TileCoord[] | undefined {
+  const startKey = start.x + ':' + start.y
+  const goalKey = goal.x + ':' + goal.y
+  if (!costs.isWalkable(goal.x, goal.y)) {
+    return undefined
+  }
+  const open = new MinHeap<TileCoord>()
+  const bestCosts: Map<string, number> = new Map()
+  const cameFrom: Map<string, TileCoord> = new Map()
+  const closed: Set<string> = new Set()
+  bestCosts.set(startKey, 0)
+  open.push({ x: start.x, y: start.y }, heuristic(start.x, start.y, goal))
+  let expanded = 0
+  while (open.size > 0 && expanded < maxExpanded) {
+    const current = open.pop()!
+    const currentKey = current.x + ':' + current.y
+    if (closed.has(currentKey)) {
+      continue
+    }
+    if (currentKey === goalKey) {
+      const path: TileCoord[] = [current]
+      let key = currentKey
+      while (key !== startKey) {
+        const previous = cameFrom.get(key)!
+        path.push(previous)
+        key = previous.x + ':' + previous.y
+      }
+      return path.reverse()
+    }
+    closed.add(currentKey)
+    expanded++
+    const currentCost = bestCosts.get(currentKey)!
+    for (const [dx, dy] of pathNeighbourOffsets) {
+      const nx = current.x + dx
+      const ny = current.y + dy
+      const neighbourKey = nx + ':' + ny
+      if (closed.has(neighbourKey)) {
+        continue
+      }
+      const stepCost = getStepCost(costs, current.x, current.y, dx, dy)
+      if (stepCost === Infinity) {
+        continue
+      }
+      const cost = currentCost + stepCost
+      const best = bestCosts.get(neighbourKey)
+      if (best !== undefined && best <= cost) {
+        continue
+      }
+      bestCosts.set(neighbourKey, cost)
+      cameFrom.set(neighbourKey, current)
+      open.push({ x: nx, y: ny }, cost + heuristic(nx, ny, goal))
+    }
+  }
+  return undefined
+}
@@ -0,0 +1,291 @@
+import TileCollisionMap, {
+  TileCollisionShape
+} from '../collision/TileCollisionMap'
+import { MetaTile } from '../rendering/tileMaker/mapTileMaker/metaTiles'
+import { SpriteController } from '../rendering/tileMaker/spriteMaker/JITSpriteSampler'
+import BlocksRecipes from '../utils/BlocksRecipes'
+import {
+  Body,
+  BodyType,
+  CircleShape,
+  FixtureDef,
+  PolygonShape,
+  Vec2,
+  World
+} from '../vendor/Box2D/Box2D'
+
+import { makeBitMask, PBits } from './maskBits'
+
+//an Entity works too, as its sprite follows it
+export type PhysicsSpriteTarget = Pick<SpriteController, 'x' | 'y'>
+
+type SpriteBody = {
+  body: Body
+  kinematic: boolean
+  //where the body last put the target, to notice when something else moved it
+  x: number
+  y: number
+}
+
+//anything not listed is environment
+export const tilePhysicsCategories: { [K in MetaTile]?: PBits } = {
+  treePine: 'vegetation',
+  treeMaple: 'vegetation',
+  bush: 'vegetation',
+  beam: 'prop',
+  lampPost: 'prop',
+  testObject: 'prop',
+  pyramid: 'prop'
+}
+
+export function getTileCategoryBits(tile: MetaTile) {
+  return makeBitMask([tilePhysicsCategories[tile] || 'environment'])
+}
+
+const __velocity = new Vec2()
+
+function getChunkKey(chunkX: number, chunkY: number) {
+  return chunkX + ':' + chunkY
+}
+
+//streams static bodies in and out per chunk of tile collision shapes, and moves bodies attached to sprites
+export default class TilePhysicsBridge {
+  //top down, so this stands in for friction with the ground
+  linearDamping = 5
+  //moves further than this are teleports
+  maxKinematicStep = 1
+  private _chunkBodies: Map<string, Body> = new Map()
+  private _dirtyChunks: Set<string> = new Set()
+  private _spriteBodies: Map<PhysicsSpriteTarget, SpriteBody> = new Map()
+  private _viewKey = ''
+  constructor(
+    private _collision: TileCollisionMap,
+    public readonly world = new World(new Vec2(0, 0)),
+    private _chunkSize = 16,
+    //chunks this far outside of the view keep their bodies
+    private _chunkMargin = 1
+  ) {
+    _collision.listenForShapeChanges(this.onShapeChanged)
+  }
+  get loadedChunkCount() {
+    return this._chunkBodies.size
+  }
+  setView(x: number, y: number, width: number, height: number) {
+    const size = this._chunkSize
+    const margin = this._chunkMargin
+    const minX = Math.floor(x / size) - margin
+    const minY = Math.floor(y / size) - margin
+    const maxX = Math.floor((x + width - 1) / size) + margin
+    const maxY = Math.floor((y + height - 1) / size) + margin
+    const viewKey = `${minX}:${minY}:${maxX}:${maxY}`
+    if (viewKey === this._viewKey) {
+      return
+    }
+    this._viewKey = viewKey
+    const outOfView: string[] = []
+    this._chunkBodies.forEach((body, key) => {
+      const [chunkX, chunkY] = key.split(':').map((v) => parseInt(v))
+      if (chunkX < minX || chunkX > maxX || chunkY < minY || chunkY > maxY) {
+        outOfView.push(key)
+      }
+    })
+    for (const key of outOfView) {
+      this.unloadChunk(key)
+    }
+    for (let chunkY = minY; chunkY <= maxY; chunkY++) {
+      for (let chunkX = minX; chunkX <= maxX; chunkX++) {
+        const key = getChunkKey(chunkX, chunkY)
+        if (!this._chunkBodies.has(key)) {
+          this._chunkBodies.set(key, this.buildChunk(chunkX, chunkY))
+        }
+      }
+    }
+  }
+  //kinematic bodies follow the target and push dynamic ones, dynamic bodies move the target
+  attachSprite(
+    sprite: PhysicsSpriteTarget,
+    radius = 0.25,
+    kinematic = false,
+    category: PBits = 'item'
+  ) {
+    this.detachSprite(sprite)
+    const body = this.world.CreateBody({
+      type: kinematic ? BodyType.kinematicBody : BodyType.dynamicBody,
+      position: { x: sprite.x, y: sprite.y },
+      fixedRotation: true,
+      linearDamping: this.linearDamping
+    })
+    const fixtureDef = new FixtureDef()
+    fixtureDef.shape = new CircleShape(radius)
+    fixtureDef.density = 1
+    fixtureDef.friction = 0
+    fixtureDef.filter.categoryBits = makeBitMask([category])
+    body.CreateFixture(fixtureDef)
+    this._spriteBodies.set(sprite, {
+      body,
+      kinematic,
+      x: sprite.x,
+      y: sprite.y
+    })
+    return body
+  }
+  detachSprite(sprite: PhysicsSpriteTarget) {
+    const spriteBody = this._spriteBodies.get(sprite)
+    if (!spriteBody) {
+      return false
+    }
+    this.world.DestroyBody(spriteBody.body)
+    this._spriteBodies.delete(sprite)
+    return true
+  }
+  getBody(sprite: PhysicsSpriteTarget) {
+    const spriteBody = this._spriteBodies.get(sprite)
+    return spriteBody ? spriteBody.body : undefined
+  }
+  step(dt: number) {
+    if (dt <= 0) {
+      return
+    }
+    this.rebuildDirtyChunks()
+    this._spriteBodies.forEach((spriteBody, sprite) => {
+      const body = spriteBody.body
+      if (spriteBody.kinematic) {
+        const position = body.GetPosition()
+        const dx = sprite.x - position.x
+        const dy = sprite.y - position.y
+        if (dx * dx + dy * dy > this.maxKinematicStep * this.maxKinematicStep) {
+          body.SetPositionXY(sprite.x, sprite.y)
+          body.SetLinearVelocity(__velocity.SetZero())
+        } else {
+          body.SetLinearVelocity(__velocity.Set(dx / dt, dy / dt))
+        }
+      } else if (sprite.x !== spriteBody.x || sprite.y !== spriteBody.y) {
+        //something else moved it, e.g. it is being dragged
+        body.SetPositionXY(sprite.x, sprite.y)
+        body.SetLinearVelocity(__velocity.SetZero())
+        body.SetAwake(true)
+      }
+    })
+    this.world.Step(dt, 8, 3)
+    this._spriteBodies.forEach((spriteBody, sprite) => {
+      if (spriteBody.kinematic) {
+        return
+      }
+      const position = spriteBody.body.GetPosition()
+      sprite.x = spriteBody.x = position.x
+      sprite.y = spriteBody.y = position.y
+    })
+  }
+  dispose() {
+    this._collision.stopListeningForShapeChanges(this.onShapeChanged)
+    this._chunkBodies.forEach((body) => this.world.DestroyBody(body))
+    this._chunkBodies.clear()
+    this._spriteBodies.forEach((spriteBody) =>
+      this.world.DestroyBody(spriteBody.body)
+    )
+    this._spriteBodies.clear()
+    this._viewKey = ''
+  }
+  private onShapeChanged = (x: number, y: number) => {
+    const size = this._chunkSize
+    const key = getChunkKey(Math.floor(x / size), Math.floor(y / size))
+    if (this._chunkBodies.has(key)) {
+      this._dirtyChunks.add(key)
+    }
+  }
+  private rebuildDirtyChunks() {
+    this._dirtyChunks.forEach((key) => {
+      if (!this.unloadChunk(key)) {
+        return
+      }
+      const [chunkX, chunkY] = key.split(':').map((v) => parseInt(v))
+      this._chunkBodies.set(key, this.buildChunk(chunkX, chunkY))
+    })
+    this._dirtyChunks.clear()
+  }
+  private unloadChunk(key: string) {
+    const body = this._chunkBodies.get(key)
+    if (!body) {
+      return false
+    }
+    this.world.DestroyBody(body)
+    this._chunkBodies.delete(key)
+    return true
+  }
+  //whole tile blocks are merged into rectangles, everything else gets its own fixture
+  private buildChunk(chunkX: number, chunkY: number) {
+    const size = this._chunkSize
+    const x0 = chunkX * size
+    const y0 = chunkY * size
+    const body = this.world.CreateBody({ type: BodyType.staticBody })
+    const recipes = new BlocksRecipes()
+    for (let y = y0; y < y0 + size; y++) {
+      let runX = 0
+      let runWidth = 0
+      let runCategory = 0
+      for (let x = x0; x <= x0 + size; x++) {
+        let category = 0
+        if (x < x0 + size) {
+          for (const shape of this._collision.getShapes(x, y)) {
+            if (isWholeTile(shape)) {
+              category = getTileCategoryBits(shape.source)
+            } else {
+              addShapeFixture(body, shape)
+            }
+          }
+        }
+        if (runWidth > 0 && category !== runCategory) {
+          recipes.register(runX, y, runWidth, 1, runCategory)
+          runWidth = 0
+        }
+        if (category !== 0) {
+          if (runWidth === 0) {
+            runX = x
+            runCategory = category
+          }
+          runWidth++
+        }
+      }
+    }
+    recipes.process((x, y, width, height, category) => {
+      const fixtureDef = new FixtureDef()
+      fixtureDef.shape = new PolygonShape().SetAsBox(
+        width * 0.5,
+        height * 0.5,
+        {
+          x: x - 0.5 + width * 0.5,
+          y: y - 0.5 + height * 0.5
+        }
+      )
+      fixtureDef.filter.categoryBits = category
+      body.CreateFixture(fixtureDef)
+    })
+    return body
+  }
+}
+
+function isWholeTile(shape: TileCollisionShape) {
+  return (
+    shape.type === 'box' &&
+    shape.maxX - shape.minX >= 1 &&
+    shape.maxY - shape.minY >= 1
+  )
+}
+
+function addShapeFixture(body: Body, shape: TileCollisionShape) {
+  const fixtureDef = new FixtureDef()
+  if (shape.type === 'circle') {
+    const circle = new CircleShape(shape.radius)
+    circle.m_p.Set(shape.x, shape.y)
+    fixtureDef.shape = circle
+  } else {
+    const width = shape.maxX - shape.minX
+    const height = shape.maxY - shape.minY
+    fixtureDef.shape = new PolygonShape().SetAsBox(width * 0.5, height * 0.5, {
+      x: shape.minX + width * 0.5,
+      y: shape.minY + height * 0.5
+    })
+  }
+  fixtureDef.filter.categoryBits = getTileCategoryBits(shape.source)
+  body.CreateFixture(fixtureDef)
+}
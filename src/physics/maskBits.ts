@@ -4,13 +4,20 @@ export type PBits =
   | 'heroWeapon'
   | 'enemy'
   | 'enemyWeapon'
+  | 'vegetation'
+  | 'prop'
+  | 'item'
 
+//new categories go at the end so existing masks keep their bits
 const pBitsArr: PBits[] = [
   'environment',
   'hero',
   'heroWeapon',
   'enemy',
-  'enemyWeapon'
+  'enemyWeapon',
+  'vegetation',
+  'prop',
+  'item'
 ]
 
 export function makeBitMask(pbits: PBits[]) {
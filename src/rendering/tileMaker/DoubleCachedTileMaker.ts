@@ -9,9 +9,16 @@ export default class DoubleCachedTileMaker extends TileMaker {
     pixelsPerTile = 32,
     pixelsPerCacheEdge = 2048,
     passes: MaterialPassType[] = ['beauty'],
-    indexedMeshMakers: (() => Object3D)[]
+    indexedMeshMakers: (() => Object3D)[],
+    maxPages = 1
   ) {
-    super(pixelsPerTile, pixelsPerCacheEdge, passes, indexedMeshMakers)
+    super(
+      pixelsPerTile,
+      pixelsPerCacheEdge,
+      passes,
+      indexedMeshMakers,
+      maxPages
+    )
     this._precacher = new TileMaker(
       pixelsPerTile,
       ceilPowerOfTwo(Math.sqrt(indexedMeshMakers.length)),
@@ -0,0 +1,126 @@
+export type TileBakePriority = {
+  //in tiles, from the centre of the view
+  distance: number
+  //in tiles, from the edge of the view, 0 for tiles in view
+  outside: number
+}
+
+export type TileBakeStats = {
+  queueLength: number
+  baked: number
+  cancelled: number
+  //of the last frame that baked anything
+  frameBaked: number
+  frameDuration: number
+  averageBakeTime: number
+}
+
+export type TileBakeListener = (index: number, duration: number) => void
+export type TileBakeStatsListener = (stats: TileBakeStats) => void
+
+export default class TileBakeScheduler {
+  //returns undefined for tiles nothing asks for anymore
+  priorityOf: ((index: number) => TileBakePriority | undefined) | undefined
+  readonly stats: TileBakeStats = {
+    queueLength: 0,
+    baked: 0,
+    cancelled: 0,
+    frameBaked: 0,
+    frameDuration: 0,
+    averageBakeTime: 0
+  }
+  private _frameStart = 0
+  private _bakeListeners: TileBakeListener[] = []
+  private _cancelListeners: ((index: number) => void)[] = []
+  private _statsListeners: TileBakeStatsListener[] = []
+  constructor(
+    //milliseconds per frame, at least one tile is baked every frame
+    public budget = 100,
+    //tiles further out of view than this are cancelled, in tiles
+    public prefetchDistance = 4
+  ) {
+    //
+  }
+  onBake(listener: TileBakeListener) {
+    this._bakeListeners.push(listener)
+  }
+  onCancel(listener: (index: number) => void) {
+    this._cancelListeners.push(listener)
+  }
+  onStats(listener: TileBakeStatsListener) {
+    this._statsListeners.push(listener)
+  }
+  //sorts the queue in place and returns the tiles that were taken out of it
+  //tiles cancelled earlier go back in the queue once they are in range again, and out of the set
+  prioritise(queue: number[], cancelledBefore?: Set<number>) {
+    const cancelled: number[] = []
+    const priorityOf = this.priorityOf
+    if (priorityOf) {
+      if (cancelledBefore) {
+        cancelledBefore.forEach((index) => {
+          if (this.isInRange(priorityOf(index))) {
+            cancelledBefore.delete(index)
+            queue.push(index)
+          }
+        })
+      }
+      const priorities: Map<number, TileBakePriority> = new Map()
+      for (const index of queue) {
+        const priority = priorityOf(index)
+        if (this.isInRange(priority)) {
+          priorities.set(index, priority)
+        } else {
+          cancelled.push(index)
+        }
+      }
+      if (cancelled.length > 0) {
+        const kept = queue.filter((index) => priorities.has(index))
+        queue.length = 0
+        queue.push(...kept)
+      }
+      queue.sort((a, b) => {
+        const pa = priorities.get(a)!
+        const pb = priorities.get(b)!
+        //in view before prefetch, then closest to the centre first
+        const inViewOrder = (pa.outside > 0 ? 1 : 0) - (pb.outside > 0 ? 1 : 0)
+        return inViewOrder !== 0 ? inViewOrder : pa.distance - pb.distance
+      })
+    }
+    this.stats.cancelled += cancelled.length
+    for (const index of cancelled) {
+      for (const listener of this._cancelListeners) {
+        listener(index)
+      }
+    }
+    this.stats.queueLength = queue.length
+    return cancelled
+  }
+  private isInRange(
+    priority: TileBakePriority | undefined
+  ): priority is TileBakePriority {
+    return !!priority && priority.outside <= this.prefetchDistance
+  }
+  beginFrame() {
+    this._frameStart = performance.now()
+    this.stats.frameBaked = 0
+  }
+  //returns false once the budget of this frame is used up
+  recordBake(index: number, duration: number) {
+    const stats = this.stats
+    stats.averageBakeTime =
+      (stats.averageBakeTime * stats.baked + duration) / (stats.baked + 1)
+    stats.baked++
+    stats.frameBaked++
+    for (const listener of this._bakeListeners) {
+      listener(index, duration)
+    }
+    return performance.now() - this._frameStart < this.budget
+  }
+  endFrame(queueLength: number) {
+    this.stats.frameDuration = performance.now() - this._frameStart
+    this.stats.queueLength = queueLength
+    for (const listener of this._statsListeners) {
+      listener(this.stats)
+    }
+  }
+}
@@ -0,0 +1,134 @@
+import { Object3D } from 'three'
+
+export type TileDefinitionAnimation = {
+  group: string
+  frame: number
+  frames: number
+}
+
+export type TileDefinitionOptions = {
+  animation?: TileDefinitionAnimation
+}
+
+export type TileDefinition = TileDefinitionOptions & {
+  name: string
+  index: number
+  maker: () => Object3D
+}
+
+const emptyMaker = () => new Object3D()
+
+export default class TileDefinitionRegistry {
+  private _definitions: TileDefinition[] = []
+  private _lookup: Map<string, TileDefinition> = new Map()
+  private _locked = false
+  private _names: string[] = []
+  get names(): readonly string[] {
+    return this._names
+  }
+  get makers() {
+    return this._definitions.map((d) => d.maker)
+  }
+  get definitions(): readonly TileDefinition[] {
+    return this._definitions
+  }
+  get length() {
+    return this._definitions.length
+  }
+  get locked() {
+    return this._locked
+  }
+  get bytesPerTile() {
+    return Math.ceil(this._definitions.length / 8)
+  }
+  constructor() {
+    //bit 0 of every tile description flags the upper half of a tile
+    this.register('layer2', emptyMaker)
+  }
+  register(
+    name: string,
+    maker: () => Object3D,
+    options: TileDefinitionOptions = {}
+  ) {
+    if (this._locked) {
+      throw new Error(
+        `Cannot register tile "${name}" after the registry has been handed to a TileMaker.`
+      )
+    }
+    if (this._lookup.has(name)) {
+      throw new Error(
+        `Tile "${name}" is already registered at index ${
+          this._lookup.get(name)!.index
+        }.`
+      )
+    }
+    const definition: TileDefinition = {
+      ...options,
+      name,
+      index: this._definitions.length,
+      maker
+    }
+    this._definitions.push(definition)
+    this._names.push(name)
+    this._lookup.set(name, definition)
+    return definition
+  }
+  registerAnimated(
+    group: string,
+    frames: number,
+    makeName: (frame: number) => string,
+    makeMaker: (frame: number) => () => Object3D,
+    options: Omit<TileDefinitionOptions, 'animation'> = {}
+  ) {
+    const definitions: TileDefinition[] = []
+    for (let frame = 0; frame < frames; frame++) {
+      definitions.push(
+        this.register(makeName(frame), makeMaker(frame), {
+          ...options,
+          animation: { group, frame, frames }
+        })
+      )
+    }
+    return definitions
+  }
+  has(name: string) {
+    return this._lookup.has(name)
+  }
+  get(name: string) {
+    if (!this._lookup.has(name)) {
+      throw new Error(`Tile "${name}" is not registered.`)
+    }
+    return this._lookup.get(name)!
+  }
+  indexOf(name: string) {
+    return this._lookup.has(name) ? this._lookup.get(name)!.index : -1
+  }
+  getAnimationFrames(group: string) {
+    return this._definitions.filter(
+      (d) => d.animation && d.animation.group === group
+    )
+  }
+  //throws on the first name that isn't where the caller expects it
+  assertLayout(expectedNames: readonly string[]) {
+    if (expectedNames.length !== this._names.length) {
+      throw new Error(
+        `Tile layout mismatch: expected ${expectedNames.length} tile definitions but registry has ${this._names.length}.`
+      )
+    }
+    for (let i = 0; i < expectedNames.length; i++) {
+      if (expectedNames[i] !== this._names[i]) {
+        throw new Error(
+          `Tile layout mismatch at index ${i} (byte ${~~(i / 8)}, bit ${
+            i % 8
+          }): expected "${expectedNames[i]}" but registry has "${
+            this._names[i]
+          }".`
+        )
+      }
+    }
+  }
+  lock() {
+    this._locked = true
+    return this
+  }
+}
@@ -8,13 +8,21 @@ import {
   Object3D,
   OrthographicCamera,
   Scene,
+  Vector4,
   WebGLRenderTarget
 } from 'three'
 import { MaterialPassType } from '../../helpers/materials/materialLib'
+import MaterialPaletteRegistry from '../../helpers/materials/MaterialPaletteRegistry'
 import { assertPowerOfTwo } from '../../utils/math'
 import { verticalScale } from '../../constants'
 import { memoize } from '../../utils/memoizer'
 
+export type TileMakerStats = {
+  hits: number
+  misses: number
+  evictions: number
+}
+
 export default class TileMaker {
   protected _pivot: Object3D
   public get passes(): MaterialPassType[] {
@@ -27,7 +35,17 @@ export default class TileMaker {
   protected _renderQueue: number[] = []
   protected _tileRegistry: Uint8Array[] = []
   protected _tileHashRegistry: string[] = []
-  protected _tileHashBirthday: number[] = []
+  protected _tileHashIndices: Map<string, number> = new Map()
+  //tile indices from least to most recently used
+  protected _recentlyUsedIndices: Map<number, true> = new Map()
+  //registered but taken out of the render queue, baked once asked for again
+  protected _cancelledIndices: Set<number> = new Set()
+  protected _listenersForEvictedTiles: ((index: number) => void)[] = []
+  //tiles that are still on screen are never evicted
+  public isIndexStillOnScreen: ((index: number) => boolean) | undefined
+  readonly stats: TileMakerStats = { hits: 0, misses: 0, evictions: 0 }
+  //recolours tiles are baked with, by the palette id in their descriptions
+  readonly palettes = new MaterialPaletteRegistry()
   protected _scene = new Scene()
   protected _cameraTiltedBottom = new OrthographicCamera(
     -16,
@@ -46,31 +64,49 @@ export default class TileMaker {
     64
   )
   protected _cameraTopDown = new OrthographicCamera(-16, 16, 16, -16, -64, 64)
-  protected _renderTargets: Map<MaterialPassType, WebGLRenderTarget> = new Map()
+  //one render target per page, the gpu memory of a page is only allocated once a tile is rendered to it
+  protected _renderTargets: Map<MaterialPassType, WebGLRenderTarget[]> =
+    new Map()
   protected _indexedMeshesVisibility: boolean[]
   protected _indexedMeshes: (() => Object3D)[]
   protected _tilesPerEdge: number
+  protected _tilesPerPage: number
   protected _maxTiles: number
+  get maxPages() {
+    return this._maxPages
+  }
+  get tilesPerPage() {
+    return this._tilesPerPage
+  }
+  //pages that hold at least one tile
+  get pageCount() {
+    return Math.ceil(this._tileRegistry.length / this._tilesPerPage)
+  }
   constructor(
     protected _pixelsPerTile = 32,
     pixelsPerCacheEdge = 2048,
     protected _passes: MaterialPassType[] = ['beauty'],
-    indexedMeshMakers: (() => Object3D)[]
+    indexedMeshMakers: (() => Object3D)[],
+    protected _maxPages = 1
   ) {
     assertPowerOfTwo(_pixelsPerTile)
     assertPowerOfTwo(pixelsPerCacheEdge)
     this._tilesPerEdge = pixelsPerCacheEdge / _pixelsPerTile
-    this._maxTiles = Math.pow(this._tilesPerEdge, 2)
+    this._tilesPerPage = Math.pow(this._tilesPerEdge, 2)
+    this._maxTiles = this._tilesPerPage * _maxPages
     for (const pass of _passes) {
-      this._renderTargets.set(
-        pass,
-        new WebGLRenderTarget(pixelsPerCacheEdge, pixelsPerCacheEdge, {
-          minFilter: NearestFilter,
-          magFilter: NearestFilter,
-          encoding: LinearEncoding,
-          generateMipmaps: false
-        })
-      )
+      const pages: WebGLRenderTarget[] = []
+      for (let i = 0; i < _maxPages; i++) {
+        pages.push(
+          new WebGLRenderTarget(pixelsPerCacheEdge, pixelsPerCacheEdge, {
+            minFilter: NearestFilter,
+            magFilter: NearestFilter,
+            encoding: LinearEncoding,
+            generateMipmaps: false
+          })
+        )
+      }
+      this._renderTargets.set(pass, pages)
     }
     console.log('performance.now', performance.now())
 
@@ -117,37 +153,119 @@ export default class TileMaker {
     this._indexedMeshesVisibility = new Array(indexedMeshMakers.length)
   }
 
-  getTexture(pass: MaterialPassType = 'beauty') {
+  getTexture(pass: MaterialPassType = 'beauty', page = 0) {
+    return this.getTextures(pass)[page]
+  }
+  //all pages of a pass, tile ids are page * tilesPerPage + slot
+  getTextures(pass: MaterialPassType = 'beauty') {
     if (this._renderTargets.has(pass)) {
-      return this._renderTargets.get(pass)!.texture
+      return this._renderTargets.get(pass)!.map((target) => target.texture)
     } else {
       debugger
       throw new Error(`pass "${pass}" not supported`)
     }
   }
+  getTilePage(index: number) {
+    return ~~(index / this._tilesPerPage)
+  }
+  //uv scale and offset of the tile within its page, e.g. for thumbnails
+  getTileUvST(index: number, target = new Vector4()) {
+    const size = 1 / this._tilesPerEdge
+    return target.set(
+      size,
+      size,
+      this.getSlotColumn(index) * size,
+      this.getSlotRow(index) * size
+    )
+  }
   getTileId(tileDescription: Uint8Array) {
     // const hash = Buffer.from(tileDescription).toString('utf-8')
     const hash = String.fromCharCode.apply(null, tileDescription)
-    let index = this._tileHashRegistry.indexOf(hash)
-    if (index === -1) {
-      index = this._tileRegistry.length
-      if (index >= this._maxTiles) {
-        // console.error(`no more room for tiles! (${index})`)
-        let oldestIndex = index - 1
-        let oldestTime = this._tileHashBirthday[index - 1]
-        for (let i = 1; i < index; i++) {
-          if (this._tileHashBirthday[i] < oldestTime) {
-            oldestIndex = i
-            oldestTime = this._tileHashBirthday[i]
-          }
-        }
-        index = oldestIndex
-      }
+    let index = this._tileHashIndices.get(hash)
+    if (index === undefined) {
+      this.stats.misses++
+      index = this.allocateIndex()
       this._tileRegistry[index] = tileDescription
       this._tileHashRegistry[index] = hash
-      this._renderQueue.push(index)
+      this._tileHashIndices.set(hash, index)
+      if (!this._renderQueue.includes(index)) {
+        this._renderQueue.push(index)
+      }
+    } else {
+      this.stats.hits++
+      if (this._cancelledIndices.delete(index)) {
+        this._renderQueue.push(index)
+      }
     }
-    this._tileHashBirthday[index] = performance.now()
+    this.touchIndex(index)
     return index
   }
+  listenForEvictedTiles(listener: (index: number) => void) {
+    this._listenersForEvictedTiles.push(listener)
+  }
+  resetStats() {
+    this.stats.hits = 0
+    this.stats.misses = 0
+    this.stats.evictions = 0
+  }
+  protected cancelIndex(index: number) {
+    const i = this._renderQueue.indexOf(index)
+    if (i !== -1) {
+      this._renderQueue.splice(i, 1)
+    }
+    this._cancelledIndices.add(index)
+  }
+  protected getRenderTarget(pass: MaterialPassType, index: number) {
+    return this._renderTargets.get(pass)![~~(index / this._tilesPerPage)]
+  }
+  protected getSlotColumn(index: number) {
+    return (index % this._tilesPerPage) % this._tilesPerEdge
+  }
+  protected getSlotRow(index: number) {
+    return ~~((index % this._tilesPerPage) / this._tilesPerEdge)
+  }
+  protected touchIndex(index: number) {
+    this._recentlyUsedIndices.delete(index)
+    this._recentlyUsedIndices.set(index, true)
+  }
+  protected isIndexPinned(index: number) {
+    //the first tile is the empty tile, everything falls back to it
+    return (
+      index === 0 ||
+      (this.isIndexStillOnScreen !== undefined &&
+        this.isIndexStillOnScreen(index))
+    )
+  }
+  protected allocateIndex() {
+    if (this._tileRegistry.length < this._maxTiles) {
+      return this._tileRegistry.length
+    }
+    const candidates = this._recentlyUsedIndices.keys()
+    let fallback: number | undefined
+    for (let i = 0; i < this._recentlyUsedIndices.size; i++) {
+      const index: number = candidates.next().value
+      if (fallback === undefined && index !== 0) {
+        fallback = index
+      }
+      if (!this.isIndexPinned(index)) {
+        this.evictIndex(index)
+        return index
+      }
+      //so the next eviction does not check it again
+      this.touchIndex(index)
+    }
+    //everything is pinned, the cache is too small for the view
+    console.error(`no more room for tiles! (${this._maxTiles})`)
+    this.evictIndex(fallback!)
+    return fallback!
+  }
+  protected evictIndex(index: number) {
+    this._tileHashIndices.delete(this._tileHashRegistry[index])
+    this._recentlyUsedIndices.delete(index)
+    this._cancelledIndices.delete(index)
+    this.stats.evictions++
+    for (const l of this._listenersForEvictedTiles) {
+      l(index)
+    }
+  }
 }
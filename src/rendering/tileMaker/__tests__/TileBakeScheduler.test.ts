@@ -0,0 +1,82 @@
+import { strict as assert } from 'node:assert'
+import { describe, it } from 'node:test'
+import TileBakeScheduler, { TileBakePriority } from '../TileBakeScheduler'
+
+//tiles in a row along x, a view of 4 tiles scrolled by viewX, like JITTileSampler.getTileIdBakePriority
+function makeScheduler(tileXs: Map<number, number>) {
+  const scheduler = new TileBakeScheduler(100, 2)
+  const view = { x: 0 }
+  scheduler.priorityOf = (index): TileBakePriority | undefined => {
+    const x = tileXs.get(index)
+    if (x === undefined) {
+      return undefined
+    }
+    const distance = Math.abs(x + 0.5 - (view.x + 2))
+    return { distance, outside: Math.max(0, Math.ceil(distance - 2)) }
+  }
+  return { scheduler, view }
+}
+
+describe('TileBakeScheduler', () => {
+  it('bakes tiles in view first, closest to the centre first', () => {
+    const { scheduler } = makeScheduler(
+      new Map([
+        [1, 5],
+        [2, 2],
+        [3, 0],
+        [4, 1]
+      ])
+    )
+    const queue = [1, 2, 3, 4]
+    assert.deepEqual(scheduler.prioritise(queue), [])
+    assert.deepEqual(queue, [2, 4, 3, 1])
+  })
+
+  it('cancels tiles past the prefetch distance or that nothing asks for', () => {
+    const { scheduler } = makeScheduler(new Map([[1, 20]]))
+    const heard: number[] = []
+    scheduler.onCancel((index) => heard.push(index))
+    const queue = [1, 2]
+    assert.deepEqual(scheduler.prioritise(queue), [1, 2])
+    assert.deepEqual(queue, [])
+    assert.deepEqual(heard, [1, 2])
+    assert.equal(scheduler.stats.cancelled, 2)
+  })
+
+  it('bakes a cancelled tile once the view scrolls back to it', () => {
+    const tileXs = new Map([
+      [1, 1],
+      [2, 2]
+    ])
+    const { scheduler, view } = makeScheduler(tileXs)
+    const queue = [1, 2]
+    //the tile maker keeps what was cancelled, see TileMaker.cancelIndex
+    const cancelled = new Set<number>()
+
+    view.x = 20
+    for (const index of scheduler.prioritise(queue, cancelled)) {
+      cancelled.add(index)
+    }
+    assert.deepEqual(queue, [])
+    assert.deepEqual(Array.from(cancelled), [1, 2])
+
+    //still too far away
+    view.x = 8
+    assert.deepEqual(scheduler.prioritise(queue, cancelled), [])
+    assert.deepEqual(queue, [])
+
+    view.x = 3
+    assert.deepEqual(scheduler.prioritise(queue, cancelled), [])
+    assert.deepEqual(queue, [2, 1])
+    assert.equal(cancelled.size, 0)
+  })
+
+  it('keeps cancelled tiles that nothing asks for anymore cancelled', () => {
+    const { scheduler } = makeScheduler(new Map())
+    const queue: number[] = []
+    const cancelled = new Set([7])
+    scheduler.prioritise(queue, cancelled)
+    assert.deepEqual(queue, [])
+    assert.deepEqual(Array.from(cancelled), [7])
+  })
+})
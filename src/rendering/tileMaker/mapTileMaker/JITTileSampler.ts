@@ -1,24 +1,42 @@
 import { BufferGeometry } from 'three'
-import AdditiveGroupHelper3D from '../../../helpers/utils/AdditiveGroupHelper3D'
-import ClampHelper3D from '../../../helpers/utils/ClampHelper3D'
-import { simpleThreshNoise } from '../../../helpers/utils/helper3DFactory'
 import NamedBitsInBytes from '../../../helpers/utils/NamedBitsInBytes'
 import NamedBitsInNumber from '../../../helpers/utils/NamedBitsInNumber'
-import NoiseHelper3D from '../../../helpers/utils/NoiseHelper3D'
-import StepHelper3D from '../../../helpers/utils/StepHelper3D'
-import InvertHelper3D from '../../../helpers/utils/InvertHelper3D'
-import { CardinalStrings } from '../../../meshes/factorySand'
 import { wrap } from '../../../utils/math'
 
 import MapTileMaker from './MapTileMaker'
+import { TileBakePriority } from '../TileBakeScheduler'
+import MetaConstraintSolver from './MetaConstraintSolver'
+import WorldGenerator from './WorldGenerator'
+import { worldGeneratorPresets } from './worldGeneratorPresets'
 import LocalStorageMap from '../../../utils/LocalStorageMap'
-import BoxFilterHelper3D from '../../../helpers/utils/BoxFilterHelper3D'
-
-const metaTileStrings = ['dirt', 'sand', 'rocks'] as const
-
-type MetaTile = typeof metaTileStrings[number]
-
-type NamedMetaBits = NamedBitsInNumber<typeof metaTileStrings>
+import IMetaStore from '../../../metaStores/IMetaStore'
+import InMemoryMetaStore from '../../../metaStores/InMemoryMetaStore'
+import { metaTileStrings, NamedMetaBits } from './metaTiles'
+import {
+  applyAutoTileRule,
+  AutoTileRule,
+  defaultAutoTileRules,
+  Neighbourhood,
+  neighbourOffsets,
+  neighbourStrings
+} from './autoTileRules'
+
+//names a palette of the MapTileMaker to bake the tile with, undefined for none
+export type TilePalettePicker = (
+  x: number,
+  y: number,
+  meta: NamedMetaBits
+) => string | undefined
+
+function makeDefaultMetaStore(namespace: string): IMetaStore {
+  return typeof localStorage !== 'undefined'
+    ? new LocalStorageMap<string, number>(
+        (v) => parseInt(v),
+        (v) => v.toString(),
+        namespace
+      )
+    : new InMemoryMetaStore(namespace)
+}
 
 export default class JITTileSampler {
   indicesOfMadeTiles: Set<number> = new Set()
@@ -36,159 +54,73 @@ export default class JITTileSampler {
     this._offsetsDirty = true
     this._offsetY = value
   }
+  get viewWidthInTiles(): number {
+    return this._viewWidthInTiles
+  }
+  get viewHeightInTiles(): number {
+    return this._viewHeightInTiles
+  }
   get tileMaker(): MapTileMaker {
     return this._tileMaker
   }
   set tileMaker(value: MapTileMaker) {
     throw new Error('Cannot change tileMaker during runtime')
   }
-  metaNoiseGenerators: StepHelper3D[]
   bytesPerTile: number
   metaRawCache: Map<string, NamedMetaBits> = new Map() //maybe change this caching mechanism for something more memory friendly. e.i. Map<number, <Map<number, number>> ?
-  metaCache: LocalStorageMap<string, NamedMetaBits> = new LocalStorageMap(
-    (v) => new NamedBitsInNumber(parseInt(v), metaTileStrings),
-    (v) => v.value.toString()
-  ) //maybe change this caching mechanism for something more memory friendly. e.i. Map<number, <Map<number, number>> ?
+  metaCache: Map<string, NamedMetaBits> = new Map()
   dirtyMeta: Set<string> = new Set()
   dirtyVis: Set<string> = new Set()
+  //evaluated in order by sampleVisProps, push to this to add a terrain family
+  autoTileRules: AutoTileRule[] = defaultAutoTileRules.slice()
+  metaConstraints = new MetaConstraintSolver()
   private _offsetX = 0
   private _offsetY = 0
+  private _previewing = false
+  //ids shown by previews, baked and kept like tiles in view until cleared
+  private _previewIds: Set<number> = new Set()
+  private _tilePalette: TilePalettePicker | undefined
   constructor(
     private _tileMaker: MapTileMaker,
     private _viewWidthInTiles: number,
-    private _viewHeightInTiles: number
-  ) {
-    this.bytesPerTile = Math.ceil(
-      _tileMaker.visualPropertyLookupStrings.length / 8
-    )
-
-    const seed = 1
-    const floorNoise = new StepHelper2D(
-      new BoxFilterHelper2D(new NoiseHelper2D(0.1, 0, 0, seed)),
-      0.5
-    )
-    const sandNoise = simpleThreshNoise(0.1, -182, 237, 0.5, seed)
-    const beachNoise = simpleThreshNoise(0.1, -182, 237, -0.2, seed)
-    const waterBase = new AdditiveGroupHelper2D([
-      new NoiseHelper2D(0.02, 0, 0, seed),
-      new NoiseHelper2D(0.08, 0, 0, seed, 0.5)
-    ])
-    const waterNoise = new StepHelper2D(waterBase)
-    const dirtNoise = new StepHelper2D(new InvertHelper2D(sandNoise))
-    const logWallNoise = new StepHelper2D(
-      new BoxFilterHelper2D(new NoiseHelper2D(0.08, -100, -100, seed)),
-      0.4
-    )
-    const beamNoise = new StepHelper2D(
-      new BoxFilterHelper2D(new NoiseHelper2D(0.08, -100, -100, seed)),
-      0.4
-    )
-    const bricksNoise = new StepHelper2D(
-      new BoxFilterHelper2D(new NoiseHelper2D(0.06, -50, -50, seed)),
-      0.5
-    )
-    const drywallNoise = new StepHelper2D(
-      new BoxFilterHelper2D(new NoiseHelper2D(0.05, 20, 20, seed)),
-      0.5
-    )
-    const grassNoise = new StepHelper2D(
-      new AdditiveGroupHelper2D([
-        new NoiseHelper2D(0.15, 100, 200, seed),
-        new NoiseHelper2D(0.01, 100, 200, seed)
-      ]),
-      -0.5
-    )
-    const bushNoise = simpleThreshNoise(0.3, 300, 200, 0.25, seed)
-    const goldNoise = new StepHelper2D(
-      new BoxFilterHelper2D(new NoiseHelper2D(3, -300, 200, seed), -32, 32),
-      0.75
+    private _viewHeightInTiles: number,
+    public readonly worldGenerator = new WorldGenerator(
+      worldGeneratorPresets.default
+    ),
+    //only edited tiles are persisted, everything else is regenerated from the seed
+    public readonly metaStore: IMetaStore = makeDefaultMetaStore(
+      worldGenerator.namespace
     )
-    const lampPostNoise = new StepHelper2D(
-      new BoxFilterHelper2D(simpleThreshNoise(3, -1300, 200, seed)),
-      0.75
-    )
-    const testObjectNoise = new StepHelper2D(
-      new BoxFilterHelper2D(new NoiseHelper2D(3, -100, -300, seed)),
-      0.75
-    )
-    const pyramidNoise = new StepHelper2D(
-      new BoxFilterHelper2D(new NoiseHelper2D(3, -204, -121, seed)),
-      0.85
-    )
-    const rockyGroundNoise = simpleThreshNoise(3, 204, -121, 0.25, seed)
-    const rocksNoiseBase = new AdditiveGroupHelper2D([
-      new NoiseHelper2D(0.01, 604, -121, seed),
-      new NoiseHelper2D(0.05, 604, -121, seed, 0.5)
-    ])
-    const rocksNoise = new StepHelper2D(rocksNoiseBase, 0.7)
-    const goldOreForRocksNoise = new StepHelper2D(
-      new AdditiveGroupHelper2D([
-        new ClampHelper2D(rocksNoiseBase),
-        new NoiseHelper2D(0.8, 604, -121, seed, 0.2, -0.1)
-      ]),
-      1.07
-    )
-    const silverOreForRocksNoise = new StepHelper2D(
-      new AdditiveGroupHelper2D([
-        new ClampHelper2D(rocksNoiseBase),
-        new NoiseHelper2D(0.8, -604, -121, seed, 0.2, -0.1)
-      ]),
-      1.05
-    )
-    const ironOreForRocksNoise = new StepHelper2D(
-      new AdditiveGroupHelper2D([
-        new ClampHelper2D(rocksNoiseBase),
-        new NoiseHelper2D(0.8, 404, 121, seed, 0.2, -0.15)
-      ]),
-      0.95
-    )
-    const copperOreForRocksNoise = new StepHelper2D(
-      new AdditiveGroupHelper2D([
-        new ClampHelper2D(rocksNoiseBase),
-        new NoiseHelper2D(0.8, 504, 121, seed, 0.2, -0.15)
-      ]),
-      0.97
-    )
-    const harvestedNoise = new StepHelper2D(
-      new BoxFilterHelper2D(new NoiseHelper2D(0.08, -500, -100, seed)),
-      0.35
-    )
-    const treePineNoise = simpleThreshNoise(0.3, -200, -400, 0.5, seed)
-    const plantMatureNoise = simpleThreshNoise(3, -340, -460, 0.25, seed)
-    const treeMapleNoise = simpleThreshNoise(0.3, 200, 400, 0.6, seed)
-    this.metaNoiseGenerators = [
-      waterNoise,
-      dirtNoise,
-      sandNoise,
-      beachNoise,
-      floorNoise,
-      logWallNoise,
-      beamNoise,
-      bricksNoise,
-      drywallNoise,
-      grassNoise,
-      bushNoise,
-      goldNoise,
-      lampPostNoise,
-      testObjectNoise,
-      pyramidNoise,
-      rockyGroundNoise,
-      rocksNoise,
-      goldOreForRocksNoise,
-      silverOreForRocksNoise,
-      ironOreForRocksNoise,
-      copperOreForRocksNoise,
-      harvestedNoise,
-      treePineNoise,
-      plantMatureNoise,
-      treeMapleNoise
-    ]
+  ) {
+    this.bytesPerTile = _tileMaker.bytesPerTile
+    if (metaStore.onLoad) {
+      metaStore.onLoad((keys) => {
+        for (const key of keys) {
+          this.metaCache.delete(key)
+          this.dirtyMeta.add(key)
+        }
+      })
+    }
   }
   writeMeta(x: number, y: number, meta: NamedMetaBits) {
     const key = x + ':' + y
+    //not from metaCache, the cached meta may be the very one edited in place
+    const before = this.readMeta(x, y).value
     this.validateMeta(meta, x, y)
     this.metaCache.set(key, meta)
+    this.metaStore.set(key, meta.value)
     this.dirtyMeta.add(key)
+    for (const cb of this._metaWrittenListeners) {
+      cb(x, y, before, meta.value)
+    }
+  }
+  private _metaWrittenListeners: Array<
+    (x: number, y: number, before: number, after: number) => void
+  > = []
+  onMetaWritten(
+    cb: (x: number, y: number, before: number, after: number) => void
+  ) {
+    this._metaWrittenListeners.push(cb)
   }
   sampleMetaRaw(x: number, y: number) {
     const key = x + ':' + y
@@ -196,9 +128,7 @@ export default class JITTileSampler {
       return this.metaRawCache.get(key)!
     }
     const metaRaw = new NamedBitsInNumber(
-      this.metaNoiseGenerators.reduce((accum, noise, j) => {
-        return accum + (noise.getValue(x, y) << j)
-      }, 0),
+      this.worldGenerator.getValue(x, y),
       metaTileStrings
     )
     this.metaRawCache.set(key, metaRaw)
@@ -211,221 +141,40 @@ export default class JITTileSampler {
       this.emitDirtyMetaProcessed(x, y, metaProps)
       return metaProps
     } else {
-      const metaProps = new NamedBitsInNumber(
-        this.sampleMetaRaw(x, y).value,
-        metaTileStrings
-      )
-      this.validateMeta(metaProps, x, y)
+      const metaProps = this.readMeta(x, y)
       this.metaCache.set(key, metaProps)
       this.emitDirtyMetaProcessed(x, y, metaProps)
       return metaProps
     }
   }
-  validateMeta(val: NamedMetaBits, x: number, y: number) {
-    const hasRocks = val.has('rocks')
-    const hasSand = val.has('sand')
-    const hasBeach = val.has('beach')
-    const hasDirt = val.has('dirt')
-    const hasGold = val.has('goldOreForRocks')
-    const hasSilver = val.has('silverOreForRocks')
-    const hasIron = val.has('ironOreForRocks')
-    const hasCopper = val.has('copperOreForRocks')
-
-    if (val.has('water')) {
-      val.value = 0
-      if (hasRocks) {
-        val.enableBit('rocks')
-      }
-      if (
-        this.sampleMetaRaw(x + 1, y).has('water') &&
-        this.sampleMetaRaw(x - 1, y).has('water') &&
-        this.sampleMetaRaw(x, y + 1).has('water') &&
-        this.sampleMetaRaw(x, y - 1).has('water') &&
-        this.sampleMetaRaw(x + 1, y + 1).has('water') &&
-        this.sampleMetaRaw(x + 1, y - 1).has('water') &&
-        this.sampleMetaRaw(x - 1, y + 1).has('water') &&
-        this.sampleMetaRaw(x - 1, y - 1).has('water')
-      ) {
-        val.enableBit('water')
-      } else {
-        // if (!hasSand && !hasDirt) {
-        //   val.enableBit('beach')
-        // }
-        if (hasSand) {
-          val.enableBit('sand')
-        }
-        if (hasDirt) {
-          if (hasBeach) {
-            val.enableBit('sand')
-          } else {
-            val.enableBit('dirt')
-          }
-        }
-      }
-    }
-
-    if (val.has('sand')) {
-      val.disableBit('dirt')
-      val.disableBit('grass')
-    }
-
-    if (val.has('water')) {
-      val.disableBit('floor')
-      val.disableBit('logWall')
-      val.disableBit('beam')
-      val.disableBit('bricks')
-    }
-
-    if (val.has('floor')) {
-      val.disableBit('grass')
-      val.disableBit('sand')
-      val.enableBit('dirt')
-    }
-
-    // if (Math.abs(x) > 10 || Math.abs(y) > 10) {
-    //   // val.disableBit('floor')
-    //   // val.disableBit('bricks')
-    //   // val.disableBit('beam')
-    //   // val.disableBit('drywall')
-    //   val.disableBit('lampPost')
-    //   val.disableBit('pyramid')
-    //   val.disableBit('testObject')
-    //   val.disableBit('goldPile')
-    // }
-
-    // if (Math.abs(x) > 16 || Math.abs(y) > 16) {
-    //   val.disableBit('harvested')
-    // }
-
-    if (!val.has('floor') && val.has('beam')) {
-      val.flipBit('beam')
-    }
-    if (!val.has('floor') && val.has('logWall')) {
-      val.flipBit('logWall')
-    }
-    if (val.has('beam') && val.has('logWall')) {
-      val.flipBit('logWall')
-    }
-    if (val.has('beam') && val.has('grass')) {
-      val.flipBit('grass')
-    }
-    if (!val.has('beam') && val.has('bricks')) {
-      val.flipBit('bricks')
-    }
-    if (val.has('floor') && val.has('grass')) {
-      val.flipBit('grass')
-    }
-    if (val.has('floor') && val.has('bush')) {
-      val.flipBit('bush')
-    }
-    if (!val.has('grass') && val.has('bush')) {
-      val.flipBit('bush')
-    }
-    if (val.has('testObject') && (val.has('bush') || val.has('pyramid'))) {
-      val.flipBit('testObject')
-    }
-    if (
-      val.has('lampPost') &&
-      (val.has('beam') ||
-        val.has('logWall') ||
-        val.has('bush') ||
-        val.has('bricks') ||
-        val.has('goldPile') ||
-        val.has('testObject'))
-    ) {
-      val.flipBit('lampPost')
-    }
-
-    if (
-      val.has('pyramid') &&
-      (val.has('bush') ||
-        val.has('beam') ||
-        val.has('logWall') ||
-        val.has('lampPost') ||
-        val.has('grass') ||
-        !val.has('floor') ||
-        val.has('goldPile'))
-    ) {
-      val.flipBit('pyramid')
-    }
-
-    if (
-      val.has('rockyGround') &&
-      (val.has('beam') ||
-        val.has('logWall') ||
-        val.has('bush') ||
-        val.has('floor') ||
-        val.has('grass') ||
-        val.has('bricks') ||
-        val.has('goldPile') ||
-        val.has('testObject'))
-    ) {
-      val.flipBit('rockyGround')
-    }
-
-    if (
-      val.has('goldPile') &&
-      (val.has('bush') ||
-        val.has('beam') ||
-        val.has('logWall') ||
-        val.has('treePine') ||
-        val.has('treeMaple') ||
-        val.has('lampPost'))
-    ) {
-      val.flipBit('goldPile')
-    }
-
-    if (hasRocks) {
-      const wasHarvested = val.has('harvested')
-      val.value = 0
-      if (val.has('sand')) {
-        val.enableBit('sand')
-      } else {
-        val.enableBit('dirt')
-      }
-      val.flipBit('rocks')
-      if (hasGold && !hasCopper && !hasIron) {
-        val.flipBit('goldOreForRocks')
-      }
-      if (hasSilver && !hasCopper && !hasIron) {
-        val.flipBit('silverOreForRocks')
-      }
-      if (hasIron) {
-        val.flipBit('ironOreForRocks')
-      }
-      if (hasCopper) {
-        val.flipBit('copperOreForRocks')
-      }
-      if (wasHarvested) {
-        val.flipBit('harvested')
-      }
-    }
-
-    const hasAnyTree = val.has('treePine') || val.has('treeMaple')
-
-    if (hasAnyTree && val.has('bush')) {
-      val.flipBit('bush')
-    }
-    if (hasAnyTree && val.has('goldPile')) {
-      val.flipBit('goldPile')
-    }
-    if (hasAnyTree && val.has('testObject')) {
-      val.flipBit('testObject')
+  //fresh from the store, or generated and validated if it was never edited
+  private readMeta(x: number, y: number): NamedMetaBits {
+    const storedValue = this.metaStore.get(x + ':' + y)
+    const metaProps = new NamedBitsInNumber(
+      storedValue !== undefined ? storedValue : this.sampleMetaRaw(x, y).value,
+      metaTileStrings
+    )
+    if (storedValue === undefined) {
+      this.validateMeta(metaProps, x, y)
     }
-    if (val.has('lampPost') || !val.has('grass')) {
-      if (val.has('treePine')) {
-        val.flipBit('treePine')
-      }
-      if (val.has('treeMaple')) {
-        val.flipBit('treeMaple')
+    return metaProps
+  }
+  //recolours tiles by season or biome without new tile definitions, undefined goes back to no palette
+  setTilePalette(picker: TilePalettePicker | undefined) {
+    this._tilePalette = picker
+    this._visPropsCache.clear()
+    this._bottomAndTopIdsCache.clear()
+    this._bottomAndTopIdsCacheKeys.clear()
+    for (let iCol = 0; iCol < this._viewWidthInTiles; iCol++) {
+      for (let iRow = 0; iRow < this._viewHeightInTiles; iRow++) {
+        this.dirtyVis.add(`${this._offsetX + iCol}:${this._offsetY + iRow}`)
       }
     }
-
-    if (val.has('treePine') && val.has('treeMaple')) {
-      val.flipBit('treeMaple')
-    }
-
-    return val
+  }
+  validateMeta(val: NamedMetaBits, x: number, y: number) {
+    return this.metaConstraints.solve(val, x, y, (x, y) =>
+      this.sampleMetaRaw(x, y)
+    )
   }
 
   private _visPropsCache: Map<
@@ -434,22 +183,24 @@ export default class JITTileSampler {
   > = new Map()
 
   private _bottomAndTopIdsCache: Map<string, BottomAndTopIds> = new Map()
+  //cache keys by tile id, may contain keys that have since been invalidated
+  private _bottomAndTopIdsCacheKeys: Map<number, Set<string>> = new Map()
 
   sampleVisProps(x: number, y: number, time: '0' | '1' | '2' | '3' = '0') {
     const key = `${x}:${y}:${time}`
     if (this._visPropsCache.has(key)) {
       return this._visPropsCache.get(key)!
     } else {
-      const metaPropsN = this.sampleMeta(x, y - 1)
-      const metaPropsNE = this.sampleMeta(x + 1, y - 1)
-      const metaPropsE = this.sampleMeta(x + 1, y)
-      const metaPropsSE = this.sampleMeta(x + 1, y + 1)
-      const metaPropsS = this.sampleMeta(x, y + 1)
-      const metaPropsSW = this.sampleMeta(x - 1, y + 1)
-      const metaPropsW = this.sampleMeta(x - 1, y)
-      const metaPropsNW = this.sampleMeta(x - 1, y - 1)
-
-      const metaProps = this.sampleMeta(x, y)
+      const neighbourhood = {} as Neighbourhood
+      for (const dir of neighbourStrings) {
+        const offset = neighbourOffsets[dir]
+        neighbourhood[dir] = this.sampleMeta(x + offset[0], y + offset[1])
+      }
+      const metaProps = neighbourhood.C
+      const metaPropsN = neighbourhood.N
+      const metaPropsE = neighbourhood.E
+      const metaPropsS = neighbourhood.S
+      const metaPropsW = neighbourhood.W
 
       const visProps = new NamedBitsInBytes(
         new Uint8Array(this.bytesPerTile),
@@ -462,121 +213,12 @@ export default class JITTileSampler {
       }
 
       let needsWater = false
-      const waterMask = metaProps.makeFastMask('water')
-      const sandMask = metaProps.makeFastMask('sand')
-      const dirtMask = metaProps.makeFastMask('dirt')
-      const makeCardinalBits = (mask: number) => {
-        const cardinalBits = new NamedBitsInNumber(0, CardinalStrings)
-        if (metaProps.hasFast(mask)) {
-          cardinalBits.enableBit('c')
-          cardinalBits.enableBit('ne')
-          cardinalBits.enableBit('se')
-          cardinalBits.enableBit('nw')
-          cardinalBits.enableBit('sw')
-          cardinalBits.enableBit('n')
-          cardinalBits.enableBit('s')
-          cardinalBits.enableBit('e')
-          cardinalBits.enableBit('w')
-          if (!(metaPropsN.hasFast(mask) || metaPropsE.hasFast(mask))) {
-            cardinalBits.disableBit('ne')
-            needsWater = true
-          }
-          if (!(metaPropsS.hasFast(mask) || metaPropsE.hasFast(mask))) {
-            cardinalBits.disableBit('se')
-            needsWater = true
-          }
-          if (!(metaPropsN.hasFast(mask) || metaPropsW.hasFast(mask))) {
-            cardinalBits.disableBit('nw')
-            needsWater = true
-          }
-          if (!(metaPropsS.hasFast(mask) || metaPropsW.hasFast(mask))) {
-            cardinalBits.disableBit('sw')
-            needsWater = true
-          }
-        } else {
+      for (const rule of this.autoTileRules) {
+        if (applyAutoTileRule(rule, neighbourhood, visProps)) {
           needsWater = true
-          const majorN = metaPropsN.hasFast(mask)
-          if (majorN) {
-            cardinalBits.enableBit('n')
-          }
-          const majorS = metaPropsS.hasFast(mask)
-          if (majorS) {
-            cardinalBits.enableBit('s')
-          }
-          const majorE = metaPropsE.hasFast(mask)
-          if (majorE) {
-            cardinalBits.enableBit('e')
-          }
-          const majorW = metaPropsW.hasFast(mask)
-          if (majorW) {
-            cardinalBits.enableBit('w')
-          }
-          if (metaPropsNE.hasFast(mask) && (majorN || majorE)) {
-            cardinalBits.enableBit('ne')
-          }
-          if (metaPropsSW.hasFast(mask) && (majorS || majorW)) {
-            cardinalBits.enableBit('sw')
-          }
-          if (metaPropsSE.hasFast(mask) && (majorS || majorE)) {
-            cardinalBits.enableBit('se')
-          }
-          if (metaPropsNW.hasFast(mask) && (majorN || majorW)) {
-            cardinalBits.enableBit('nw')
-          }
-        }
-        return cardinalBits
-      }
-      const sandBits = makeCardinalBits(dirtMask)
-      const dirtBits = makeCardinalBits(sandMask)
-
-      for (const params of [
-        ['dirt', dirtBits],
-        ['sand', sandBits]
-      ] as const) {
-        const baseName = params[0]
-        const cardinalBits = params[1]
-        const quads = [
-          [
-            cardinalBits.has('nw'),
-            cardinalBits.has('n'),
-            cardinalBits.has('w'),
-            cardinalBits.has('c')
-          ], //nw
-          [
-            cardinalBits.has('n'),
-            cardinalBits.has('ne'),
-            cardinalBits.has('c'),
-            cardinalBits.has('e')
-          ], //ne
-          [
-            cardinalBits.has('w'),
-            cardinalBits.has('c'),
-            cardinalBits.has('sw'),
-            cardinalBits.has('s')
-          ], //sw
-          [
-            cardinalBits.has('c'),
-            cardinalBits.has('e'),
-            cardinalBits.has('s'),
-            cardinalBits.has('se')
-          ] //se
-        ]
-
-        for (let quadId = 0; quadId < quads.length; quadId++) {
-          const quad = quads[quadId]
-          const heightCode =
-            (quad[0] ? 1 : 0) +
-            (quad[1] ? 2 : 0) +
-            (quad[2] ? 4 : 0) +
-            (quad[3] ? 8 : 0)
-          if (heightCode > 0) {
-            const groundId = `${baseName}${
-              quadId * 16 + heightCode
-            }` as unknown as typeof this.tileMaker.visualPropertyLookupStrings
-            visProps.enableBit(groundId)
-          }
         }
       }
+      const waterMask = metaProps.makeFastMask('water')
 
       const maxWater = 8
       if (needsWater || metaProps.hasFast(waterMask)) {
@@ -626,94 +268,6 @@ export default class JITTileSampler {
         visProps.enableBit(`water${time}${landDist}`)
       }
 
-      const propMaskGrass = metaProps.makeFastMask('grass')
-      if (metaProps.hasFast(propMaskGrass)) {
-        visProps.enableBit('grassC')
-        if (metaPropsN.has('grass')) {
-          visProps.enableBit('grassN')
-        }
-        if (metaPropsE.hasFast(propMaskGrass)) {
-          visProps.enableBit('grassE')
-        }
-        if (metaPropsS.hasFast(propMaskGrass)) {
-          visProps.enableBit('grassS')
-        }
-        if (metaPropsW.hasFast(propMaskGrass)) {
-          visProps.enableBit('grassW')
-        }
-        if (
-          metaPropsNE.hasFast(propMaskGrass) &&
-          metaPropsN.hasFast(propMaskGrass) &&
-          metaPropsE.hasFast(propMaskGrass)
-        ) {
-          visProps.enableBit('grassNE')
-        }
-        if (
-          metaPropsNW.hasFast(propMaskGrass) &&
-          metaPropsN.hasFast(propMaskGrass) &&
-          metaPropsW.hasFast(propMaskGrass)
-        ) {
-          visProps.enableBit('grassNW')
-        }
-        if (
-          metaPropsSE.hasFast(propMaskGrass) &&
-          metaPropsS.hasFast(propMaskGrass) &&
-          metaPropsE.hasFast(propMaskGrass)
-        ) {
-          visProps.enableBit('grassSE')
-        }
-        if (
-          metaPropsSW.hasFast(propMaskGrass) &&
-          metaPropsS.hasFast(propMaskGrass) &&
-          metaPropsW.hasFast(propMaskGrass)
-        ) {
-          visProps.enableBit('grassSW')
-        }
-      }
-      const propMaskBush = metaProps.makeFastMask('bush')
-      if (metaProps.hasFast(propMaskBush)) {
-        visProps.enableBit('bushC')
-        if (metaPropsN.hasFast(propMaskBush)) {
-          visProps.enableBit('bushN')
-        }
-        if (metaPropsE.hasFast(propMaskBush)) {
-          visProps.enableBit('bushE')
-        }
-        if (metaPropsS.hasFast(propMaskBush)) {
-          visProps.enableBit('bushS')
-        }
-        if (metaPropsW.hasFast(propMaskBush)) {
-          visProps.enableBit('bushW')
-        }
-        if (
-          metaPropsNE.hasFast(propMaskBush) &&
-          metaPropsN.hasFast(propMaskBush) &&
-          metaPropsE.hasFast(propMaskBush)
-        ) {
-          visProps.enableBit('bushNE')
-        }
-        if (
-          metaPropsNW.hasFast(propMaskBush) &&
-          metaPropsN.hasFast(propMaskBush) &&
-          metaPropsW.hasFast(propMaskBush)
-        ) {
-          visProps.enableBit('bushNW')
-        }
-        if (
-          metaPropsSE.hasFast(propMaskBush) &&
-          metaPropsS.hasFast(propMaskBush) &&
-          metaPropsE.hasFast(propMaskBush)
-        ) {
-          visProps.enableBit('bushSE')
-        }
-        if (
-          metaPropsSW.hasFast(propMaskBush) &&
-          metaPropsS.hasFast(propMaskBush) &&
-          metaPropsW.hasFast(propMaskBush)
-        ) {
-          visProps.enableBit('bushSW')
-        }
-      }
       const propMaskBeam = metaProps.makeFastMask('beam')
       const beamC = metaProps.hasFast(propMaskBeam)
       const beamN = metaPropsN.hasFast(propMaskBeam)
@@ -841,311 +395,21 @@ export default class JITTileSampler {
         visProps.enableBit('rockyGround')
       }
 
-      const propMaskRocks = metaProps.makeFastMask('rocks')
-      const propMaskHarvested = metaProps.makeFastMask('harvested')
-
-      const isRocksC = metaProps.hasFast(propMaskRocks)
-      const isHarvestedC = metaProps.hasFast(propMaskHarvested)
-      const isGoldOre = metaProps.has('goldOreForRocks')
-      const isSilverOre = metaProps.has('silverOreForRocks')
-      const isIronOre = metaProps.has('ironOreForRocks')
-      const isCopperOre = metaProps.has('copperOreForRocks')
-      if (isRocksC) {
-        const isRocksN = metaPropsN.hasFast(propMaskRocks)
-        const isHarvestedN = metaPropsN.hasFast(propMaskHarvested)
-        const isRocksE = metaPropsE.hasFast(propMaskRocks)
-        const isHarvestedE = metaPropsE.hasFast(propMaskHarvested)
-        const isRocksS = metaPropsS.hasFast(propMaskRocks)
-        const isHarvestedS = metaPropsS.hasFast(propMaskHarvested)
-        const isRocksW = metaPropsW.hasFast(propMaskRocks)
-        const isHarvestedW = metaPropsW.hasFast(propMaskHarvested)
-        const isRocksNE = metaPropsNE.hasFast(propMaskRocks)
-        const isHarvestedNE = metaPropsNE.hasFast(propMaskHarvested)
-        const isRocksSE = metaPropsSE.hasFast(propMaskRocks)
-        const isHarvestedSE = metaPropsSE.hasFast(propMaskHarvested)
-        const isRocksSW = metaPropsSW.hasFast(propMaskRocks)
-        const isHarvestedSW = metaPropsSW.hasFast(propMaskHarvested)
-        const isRocksNW = metaPropsNW.hasFast(propMaskRocks)
-        const isHarvestedNW = metaPropsNW.hasFast(propMaskHarvested)
-
-        visProps.enableBit(isHarvestedC ? 'rockCrumbsC' : 'rocksC')
-        if (isRocksN) {
-          visProps.enableBit(
-            isHarvestedN || isHarvestedC ? 'rockCrumbsN' : 'rocksN'
-          )
-        }
-        if (isRocksS) {
-          visProps.enableBit(
-            isHarvestedS || isHarvestedC ? 'rockCrumbsS' : 'rocksS'
-          )
-        }
-        if (isRocksE) {
-          visProps.enableBit(
-            isHarvestedE || isHarvestedC ? 'rockCrumbsE' : 'rocksE'
-          )
-        }
-        if (isRocksW) {
-          visProps.enableBit(
-            isHarvestedW || isHarvestedC ? 'rockCrumbsW' : 'rocksW'
-          )
-        }
-
-        if (isRocksW && isRocksN && isRocksNW) {
-          visProps.enableBit(
-            isHarvestedW || isHarvestedN || isHarvestedNW || isHarvestedC
-              ? 'rockCrumbsNW'
-              : 'rocksNW'
-          )
-        }
-        if (isRocksE && isRocksN && isRocksNE) {
-          visProps.enableBit(
-            isHarvestedE || isHarvestedN || isHarvestedNE || isHarvestedC
-              ? 'rockCrumbsNE'
-              : 'rocksNE'
-          )
-        }
-        if (isRocksW && isRocksS && isRocksSW) {
-          visProps.enableBit(
-            isHarvestedW || isHarvestedS || isHarvestedSW || isHarvestedC
-              ? 'rockCrumbsSW'
-              : 'rocksSW'
-          )
-        }
-        if (isRocksE && isRocksS && isRocksSE) {
-          visProps.enableBit(
-            isHarvestedE || isHarvestedS || isHarvestedSE || isHarvestedC
-              ? 'rockCrumbsSE'
-              : 'rocksSE'
-          )
-        }
-
-        if (!isHarvestedC) {
-          if (
-            isRocksN &&
-            isRocksE &&
-            isRocksS &&
-            isRocksW &&
-            !isHarvestedN &&
-            !isHarvestedE &&
-            !isHarvestedS &&
-            !isHarvestedW
-          ) {
-            visProps.enableBit('rocksCBig')
-            if (isGoldOre) {
-              visProps.enableBit('goldOreForBigRocks')
-            }
-            if (isSilverOre) {
-              visProps.enableBit('silverOreForBigRocks')
-            }
-            if (isIronOre) {
-              visProps.enableBit('ironOreForBigRocks')
-            }
-            if (isCopperOre) {
-              visProps.enableBit('copperOreForBigRocks')
-            }
-          } else {
-            if (isGoldOre) {
-              visProps.enableBit('goldOreForRocks')
-            }
-            if (isSilverOre) {
-              visProps.enableBit('silverOreForRocks')
-            }
-            if (isIronOre) {
-              visProps.enableBit('ironOreForRocks')
-            }
-            if (isCopperOre) {
-              visProps.enableBit('copperOreForRocks')
-            }
+      if (metaProps.has('rocks') && !metaProps.has('harvested')) {
+        const oreSuffix = visProps.has('rocksCBig') ? 'ForBigRocks' : 'ForRocks'
+        for (const ore of ['gold', 'silver', 'iron', 'copper'] as const) {
+          if (metaProps.has(`${ore}OreForRocks`)) {
+            visProps.enableBit(`${ore}Ore${oreSuffix}`)
           }
         }
       }
 
-      const propMaskMaturePlant = metaProps.makeFastMask('maturePlant')
-
-      const propMaskTreePine = metaProps.makeFastMask('treePine')
-      if (
-        metaProps.hasFast(propMaskTreePine) &&
-        !metaProps.hasFast(propMaskHarvested)
-      ) {
-        visProps.enableBit(
-          `treePine${metaProps.hasFast(propMaskMaturePlant) ? 'Mature' : ''}C`
-        )
-      }
-      if (
-        metaPropsE.hasFast(propMaskTreePine) &&
-        !metaPropsE.hasFast(propMaskHarvested)
-      ) {
-        visProps.enableBit(
-          `treePine${metaPropsE.hasFast(propMaskMaturePlant) ? 'Mature' : ''}E`
-        )
-      }
-      if (
-        metaPropsW.hasFast(propMaskTreePine) &&
-        !metaPropsW.hasFast(propMaskHarvested)
-      ) {
-        visProps.enableBit(
-          `treePine${metaPropsW.hasFast(propMaskMaturePlant) ? 'Mature' : ''}W`
-        )
-      }
-      if (
-        metaPropsN.hasFast(propMaskTreePine) &&
-        !metaPropsN.hasFast(propMaskHarvested)
-      ) {
-        visProps.enableBit(
-          `treePine${metaPropsN.hasFast(propMaskMaturePlant) ? 'Mature' : ''}N`
-        )
-      }
-      if (
-        metaPropsS.hasFast(propMaskTreePine) &&
-        !metaPropsS.hasFast(propMaskHarvested)
-      ) {
-        visProps.enableBit(
-          `treePine${metaPropsS.hasFast(propMaskMaturePlant) ? 'Mature' : ''}S`
-        )
-      }
-      if (
-        metaPropsNE.hasFast(propMaskTreePine) &&
-        !metaPropsNE.hasFast(propMaskHarvested)
-      ) {
-        visProps.enableBit(
-          `treePine${
-            metaPropsNE.hasFast(propMaskMaturePlant) ? 'Mature' : ''
-          }NE`
-        )
-      }
-      if (
-        metaPropsSW.hasFast(propMaskTreePine) &&
-        !metaPropsSW.hasFast(propMaskHarvested)
-      ) {
-        visProps.enableBit(
-          `treePine${
-            metaPropsSW.hasFast(propMaskMaturePlant) ? 'Mature' : ''
-          }SW`
-        )
-      }
-      if (
-        metaPropsNW.hasFast(propMaskTreePine) &&
-        !metaPropsNW.hasFast(propMaskHarvested)
-      ) {
-        visProps.enableBit(
-          `treePine${
-            metaPropsNW.hasFast(propMaskMaturePlant) ? 'Mature' : ''
-          }NW`
-        )
-      }
-      if (
-        metaPropsSE.hasFast(propMaskTreePine) &&
-        !metaPropsSE.hasFast(propMaskHarvested)
-      ) {
-        visProps.enableBit(
-          `treePine${
-            metaPropsSE.hasFast(propMaskMaturePlant) ? 'Mature' : ''
-          }SE`
-        )
-      }
-
-      if (
-        metaProps.hasFast(propMaskTreePine) &&
-        metaProps.hasFast(propMaskHarvested)
-      ) {
-        visProps.enableBit(
-          `treePineStump${
-            metaProps.hasFast(propMaskMaturePlant) ? 'Mature' : ''
-          }`
-        )
-      }
-
-      const propMaskTreeMaple = metaProps.makeFastMask('treeMaple')
-      if (
-        metaProps.hasFast(propMaskTreeMaple) &&
-        !metaProps.hasFast(propMaskHarvested)
-      ) {
-        visProps.enableBit(
-          `treeMaple${metaProps.hasFast(propMaskMaturePlant) ? 'Mature' : ''}C`
-        )
-      }
-      if (
-        metaPropsE.hasFast(propMaskTreeMaple) &&
-        !metaPropsE.hasFast(propMaskHarvested)
-      ) {
-        visProps.enableBit(
-          `treeMaple${metaPropsE.hasFast(propMaskMaturePlant) ? 'Mature' : ''}E`
-        )
-      }
-      if (
-        metaPropsW.hasFast(propMaskTreeMaple) &&
-        !metaPropsW.hasFast(propMaskHarvested)
-      ) {
-        visProps.enableBit(
-          `treeMaple${metaPropsW.hasFast(propMaskMaturePlant) ? 'Mature' : ''}W`
-        )
-      }
-      if (
-        metaPropsN.hasFast(propMaskTreeMaple) &&
-        !metaPropsN.hasFast(propMaskHarvested)
-      ) {
-        visProps.enableBit(
-          `treeMaple${metaPropsN.hasFast(propMaskMaturePlant) ? 'Mature' : ''}N`
-        )
-      }
-      if (
-        metaPropsS.hasFast(propMaskTreeMaple) &&
-        !metaPropsS.hasFast(propMaskHarvested)
-      ) {
-        visProps.enableBit(
-          `treeMaple${metaPropsS.hasFast(propMaskMaturePlant) ? 'Mature' : ''}S`
-        )
-      }
-      if (
-        metaPropsNE.hasFast(propMaskTreeMaple) &&
-        !metaPropsNE.hasFast(propMaskHarvested)
-      ) {
-        visProps.enableBit(
-          `treeMaple${
-            metaPropsNE.hasFast(propMaskMaturePlant) ? 'Mature' : ''
-          }NE`
-        )
-      }
-      if (
-        metaPropsSW.hasFast(propMaskTreeMaple) &&
-        !metaPropsSW.hasFast(propMaskHarvested)
-      ) {
-        visProps.enableBit(
-          `treeMaple${
-            metaPropsSW.hasFast(propMaskMaturePlant) ? 'Mature' : ''
-          }SW`
-        )
-      }
-      if (
-        metaPropsNW.hasFast(propMaskTreeMaple) &&
-        !metaPropsNW.hasFast(propMaskHarvested)
-      ) {
-        visProps.enableBit(
-          `treeMaple${
-            metaPropsNW.hasFast(propMaskMaturePlant) ? 'Mature' : ''
-          }NW`
-        )
-      }
-      if (
-        metaPropsSE.hasFast(propMaskTreeMaple) &&
-        !metaPropsSE.hasFast(propMaskHarvested)
-      ) {
-        visProps.enableBit(
-          `treeMaple${
-            metaPropsSE.hasFast(propMaskMaturePlant) ? 'Mature' : ''
-          }SE`
-        )
-      }
-
-      if (
-        metaProps.hasFast(propMaskTreeMaple) &&
-        metaProps.hasFast(propMaskHarvested)
-      ) {
-        visProps.enableBit(
-          `treeMapleStump${
-            metaProps.hasFast(propMaskMaturePlant) ? 'Mature' : ''
-          }`
-        )
+      const palette = this._tilePalette
+        ? this._tilePalette(x, y, metaProps)
+        : undefined
+      if (palette) {
+        visProps.bytes[visProps.bytes.length - 1] =
+          this._tileMaker.palettes.getId(palette)
       }
       return visProps
     }
@@ -1157,11 +421,136 @@ export default class JITTileSampler {
       const bottomAndTopIds: BottomAndTopIds =
         this.sampleVisIdsByVisProps(visProps)
       this._bottomAndTopIdsCache.set(key, bottomAndTopIds)
+      this.addBottomAndTopIdsCacheKey(bottomAndTopIds.idBottom, key)
+      this.addBottomAndTopIdsCacheKey(bottomAndTopIds.idTop, key)
       return bottomAndTopIds
     } else {
       return this._bottomAndTopIdsCache.get(key)!
     }
   }
+  //the tile ids the tile would get with this meta, without writing it
+  previewVisIds(x: number, y: number, meta: NamedMetaBits) {
+    const key = `${x}:${y}`
+    const visKey = key + ':0'
+    const cachedMeta = this.metaCache.get(key)
+    const cachedVisProps = this._visPropsCache.get(visKey)
+    this.metaCache.set(key, meta)
+    this._visPropsCache.delete(visKey)
+    //listeners shouldn't react to a meta that was never written
+    this._previewing = true
+    const visProps = this.sampleVisProps(x, y)
+    this._previewing = false
+    if (cachedMeta) {
+      this.metaCache.set(key, cachedMeta)
+    } else {
+      this.metaCache.delete(key)
+    }
+    if (cachedVisProps) {
+      this._visPropsCache.set(visKey, cachedVisProps)
+    } else {
+      this._visPropsCache.delete(visKey)
+    }
+    const ids = this.sampleVisIdsByVisProps(visProps)
+    this._previewIds.add(ids.idBottom)
+    this._previewIds.add(ids.idTop)
+    return ids
+  }
+  //lets go of the ids of earlier previews so they can be evicted
+  clearPreviews() {
+    this._previewIds.clear()
+  }
+  isTileIdOnScreen = (index: number) => {
+    if (this._previewIds.has(index)) {
+      return true
+    }
+    const keys = this._bottomAndTopIdsCacheKeys.get(index)
+    if (!keys) {
+      return false
+    }
+    let onScreen = false
+    keys.forEach((key) => {
+      const ids = this._bottomAndTopIdsCache.get(key)
+      if (onScreen || !ids || (ids.idBottom !== index && ids.idTop !== index)) {
+        return
+      }
+      const [x, y] = key.split(':').map((v) => parseInt(v))
+      onScreen = this.isOnScreen(x, y)
+    })
+    return onScreen
+  }
+  //the closest tile that uses this id, undefined when none does anymore
+  getTileIdBakePriority = (index: number) => {
+    if (this._previewIds.has(index)) {
+      return { distance: 0, outside: 0 }
+    }
+    const keys = this._bottomAndTopIdsCacheKeys.get(index)
+    if (!keys) {
+      return undefined
+    }
+    const centerX = this._offsetX + this._viewWidthInTiles * 0.5
+    const centerY = this._offsetY + this._viewHeightInTiles * 0.5
+    let priority: TileBakePriority | undefined
+    keys.forEach((key) => {
+      const ids = this._bottomAndTopIdsCache.get(key)
+      if (!ids || (ids.idBottom !== index && ids.idTop !== index)) {
+        return
+      }
+      const [x, y] = key.split(':').map((v) => parseInt(v))
+      const dx = Math.abs(x + 0.5 - centerX)
+      const dy = Math.abs(y + 0.5 - centerY)
+      const distance = Math.sqrt(dx * dx + dy * dy)
+      const outside = Math.max(
+        0,
+        Math.ceil(dx - this._viewWidthInTiles * 0.5),
+        Math.ceil(dy - this._viewHeightInTiles * 0.5)
+      )
+      if (
+        !priority ||
+        outside < priority.outside ||
+        (outside === priority.outside && distance < priority.distance)
+      ) {
+        priority = { distance, outside }
+      }
+    })
+    return priority
+  }
+  //the tile maker reuses the index for another tile, forget everything that pointed at it
+  onTileEvicted = (index: number) => {
+    this.indicesOfMadeTiles.delete(index)
+    this._previewIds.delete(index)
+    const keys = this._bottomAndTopIdsCacheKeys.get(index)
+    if (!keys) {
+      return
+    }
+    keys.forEach((key) => {
+      const ids = this._bottomAndTopIdsCache.get(key)
+      if (ids && (ids.idBottom === index || ids.idTop === index)) {
+        this._bottomAndTopIdsCache.delete(key)
+        //only when every tile was on screen and one had to go anyway
+        const [x, y] = key.split(':').map((v) => parseInt(v))
+        if (this.isOnScreen(x, y)) {
+          this.dirtyVis.add(`${x}:${y}`)
+        }
+      }
+    })
+    this._bottomAndTopIdsCacheKeys.delete(index)
+  }
+  private isOnScreen(x: number, y: number) {
+    return (
+      x >= this._offsetX &&
+      x < this._offsetX + this._viewWidthInTiles &&
+      y >= this._offsetY &&
+      y < this._offsetY + this._viewHeightInTiles
+    )
+  }
+  private addBottomAndTopIdsCacheKey(index: number, key: string) {
+    let keys = this._bottomAndTopIdsCacheKeys.get(index)
+    if (!keys) {
+      keys = new Set()
+      this._bottomAndTopIdsCacheKeys.set(index, keys)
+    }
+    keys.add(key)
+  }
   sampleVisIdsByVisProps(
     visProps: NamedBitsInBytes<
       typeof this.tileMaker.visualPropertyLookupStrings
@@ -1179,6 +568,14 @@ export default class JITTileSampler {
     return bottomAndTopIds
   }
   updateMeta() {
+    if (this.metaStore.setView) {
+      this.metaStore.setView(
+        this._offsetX,
+        this._offsetY,
+        this._viewWidthInTiles,
+        this._viewHeightInTiles
+      )
+    }
     // if (this._offsetsDirty) {
     // this._offsetsDirty = false
     // if (this._offsetX !== this._offsetXOld) {
@@ -1254,6 +651,9 @@ export default class JITTileSampler {
     this._dirtyMetaProcessedListeners.push(cb)
   }
   emitDirtyMetaProcessed(x: number, y: number, meta: NamedMetaBits) {
+    if (this._previewing) {
+      return
+    }
     for (const cb of this._dirtyMetaProcessedListeners) {
       cb(x, y, meta)
     }
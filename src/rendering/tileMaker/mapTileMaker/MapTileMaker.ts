@@ -19,6 +19,7 @@ import {
   CuratedMaterialType,
   getMeshMaterial,
   isCuratedMaterial,
+  MaterialPalette,
   MaterialPassType
 } from '../../../helpers/materials/materialLib'
 import { getChamferedBoxGeometry } from '../../../utils/geometry'
@@ -44,6 +45,8 @@ import { BushProps, makeRecursiveBush } from '../../../meshes/factoryBush'
 import { memoize } from '../../../utils/memoizer'
 import { makeBrickWall } from '../../../meshes/factoryBrickWall'
 import DoubleCachedTileMaker from '../DoubleCachedTileMaker'
+import TileBakeScheduler from '../TileBakeScheduler'
+import TileDefinitionRegistry from '../TileDefinitionRegistry'
 import { makeWater } from '../../../meshes/factoryWater'
 import { makeSandQuad } from '../../../meshes/factorySand'
 import { lerp } from 'three/src/math/MathUtils'
@@ -73,8 +76,10 @@ const slicknessByName: { [K in CuratedMaterialType]: number } = {
   skin: 1,
   plastic: 0.8,
   grass: 0.9,
+  grassDry: 0.9,
   bush: 0.95,
   leafMaple: 0.9,
+  leafAutumn: 0.9,
   pineNeedle: 0.8,
   berry: 1,
   pants: 1,
@@ -100,300 +105,29 @@ function getSlickness(materialName: string) {
   }
 }
 
+const __noPalette: MaterialPalette = {}
+
 export default class MapTileMaker extends DoubleCachedTileMaker {
-  visualPropertyLookupStrings = [
-    'layer2',
-    'nothingness',
-    'floor',
-    'logWallCenter',
-    'logWallN',
-    'logWallE',
-    'logWallS',
-    'logWallW',
-    'logWallNS',
-    'logWallEW',
-    'logDoorNS',
-    'logDoorEW',
-    'logWindowNS',
-    'logWindowEW',
-    'beamCenter',
-    'beamN',
-    'beamE',
-    'beamS',
-    'beamW',
-    'beamNS',
-    'beamEW',
-    'bricks0',
-    'bricks1',
-    'bricks2',
-    'bricks3',
-    'bricks4',
-    'bricks5',
-    'bricks6',
-    'bricks7',
-    'bricks8',
-    'bricks9',
-    'bricks10',
-    'bricks11',
-    'grassC',
-    'grassN',
-    'grassNE',
-    'grassE',
-    'grassSE',
-    'grassS',
-    'grassSW',
-    'grassW',
-    'grassNW',
-    'bushC',
-    'bushN',
-    'bushNE',
-    'bushE',
-    'bushSE',
-    'bushS',
-    'bushSW',
-    'bushW',
-    'bushNW',
-    'goldPile',
-    'lampPost',
-    'pyramid',
-    'rockyGround',
-    'rocksC',
-    'rocksCBig',
-    'rocksN',
-    'rocksNE',
-    'rocksE',
-    'rocksSE',
-    'rocksS',
-    'rocksSW',
-    'rocksW',
-    'rocksNW',
-    'goldOreForRocks',
-    'goldOreForBigRocks',
-    'silverOreForRocks',
-    'silverOreForBigRocks',
-    'ironOreForRocks',
-    'ironOreForBigRocks',
-    'copperOreForRocks',
-    'copperOreForBigRocks',
-    'rockCrumbsC',
-    'rockCrumbsN',
-    'rockCrumbsNE',
-    'rockCrumbsE',
-    'rockCrumbsSE',
-    'rockCrumbsS',
-    'rockCrumbsSW',
-    'rockCrumbsW',
-    'rockCrumbsNW',
-    'treePineC',
-    'treePineN',
-    'treePineNE',
-    'treePineE',
-    'treePineSE',
-    'treePineS',
-    'treePineSW',
-    'treePineW',
-    'treePineNW',
-    'treePineMatureC',
-    'treePineMatureN',
-    'treePineMatureNE',
-    'treePineMatureE',
-    'treePineMatureSE',
-    'treePineMatureS',
-    'treePineMatureSW',
-    'treePineMatureW',
-    'treePineMatureNW',
-    'treePineStump',
-    'treePineStumpMature',
-    'treeMapleC',
-    'treeMapleN',
-    'treeMapleNE',
-    'treeMapleE',
-    'treeMapleSE',
-    'treeMapleS',
-    'treeMapleSW',
-    'treeMapleW',
-    'treeMapleNW',
-    'treeMapleMatureC',
-    'treeMapleMatureN',
-    'treeMapleMatureNE',
-    'treeMapleMatureE',
-    'treeMapleMatureSE',
-    'treeMapleMatureS',
-    'treeMapleMatureSW',
-    'treeMapleMatureW',
-    'treeMapleMatureNW',
-    'treeMapleStump',
-    'treeMapleStumpMature',
-    'water00',
-    'water10',
-    'water20',
-    'water30',
-    'water01',
-    'water11',
-    'water21',
-    'water31',
-    'water02',
-    'water12',
-    'water22',
-    'water32',
-    'water03',
-    'water13',
-    'water23',
-    'water33',
-    'water04',
-    'water14',
-    'water24',
-    'water34',
-    'water05',
-    'water15',
-    'water25',
-    'water35',
-    'water06',
-    'water16',
-    'water26',
-    'water36',
-    'water07',
-    'water17',
-    'water27',
-    'water37',
-    'dirt0',
-    'dirt1',
-    'dirt2',
-    'dirt3',
-    'dirt4',
-    'dirt5',
-    'dirt6',
-    'dirt7',
-    'dirt8',
-    'dirt9',
-    'dirt10',
-    'dirt11',
-    'dirt12',
-    'dirt13',
-    'dirt14',
-    'dirt15',
-    'dirt16',
-    'dirt17',
-    'dirt18',
-    'dirt19',
-    'dirt20',
-    'dirt21',
-    'dirt22',
-    'dirt23',
-    'dirt24',
-    'dirt25',
-    'dirt26',
-    'dirt27',
-    'dirt28',
-    'dirt29',
-    'dirt30',
-    'dirt31',
-    'dirt32',
-    'dirt33',
-    'dirt34',
-    'dirt35',
-    'dirt36',
-    'dirt37',
-    'dirt38',
-    'dirt39',
-    'dirt40',
-    'dirt41',
-    'dirt42',
-    'dirt43',
-    'dirt44',
-    'dirt45',
-    'dirt46',
-    'dirt47',
-    'dirt48',
-    'dirt49',
-    'dirt50',
-    'dirt51',
-    'dirt52',
-    'dirt53',
-    'dirt54',
-    'dirt55',
-    'dirt56',
-    'dirt57',
-    'dirt58',
-    'dirt59',
-    'dirt60',
-    'dirt61',
-    'dirt62',
-    'dirt63',
-    'sand0',
-    'sand1',
-    'sand2',
-    'sand3',
-    'sand4',
-    'sand5',
-    'sand6',
-    'sand7',
-    'sand8',
-    'sand9',
-    'sand10',
-    'sand11',
-    'sand12',
-    'sand13',
-    'sand14',
-    'sand15',
-    'sand16',
-    'sand17',
-    'sand18',
-    'sand19',
-    'sand20',
-    'sand21',
-    'sand22',
-    'sand23',
-    'sand24',
-    'sand25',
-    'sand26',
-    'sand27',
-    'sand28',
-    'sand29',
-    'sand30',
-    'sand31',
-    'sand32',
-    'sand33',
-    'sand34',
-    'sand35',
-    'sand36',
-    'sand37',
-    'sand38',
-    'sand39',
-    'sand40',
-    'sand41',
-    'sand42',
-    'sand43',
-    'sand44',
-    'sand45',
-    'sand46',
-    'sand47',
-    'sand48',
-    'sand49',
-    'sand50',
-    'sand51',
-    'sand52',
-    'sand53',
-    'sand54',
-    'sand55',
-    'sand56',
-    'sand57',
-    'sand58',
-    'sand59',
-    'sand60',
-    'sand61',
-    'sand62',
-    'sand63',
-    'testObject'
-  ] as const
+  visualPropertyLookupStrings: readonly string[]
+  tileDefinitions: TileDefinitionRegistry
   private _listenersForUpdatedTiles: ((index: number) => void)[] = []
-  public isIndexStillOnScreen: ((index: number) => boolean) | undefined
+  bakeScheduler = new TileBakeScheduler()
+  //the tile definition bits, then a byte for the palette id
+  get bytesPerTile() {
+    return this.tileDefinitions.bytesPerTile + 1
+  }
   constructor(
     pixelsPerTile = 32,
     pixelsPerCacheEdge = 2048,
-    passes: MaterialPassType[] = ['beauty']
+    passes: MaterialPassType[] = ['beauty'],
+    registerExtraTileDefinitions?: (
+      tileDefinitions: TileDefinitionRegistry
+    ) => void,
+    maxPages = 4,
+    //e.g. the layout tile descriptions were shared or stored with, catches extra tiles registered in another order
+    expectedTileLayout?: readonly string[]
   ) {
-    const dummy = memoize(() => new Object3D())
+    const tileDefinitions = new TileDefinitionRegistry()
 
     const cyberGlowMat = getMeshMaterial('cyberGlow')
     const cyberPanelMat = getMeshMaterial('cyberPanel')
@@ -1229,130 +963,127 @@ export default class MapTileMaker extends DoubleCachedTileMaker {
         getMeshMaterial('woodMaple')
       )
 
-    const indexedMeshes: (() => Object3D)[] = [
-      dummy,
-      nothingness,
-      floor,
-      logWallCenter,
-      logWallN,
-      logWallE,
-      logWallS,
-      logWallW,
-      logWallFullSectionNS,
-      logWallFullSectionEW,
-      logWallDoorSectionNS,
-      logWallDoorSectionEW,
-      logWallWindowSectionNS,
-      logWallWindowSectionEW,
-      beamCenter,
-      beamN,
-      beamE,
-      beamS,
-      beamW,
-      beamFullSectionNS,
-      beamFullSectionEW,
-      brickWallSectionWR,
-      brickWallSectionEL,
-      brickWallSectionNR,
-      brickWallSectionSR,
-      brickWallSectionER,
-      brickWallSectionWL,
-      brickWallSectionSL,
-      brickWallSectionNL,
-      brickWallSectionNC,
-      brickWallSectionEC,
-      brickWallSectionSC,
-      brickWallSectionWC,
-      grassC,
-      grassN,
-      grassNE,
-      grassE,
-      grassSE,
-      grassS,
-      grassSW,
-      grassW,
-      grassNW,
-      bushC,
-      bushN,
-      bushNE,
-      bushE,
-      bushSE,
-      bushS,
-      bushSW,
-      bushW,
-      bushNW,
-      goldPile,
-      lampPost,
-      pyramid,
-      rockyGround,
-      rocksC,
-      rocksCBig,
-      rocksN,
-      rocksNE,
-      rocksE,
-      rocksSE,
-      rocksS,
-      rocksSW,
-      rocksW,
-      rocksNW,
-      goldOreForRocks,
-      goldOreForBigRocks,
-      silverOreForRocks,
-      silverOreForBigRocks,
-      ironOreForRocks,
-      ironOreForBigRocks,
-      copperOreForRocks,
-      copperOreForBigRocks,
-      rockCrumbsC,
-      rockCrumbsN,
-      rockCrumbsNE,
-      rockCrumbsE,
-      rockCrumbsSE,
-      rockCrumbsS,
-      rockCrumbsSW,
-      rockCrumbsW,
-      rockCrumbsNW,
-      treePineC,
-      treePineN,
-      treePineNE,
-      treePineE,
-      treePineSE,
-      treePineS,
-      treePineSW,
-      treePineW,
-      treePineNW,
-      treePineMatureC,
-      treePineMatureN,
-      treePineMatureNE,
-      treePineMatureE,
-      treePineMatureSE,
-      treePineMatureS,
-      treePineMatureSW,
-      treePineMatureW,
-      treePineMatureNW,
-      treePineStump,
-      treePineStumpMature,
-      treeMapleC,
-      treeMapleN,
-      treeMapleNE,
-      treeMapleE,
-      treeMapleSE,
-      treeMapleS,
-      treeMapleSW,
-      treeMapleW,
-      treeMapleNW,
-      treeMapleMatureC,
-      treeMapleMatureN,
-      treeMapleMatureNE,
-      treeMapleMatureE,
-      treeMapleMatureSE,
-      treeMapleMatureS,
-      treeMapleMatureSW,
-      treeMapleMatureW,
-      treeMapleMatureNW,
-      treeMapleStump,
-      treeMapleStumpMature
-    ]
+    tileDefinitions.register('nothingness', nothingness)
+    tileDefinitions.register('floor', floor)
+    tileDefinitions.register('logWallCenter', logWallCenter)
+    tileDefinitions.register('logWallN', logWallN)
+    tileDefinitions.register('logWallE', logWallE)
+    tileDefinitions.register('logWallS', logWallS)
+    tileDefinitions.register('logWallW', logWallW)
+    tileDefinitions.register('logWallNS', logWallFullSectionNS)
+    tileDefinitions.register('logWallEW', logWallFullSectionEW)
+    tileDefinitions.register('logDoorNS', logWallDoorSectionNS)
+    tileDefinitions.register('logDoorEW', logWallDoorSectionEW)
+    tileDefinitions.register('logWindowNS', logWallWindowSectionNS)
+    tileDefinitions.register('logWindowEW', logWallWindowSectionEW)
+    tileDefinitions.register('beamCenter', beamCenter)
+    tileDefinitions.register('beamN', beamN)
+    tileDefinitions.register('beamE', beamE)
+    tileDefinitions.register('beamS', beamS)
+    tileDefinitions.register('beamW', beamW)
+    tileDefinitions.register('beamNS', beamFullSectionNS)
+    tileDefinitions.register('beamEW', beamFullSectionEW)
+    tileDefinitions.register('bricks0', brickWallSectionWR)
+    tileDefinitions.register('bricks1', brickWallSectionEL)
+    tileDefinitions.register('bricks2', brickWallSectionNR)
+    tileDefinitions.register('bricks3', brickWallSectionSR)
+    tileDefinitions.register('bricks4', brickWallSectionER)
+    tileDefinitions.register('bricks5', brickWallSectionWL)
+    tileDefinitions.register('bricks6', brickWallSectionSL)
+    tileDefinitions.register('bricks7', brickWallSectionNL)
+    tileDefinitions.register('bricks8', brickWallSectionNC)
+    tileDefinitions.register('bricks9', brickWallSectionEC)
+    tileDefinitions.register('bricks10', brickWallSectionSC)
+    tileDefinitions.register('bricks11', brickWallSectionWC)
+    tileDefinitions.register('grassC', grassC)
+    tileDefinitions.register('grassN', grassN)
+    tileDefinitions.register('grassNE', grassNE)
+    tileDefinitions.register('grassE', grassE)
+    tileDefinitions.register('grassSE', grassSE)
+    tileDefinitions.register('grassS', grassS)
+    tileDefinitions.register('grassSW', grassSW)
+    tileDefinitions.register('grassW', grassW)
+    tileDefinitions.register('grassNW', grassNW)
+    tileDefinitions.register('bushC', bushC)
+    tileDefinitions.register('bushN', bushN)
+    tileDefinitions.register('bushNE', bushNE)
+    tileDefinitions.register('bushE', bushE)
+    tileDefinitions.register('bushSE', bushSE)
+    tileDefinitions.register('bushS', bushS)
+    tileDefinitions.register('bushSW', bushSW)
+    tileDefinitions.register('bushW', bushW)
+    tileDefinitions.register('bushNW', bushNW)
+    tileDefinitions.register('goldPile', goldPile)
+    tileDefinitions.register('lampPost', lampPost)
+    tileDefinitions.register('pyramid', pyramid)
+    tileDefinitions.register('rockyGround', rockyGround)
+    tileDefinitions.register('rocksC', rocksC)
+    tileDefinitions.register('rocksCBig', rocksCBig)
+    tileDefinitions.register('rocksN', rocksN)
+    tileDefinitions.register('rocksNE', rocksNE)
+    tileDefinitions.register('rocksE', rocksE)
+    tileDefinitions.register('rocksSE', rocksSE)
+    tileDefinitions.register('rocksS', rocksS)
+    tileDefinitions.register('rocksSW', rocksSW)
+    tileDefinitions.register('rocksW', rocksW)
+    tileDefinitions.register('rocksNW', rocksNW)
+    tileDefinitions.register('goldOreForRocks', goldOreForRocks)
+    tileDefinitions.register('goldOreForBigRocks', goldOreForBigRocks)
+    tileDefinitions.register('silverOreForRocks', silverOreForRocks)
+    tileDefinitions.register('silverOreForBigRocks', silverOreForBigRocks)
+    tileDefinitions.register('ironOreForRocks', ironOreForRocks)
+    tileDefinitions.register('ironOreForBigRocks', ironOreForBigRocks)
+    tileDefinitions.register('copperOreForRocks', copperOreForRocks)
+    tileDefinitions.register('copperOreForBigRocks', copperOreForBigRocks)
+    tileDefinitions.register('rockCrumbsC', rockCrumbsC)
+    tileDefinitions.register('rockCrumbsN', rockCrumbsN)
+    tileDefinitions.register('rockCrumbsNE', rockCrumbsNE)
+    tileDefinitions.register('rockCrumbsE', rockCrumbsE)
+    tileDefinitions.register('rockCrumbsSE', rockCrumbsSE)
+    tileDefinitions.register('rockCrumbsS', rockCrumbsS)
+    tileDefinitions.register('rockCrumbsSW', rockCrumbsSW)
+    tileDefinitions.register('rockCrumbsW', rockCrumbsW)
+    tileDefinitions.register('rockCrumbsNW', rockCrumbsNW)
+    tileDefinitions.register('treePineC', treePineC)
+    tileDefinitions.register('treePineN', treePineN)
+    tileDefinitions.register('treePineNE', treePineNE)
+    tileDefinitions.register('treePineE', treePineE)
+    tileDefinitions.register('treePineSE', treePineSE)
+    tileDefinitions.register('treePineS', treePineS)
+    tileDefinitions.register('treePineSW', treePineSW)
+    tileDefinitions.register('treePineW', treePineW)
+    tileDefinitions.register('treePineNW', treePineNW)
+    tileDefinitions.register('treePineMatureC', treePineMatureC)
+    tileDefinitions.register('treePineMatureN', treePineMatureN)
+    tileDefinitions.register('treePineMatureNE', treePineMatureNE)
+    tileDefinitions.register('treePineMatureE', treePineMatureE)
+    tileDefinitions.register('treePineMatureSE', treePineMatureSE)
+    tileDefinitions.register('treePineMatureS', treePineMatureS)
+    tileDefinitions.register('treePineMatureSW', treePineMatureSW)
+    tileDefinitions.register('treePineMatureW', treePineMatureW)
+    tileDefinitions.register('treePineMatureNW', treePineMatureNW)
+    tileDefinitions.register('treePineStump', treePineStump)
+    tileDefinitions.register('treePineStumpMature', treePineStumpMature)
+    tileDefinitions.register('treeMapleC', treeMapleC)
+    tileDefinitions.register('treeMapleN', treeMapleN)
+    tileDefinitions.register('treeMapleNE', treeMapleNE)
+    tileDefinitions.register('treeMapleE', treeMapleE)
+    tileDefinitions.register('treeMapleSE', treeMapleSE)
+    tileDefinitions.register('treeMapleS', treeMapleS)
+    tileDefinitions.register('treeMapleSW', treeMapleSW)
+    tileDefinitions.register('treeMapleW', treeMapleW)
+    tileDefinitions.register('treeMapleNW', treeMapleNW)
+    tileDefinitions.register('treeMapleMatureC', treeMapleMatureC)
+    tileDefinitions.register('treeMapleMatureN', treeMapleMatureN)
+    tileDefinitions.register('treeMapleMatureNE', treeMapleMatureNE)
+    tileDefinitions.register('treeMapleMatureE', treeMapleMatureE)
+    tileDefinitions.register('treeMapleMatureSE', treeMapleMatureSE)
+    tileDefinitions.register('treeMapleMatureS', treeMapleMatureS)
+    tileDefinitions.register('treeMapleMatureSW', treeMapleMatureSW)
+    tileDefinitions.register('treeMapleMatureW', treeMapleMatureW)
+    tileDefinitions.register('treeMapleMatureNW', treeMapleMatureNW)
+    tileDefinitions.register('treeMapleStump', treeMapleStump)
+    tileDefinitions.register('treeMapleStumpMature', treeMapleStumpMature)
 
     //water
     const timeVariations = [0, 1, 2, 3].map((v) => v / 4)
@@ -1360,11 +1091,17 @@ export default class MapTileMaker extends DoubleCachedTileMaker {
     for (let i = 0; i < maxWater; i++) {
       const ratio = i / (maxWater - 1)
       const strength = lerp(0.15, 1.2, ratio)
-      for (const timeVariation of timeVariations) {
-        indexedMeshes.push(() => makeWater(waterMat, timeVariation, strength))
-      }
+      tileDefinitions.registerAnimated(
+        `water${i}`,
+        timeVariations.length,
+        (frame) => `water${frame}${i}`,
+        (frame) => () => makeWater(waterMat, timeVariations[frame], strength)
+      )
     }
-    for (const quadMaker of [makeSandQuad, makeDirtQuad]) {
+    for (const [baseName, quadMaker] of [
+      ['dirt', makeDirtQuad],
+      ['sand', makeSandQuad]
+    ] as const) {
       const total = Math.pow(2, 6)
       for (let i = 0; i < total; i++) {
         const quadId = ~~(i / 16)
@@ -1373,33 +1110,71 @@ export default class MapTileMaker extends DoubleCachedTileMaker {
         const bl = ~~(i / 4) % 2
         const br = ~~(i / 8) % 2
         const quads = [tl === 1, tr === 1, bl === 1, br === 1]
-        indexedMeshes.push(() => quadMaker(quadId, quads, groundMat))
+        tileDefinitions.register(`${baseName}${i}`, () =>
+          quadMaker(quadId, quads, groundMat)
+        )
       }
     }
 
-    indexedMeshes.push(testObject)
+    tileDefinitions.register('testObject', testObject)
+
+    if (registerExtraTileDefinitions) {
+      registerExtraTileDefinitions(tileDefinitions)
+    }
+    if (expectedTileLayout) {
+      tileDefinitions.assertLayout(expectedTileLayout)
+    }
+
+    super(
+      pixelsPerTile,
+      pixelsPerCacheEdge,
+      passes,
+      tileDefinitions.lock().makers,
+      maxPages
+    )
+    this.tileDefinitions = tileDefinitions
+    this.visualPropertyLookupStrings = tileDefinitions.names
 
-    super(pixelsPerTile, pixelsPerCacheEdge, passes, indexedMeshes)
+    //seasons and biomes, picked per tile by JITTileSampler.setTilePalette()
+    this.palettes.register('autumn', {
+      leafMaple: 'leafAutumn',
+      bush: 'leafMaple',
+      grass: 'grassDry'
+    })
+    this.palettes.register('winter', {
+      grass: 'snow',
+      leafMaple: 'snow',
+      leafAutumn: 'snow'
+    })
+    this.palettes.register('arid', { grass: 'grassDry', bush: 'grassDry' })
   }
 
   render(renderer: WebGLRenderer) {
+    for (const index of this.bakeScheduler.prioritise(
+      this._renderQueue,
+      this._cancelledIndices
+    )) {
+      this.cancelIndex(index)
+    }
     if (this._renderQueue.length > 0) {
       const oldViewport = new Vector4()
       const oldScissor = new Vector4()
       renderer.setClearAlpha(0)
       renderer.getViewport(oldViewport)
       renderer.getScissor(oldScissor)
-      let duration = 0
       let count = 0
+      this.bakeScheduler.beginFrame()
       const backupPixelRatio = renderer.getPixelRatio()
       renderer.setPixelRatio(1)
       for (const index of this._renderQueue) {
         count++
         const startTime = performance.now()
-        const iCol = index % this._tilesPerEdge
-        const iRow = ~~(index / this._tilesPerEdge)
+        const iCol = this.getSlotColumn(index)
+        const iRow = this.getSlotRow(index)
         const visualProps = this._tileRegistry[index]
         const layer2 = !!(visualProps[0] & 1)
+        const palette =
+          this.palettes.get(visualProps[visualProps.length - 1]) || __noPalette
 
         for (let j = 0; j < this._indexedMeshes.length; j++) {
           const jb = ~~(j / 8)
@@ -1464,7 +1239,7 @@ export default class MapTileMaker extends DoubleCachedTileMaker {
 
         // this._scene.updateMatrixWorld(true)
         for (const pass of this._passes) {
-          renderer.setRenderTarget(this._renderTargets.get(pass)!)
+          renderer.setRenderTarget(this.getRenderTarget(pass, index))
           const p = this._pixelsPerTile
           const depthPass = pass === 'customTopDownHeight'
           if (layer2 && depthPass) {
@@ -1473,7 +1248,7 @@ export default class MapTileMaker extends DoubleCachedTileMaker {
           renderer.setViewport(iCol * p, iRow * p, p, p)
           renderer.setScissor(iCol * p, iRow * p, p, p)
           renderer.setScissorTest(true)
-          changeMeshMaterials(this._scene, pass, true)
+          changeMeshMaterials(this._scene, pass, true, palette)
           renderer.clear(true, true, false)
           renderer.render(
             this._scene,
@@ -1487,20 +1262,23 @@ export default class MapTileMaker extends DoubleCachedTileMaker {
         if (mergedSnow) {
           this._scene.remove(mergedSnow)
         }
-        duration += performance.now() - startTime
+        const withinBudget = this.bakeScheduler.recordBake(
+          index,
+          performance.now() - startTime
+        )
         this.notifyThatNewTileIsMade(index)
-        if (duration > 100) {
+        if (!withinBudget) {
           break
         }
       }
       renderer.setPixelRatio(backupPixelRatio)
-      console.log(duration)
       renderer.setViewport(oldViewport)
       renderer.setScissor(oldScissor)
       renderer.setRenderTarget(null)
       renderer.setClearAlpha(1)
       renderer.setScissorTest(false)
       this._renderQueue.splice(0, count)
+      this.bakeScheduler.endFrame(this._renderQueue.length)
     }
   }
   notifyThatNewTileIsMade(index: number) {
@@ -0,0 +1,310 @@
+import { MetaTile, NamedMetaBits } from './metaTiles'
+
+export type MetaConstraintContext = {
+  x: number
+  y: number
+  //the value before any constraint was applied
+  initial: NamedMetaBits
+  sampleMetaRaw: (x: number, y: number) => NamedMetaBits
+}
+
+export type MetaConstraint = {
+  //the constraint only applies to tiles that have this bit
+  bit: MetaTile
+  //higher priorities are applied first, equal priorities in the order they were added
+  priority: number
+  //skipped unless all of these are present
+  when?: MetaTile[]
+  //clears everything except the bit itself, the kept bits and the initially kept bits
+  resets?: { keep?: MetaTile[]; keepInitial?: MetaTile[] }
+  //the bit is removed unless all of these are present
+  requires?: MetaTile[]
+  //the bit is removed if any of these are present
+  excludes?: MetaTile[]
+  //these are removed while the bit is present
+  overrides?: MetaTile[]
+  //these are added while the bit is present
+  implies?: MetaTile[]
+  resolve?: (val: NamedMetaBits, context: MetaConstraintContext) => void
+}
+
+export type MetaConstraintConflict = {
+  constraint: MetaConstraint
+  other?: MetaConstraint
+  reason: string
+}
+
+const neighbourOffsets8 = [
+  [1, 0],
+  [-1, 0],
+  [0, 1],
+  [0, -1],
+  [1, 1],
+  [1, -1],
+  [-1, 1],
+  [-1, -1]
+]
+
+const trees: MetaTile[] = ['treePine', 'treeMaple']
+
+export const defaultMetaConstraints: MetaConstraint[] = [
+  {
+    bit: 'water',
+    priority: 1000,
+    //only open water stays water, shores fall back to the ground underneath
+    resolve: (val, { x, y, initial, sampleMetaRaw }) => {
+      val.value = 0
+      if (initial.has('rocks')) {
+        val.enableBit('rocks')
+      }
+      if (
+        neighbourOffsets8.every(([ox, oy]) =>
+          sampleMetaRaw(x + ox, y + oy).has('water')
+        )
+      ) {
+        val.enableBit('water')
+      } else {
+        if (initial.has('sand')) {
+          val.enableBit('sand')
+        }
+        if (initial.has('dirt')) {
+          val.enableBit(initial.has('beach') ? 'sand' : 'dirt')
+        }
+      }
+    }
+  },
+  { bit: 'sand', priority: 950, overrides: ['dirt', 'grass'] },
+  {
+    bit: 'water',
+    priority: 900,
+    overrides: ['floor', 'logWall', 'beam', 'bricks']
+  },
+  {
+    bit: 'floor',
+    priority: 850,
+    overrides: ['grass', 'sand'],
+    implies: ['dirt']
+  },
+  { bit: 'beam', priority: 800, requires: ['floor'] },
+  { bit: 'logWall', priority: 790, requires: ['floor'], excludes: ['beam'] },
+  { bit: 'grass', priority: 780, excludes: ['beam', 'floor'] },
+  { bit: 'bricks', priority: 770, requires: ['beam'] },
+  { bit: 'bush', priority: 760, requires: ['grass'], excludes: ['floor'] },
+  { bit: 'testObject', priority: 750, excludes: ['bush', 'pyramid'] },
+  {
+    bit: 'lampPost',
+    priority: 740,
+    excludes: ['beam', 'logWall', 'bush', 'bricks', 'goldPile', 'testObject']
+  },
+  {
+    bit: 'pyramid',
+    priority: 730,
+    requires: ['floor'],
+    excludes: ['bush', 'beam', 'logWall', 'lampPost', 'grass', 'goldPile']
+  },
+  {
+    bit: 'rockyGround',
+    priority: 720,
+    excludes: [
+      'beam',
+      'logWall',
+      'bush',
+      'floor',
+      'grass',
+      'bricks',
+      'goldPile',
+      'testObject'
+    ]
+  },
+  {
+    bit: 'goldPile',
+    priority: 710,
+    excludes: ['bush', 'beam', 'logWall', ...trees, 'lampPost']
+  },
+  {
+    bit: 'rocks',
+    priority: 600,
+    resets: {
+      keep: ['harvested'],
+      keepInitial: [
+        'goldOreForRocks',
+        'silverOreForRocks',
+        'ironOreForRocks',
+        'copperOreForRocks'
+      ]
+    },
+    implies: ['dirt']
+  },
+  {
+    bit: 'goldOreForRocks',
+    priority: 590,
+    when: ['rocks'],
+    excludes: ['copperOreForRocks', 'ironOreForRocks']
+  },
+  {
+    bit: 'silverOreForRocks',
+    priority: 590,
+    when: ['rocks'],
+    excludes: ['copperOreForRocks', 'ironOreForRocks']
+  },
+  { bit: 'bush', priority: 500, excludes: trees },
+  { bit: 'testObject', priority: 500, excludes: trees },
+  {
+    bit: 'treePine',
+    priority: 400,
+    requires: ['grass'],
+    excludes: ['lampPost']
+  },
+  {
+    bit: 'treeMaple',
+    priority: 400,
+    requires: ['grass'],
+    excludes: ['lampPost', 'treePine']
+  }
+]
+
+export default class MetaConstraintSolver {
+  private _constraints: MetaConstraint[] = []
+  get constraints(): readonly MetaConstraint[] {
+    return this._constraints
+  }
+  constructor(constraints: MetaConstraint[] = defaultMetaConstraints) {
+    for (const constraint of constraints) {
+      this.add(constraint)
+    }
+    this.assertNoConflicts()
+  }
+  add(constraint: MetaConstraint) {
+    let i = this._constraints.length
+    while (i > 0 && this._constraints[i - 1].priority < constraint.priority) {
+      i--
+    }
+    this._constraints.splice(i, 0, constraint)
+    return this
+  }
+  remove(constraint: MetaConstraint) {
+    const i = this._constraints.indexOf(constraint)
+    if (i !== -1) {
+      this._constraints.splice(i, 1)
+    }
+    return this
+  }
+  solve(
+    val: NamedMetaBits,
+    x: number,
+    y: number,
+    sampleMetaRaw: (x: number, y: number) => NamedMetaBits
+  ) {
+    const context: MetaConstraintContext = {
+      x,
+      y,
+      initial: val.clone(),
+      sampleMetaRaw
+    }
+    for (const constraint of this._constraints) {
+      this.apply(constraint, val, context)
+    }
+    return val
+  }
+  findConflicts() {
+    const conflicts: MetaConstraintConflict[] = []
+    for (const constraint of this._constraints) {
+      const { bit, requires = [], excludes = [], implies = [] } = constraint
+      const overrides = constraint.overrides || []
+      for (const name of requires) {
+        if (excludes.includes(name) || overrides.includes(name)) {
+          conflicts.push({
+            constraint,
+            reason: `"${bit}" both requires and removes "${name}"`
+          })
+        }
+      }
+      for (const name of implies) {
+        if (excludes.includes(name) || overrides.includes(name)) {
+          conflicts.push({
+            constraint,
+            reason: `"${bit}" both implies and removes "${name}"`
+          })
+        }
+      }
+      for (const other of this._constraints) {
+        if (other === constraint) {
+          continue
+        }
+        const otherRemoves = (other.excludes || []).concat(
+          other.overrides || []
+        )
+        for (const name of implies) {
+          if (other.bit === name && otherRemoves.includes(bit)) {
+            conflicts.push({
+              constraint,
+              other,
+              reason: `"${bit}" implies "${name}" but "${name}" removes "${bit}"`
+            })
+          }
+        }
+        for (const name of requires) {
+          if (other.bit === name && (other.overrides || []).includes(bit)) {
+            conflicts.push({
+              constraint,
+              other,
+              reason: `"${bit}" requires "${name}" but "${name}" overrides "${bit}"`
+            })
+          }
+        }
+      }
+    }
+    return conflicts
+  }
+  assertNoConflicts() {
+    const conflicts = this.findConflicts()
+    if (conflicts.length > 0) {
+      throw new Error(
+        `Conflicting meta constraints:\n${conflicts
+          .map((c) => c.reason)
+          .join('\n')}`
+      )
+    }
+  }
+  private apply(
+    constraint: MetaConstraint,
+    val: NamedMetaBits,
+    context: MetaConstraintContext
+  ) {
+    if (!val.has(constraint.bit)) {
+      return
+    }
+    if (constraint.when && !constraint.when.every((name) => val.has(name))) {
+      return
+    }
+    if (constraint.resets) {
+      const { keep = [], keepInitial = [] } = constraint.resets
+      const kept = val.makeFastMultiMask(keep.filter((name) => val.has(name)))
+      const keptInitial = val.makeFastMultiMask(
+        keepInitial.filter((name) => context.initial.has(name))
+      )
+      val.value = kept | keptInitial | val.makeFastMask(constraint.bit)
+    }
+    if (
+      (constraint.requires &&
+        !constraint.requires.every((name) => val.has(name))) ||
+      (constraint.excludes && constraint.excludes.some((name) => val.has(name)))
+    ) {
+      val.disableBit(constraint.bit)
+      return
+    }
+    if (constraint.overrides) {
+      for (const name of constraint.overrides) {
+        val.disableBit(name)
+      }
+    }
+    if (constraint.implies) {
+      for (const name of constraint.implies) {
+        val.enableBit(name)
+      }
+    }
+    if (constraint.resolve) {
+      constraint.resolve(val, context)
+    }
+  }
+}
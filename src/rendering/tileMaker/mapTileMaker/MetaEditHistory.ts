@@ -0,0 +1,172 @@
+import JITTileSampler from './JITTileSampler'
+
+export type MetaEdit = {
+  x: number
+  y: number
+  before: number
+  after: number
+}
+
+export type MetaEditTransaction = {
+  label: string
+  //one edit per tile, in the order the tiles were first touched
+  edits: MetaEdit[]
+}
+
+type OpenTransaction = MetaEditTransaction & {
+  editsByTile: Map<string, MetaEdit>
+}
+
+//records every JITTileSampler.writeMeta so edits can be undone and redone
+export default class MetaEditHistory {
+  private _undoStack: MetaEditTransaction[] = []
+  private _redoStack: MetaEditTransaction[] = []
+  private _open: OpenTransaction | undefined
+  private _depth = 0
+  private _applying = false
+  private _editCount = 0
+  private _changeListeners: Array<() => void> = []
+  get canUndo() {
+    return this._undoStack.length > 0
+  }
+  get canRedo() {
+    return this._redoStack.length > 0
+  }
+  get undoLabel() {
+    const transaction = this._undoStack[this._undoStack.length - 1]
+    return transaction ? transaction.label : undefined
+  }
+  get redoLabel() {
+    const transaction = this._redoStack[this._redoStack.length - 1]
+    return transaction ? transaction.label : undefined
+  }
+  //tile edits kept across both stacks, the oldest transactions are dropped past this
+  get editCount() {
+    return this._editCount
+  }
+  constructor(private _sampler: JITTileSampler, public maxEdits = 10000) {
+    _sampler.onMetaWritten(this.onMetaWritten)
+  }
+  onChange(cb: () => void) {
+    this._changeListeners.push(cb)
+  }
+  //transactions can nest, edits are grouped until the outermost one ends
+  beginTransaction(label = 'edit') {
+    if (this._depth === 0) {
+      this._open = { label, edits: [], editsByTile: new Map() }
+    }
+    this._depth++
+  }
+  endTransaction() {
+    if (this._depth === 0) {
+      throw new Error('No transaction to end')
+    }
+    this._depth--
+    if (this._depth > 0) {
+      return
+    }
+    const open = this._open!
+    this._open = undefined
+    const edits = open.edits.filter((edit) => edit.before !== edit.after)
+    if (edits.length === 0) {
+      return
+    }
+    this._undoStack.push({ label: open.label, edits })
+    this._editCount += edits.length
+    this.clearRedo()
+    this.enforceLimit()
+    this.emitChange()
+  }
+  transact<T>(label: string, cb: () => T) {
+    this.beginTransaction(label)
+    try {
+      return cb()
+    } finally {
+      this.endTransaction()
+    }
+  }
+  undo() {
+    const transaction = this._undoStack.pop()
+    if (!transaction) {
+      return false
+    }
+    const edits = transaction.edits
+    for (let i = edits.length - 1; i >= 0; i--) {
+      this.apply(edits[i].x, edits[i].y, edits[i].before)
+    }
+    this._redoStack.push(transaction)
+    this.emitChange()
+    return true
+  }
+  redo() {
+    const transaction = this._redoStack.pop()
+    if (!transaction) {
+      return false
+    }
+    for (const edit of transaction.edits) {
+      this.apply(edit.x, edit.y, edit.after)
+    }
+    this._undoStack.push(transaction)
+    this.emitChange()
+    return true
+  }
+  clear() {
+    this._undoStack.length = 0
+    this._redoStack.length = 0
+    this._editCount = 0
+    this.emitChange()
+  }
+  private onMetaWritten = (
+    x: number,
+    y: number,
+    before: number,
+    after: number
+  ) => {
+    if (this._applying) {
+      return
+    }
+    if (this._open) {
+      const key = x + ':' + y
+      const edit = this._open.editsByTile.get(key)
+      if (edit) {
+        edit.after = after
+      } else {
+        const newEdit = { x, y, before, after }
+        this._open.editsByTile.set(key, newEdit)
+        this._open.edits.push(newEdit)
+      }
+    } else {
+      this.beginTransaction()
+      this._open!.edits.push({ x, y, before, after })
+      this.endTransaction()
+    }
+  }
+  //writes through the sampler so the change reaches dirtyMeta and the store
+  private apply(x: number, y: number, value: number) {
+    const meta = this._sampler.sampleMeta(x, y).clone()
+    meta.value = value
+    this._applying = true
+    try {
+      this._sampler.writeMeta(x, y, meta)
+    } finally {
+      this._applying = false
+    }
+  }
+  private clearRedo() {
+    for (const transaction of this._redoStack) {
+      this._editCount -= transaction.edits.length
+    }
+    this._redoStack.length = 0
+  }
+  private enforceLimit() {
+    //always keep the latest transaction, even if it alone is over the limit
+    while (this._editCount > this.maxEdits && this._undoStack.length > 1) {
+      this._editCount -= this._undoStack.shift()!.edits.length
+    }
+  }
+  private emitChange() {
+    for (const cb of this._changeListeners) {
+      cb()
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import TileActions, { TileEdit } from './TileActions'
+
+export type TileActionTarget = { x: number; y: number }
+
+//maps inputs of any kind (key codes, gamepad buttons, ui ids) to tile actions
+export default class TileActionInputBinder<T> {
+  private _bindings: Map<T, string> = new Map()
+  private _downInputs: Set<T> = new Set()
+  constructor(
+    private _actions: TileActions,
+    //the tile actions are performed on, e.g. the tile in front of the player
+    private _getTarget: () => TileActionTarget
+  ) {
+    //
+  }
+  bind(input: T, actionName: string) {
+    this._bindings.set(input, actionName)
+  }
+  unbind(input: T) {
+    this._bindings.delete(input)
+    this._downInputs.delete(input)
+  }
+  getBinding(input: T) {
+    return this._bindings.get(input)
+  }
+  //performs the bound action once per press, returns the edit if it changed anything
+  handleInput = (input: T, down: boolean): TileEdit | undefined => {
+    const actionName = this._bindings.get(input)
+    if (actionName === undefined) {
+      return undefined
+    }
+    const wasDown = this._downInputs.has(input)
+    if (!down) {
+      this._downInputs.delete(input)
+      return undefined
+    }
+    this._downInputs.add(input)
+    if (wasDown) {
+      return undefined
+    }
+    const target = this._getTarget()
+    return this._actions.perform(actionName, target.x, target.y)
+  }
+}
@@ -0,0 +1,139 @@
+import JITTileSampler from './JITTileSampler'
+import { NamedMetaBits } from './metaTiles'
+
+//edits the meta in place, returns false if there is nothing to do on this tile
+export type TileActionEditor = (meta: NamedMetaBits) => boolean
+
+export type TileEdit = {
+  action: string
+  x: number
+  y: number
+  before: number
+  after: number
+}
+
+export type TileEditListener = (edit: TileEdit) => void
+
+export const harvestTileEditor: TileActionEditor = (meta) => {
+  if (meta.has('harvested') && !meta.has('bush')) {
+    return false
+  }
+  meta.enableBit('harvested')
+  meta.disableBit('bush')
+  return true
+}
+
+//floor -> logWall -> beam -> bricks
+export const buildTileEditor: TileActionEditor = (meta) => {
+  if (!meta.has('floor')) {
+    meta.enableBit('floor')
+  } else if (!meta.has('logWall') && !meta.has('beam')) {
+    meta.enableBit('logWall')
+  } else if (!meta.has('beam')) {
+    meta.enableBit('beam')
+  } else if (!meta.has('bricks')) {
+    meta.enableBit('bricks')
+  } else {
+    return false
+  }
+  return true
+}
+
+//takes things down one at a time, walls get a window then a door before going
+export const unbuildTileEditor: TileActionEditor = (meta) => {
+  if (meta.has('lampPost')) {
+    meta.disableBit('lampPost')
+  } else if (meta.has('bricks')) {
+    meta.disableBit('bricks')
+  } else if (meta.has('beam')) {
+    meta.disableBit('beam')
+  } else if (meta.has('logWall') && !meta.has('window')) {
+    meta.enableBit('window')
+  } else if (meta.has('logWall') && meta.has('window') && !meta.has('door')) {
+    meta.enableBit('door')
+  } else if (meta.has('logWall')) {
+    meta.disableBit('logWall')
+    meta.disableBit('window')
+    meta.disableBit('door')
+  } else if (meta.has('floor')) {
+    meta.disableBit('floor')
+  } else {
+    return false
+  }
+  return true
+}
+
+export const placeLampPostTileEditor: TileActionEditor = (meta) => {
+  if (meta.has('lampPost')) {
+    return false
+  }
+  meta.enableBit('lampPost')
+  return true
+}
+
+export default class TileActions {
+  private _editors: Map<string, TileActionEditor> = new Map()
+  private _editListeners: TileEditListener[] = []
+  get actionNames() {
+    return Array.from(this._editors.keys())
+  }
+  constructor(private _sampler: JITTileSampler) {
+    this.register('harvest', harvestTileEditor)
+    this.register('build', buildTileEditor)
+    this.register('unbuild', unbuildTileEditor)
+    this.register('placeLampPost', placeLampPostTileEditor)
+  }
+  register(name: string, editor: TileActionEditor) {
+    this._editors.set(name, editor)
+  }
+  //called for every performed, undone or redone edit
+  listenForEdits(listener: TileEditListener) {
+    this._editListeners.push(listener)
+  }
+  //the meta the action would write, undefined if it would change nothing once validated
+  preview(name: string, x: number, y: number) {
+    const editor = this._editors.get(name)
+    if (!editor) {
+      throw new Error(`Unknown tile action: ${name}`)
+    }
+    const current = this._sampler.sampleMeta(x, y)
+    const meta = current.clone()
+    if (!editor(meta)) {
+      return undefined
+    }
+    this._sampler.validateMeta(meta, x, y)
+    return meta.value !== current.value ? meta : undefined
+  }
+  canPerform(name: string, x: number, y: number) {
+    return !!this.preview(name, x, y)
+  }
+  perform(name: string, x: number, y: number): TileEdit | undefined {
+    const meta = this.preview(name, x, y)
+    if (!meta) {
+      return undefined
+    }
+    const before = this._sampler.sampleMeta(x, y).value
+    this._sampler.writeMeta(x, y, meta)
+    const edit: TileEdit = { action: name, x, y, before, after: meta.value }
+    this.emitEdit(edit)
+    return edit
+  }
+  undo(edit: TileEdit) {
+    this.writeValue(edit.x, edit.y, edit.before)
+    this.emitEdit({ ...edit, before: edit.after, after: edit.before })
+  }
+  redo(edit: TileEdit) {
+    this.writeValue(edit.x, edit.y, edit.after)
+    this.emitEdit(edit)
+  }
+  private writeValue(x: number, y: number, value: number) {
+    const meta = this._sampler.sampleMeta(x, y).clone()
+    meta.value = value
+    this._sampler.writeMeta(x, y, meta)
+  }
+  private emitEdit(edit: TileEdit) {
+    for (const listener of this._editListeners) {
+      listener(edit)
+    }
+  }
+}
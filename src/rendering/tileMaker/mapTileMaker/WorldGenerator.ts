@@ -0,0 +1,110 @@
+import AdditiveGroupHelper2D from '../../../helpers/utils/AdditiveGroupHelper2D'
+import BoxFilterHelper2D from '../../../helpers/utils/BoxFilterHelper2D'
+import ClampHelper2D from '../../../helpers/utils/ClampHelper2D'
+import IHelper2D from '../../../helpers/utils/IHelper2D'
+import InvertHelper2D from '../../../helpers/utils/InvertHelper2D'
+import NoiseHelper2D from '../../../helpers/utils/NoiseHelper2D'
+import StepHelper2D from '../../../helpers/utils/StepHelper2D'
+import { MetaTile, metaTileStrings } from './metaTiles'
+
+export type NoiseConfig =
+  | {
+      type: 'noise'
+      scale: number
+      offsetX?: number
+      offsetY?: number
+      strength?: number
+      offset?: number
+    }
+  | { type: 'add'; layers: NoiseConfig[] }
+  | { type: 'step'; source: NoiseConfig; threshold: number }
+  | { type: 'invert'; source: NoiseConfig }
+  | { type: 'clamp'; source: NoiseConfig; min?: number; max?: number }
+  //zero outside of the box, in tiles
+  | { type: 'box'; source: NoiseConfig; min?: number; max?: number }
+
+export type MetaLayerConfig = {
+  noise: NoiseConfig
+  //the meta bit is set where the noise is above this
+  threshold: number
+  enabled?: boolean
+}
+
+export type WorldGeneratorConfig = {
+  //together with the seed, keeps the edits of different worlds apart
+  name: string
+  seed: number
+  layers: { [K in MetaTile]?: MetaLayerConfig }
+}
+
+function makeNoiseHelper(config: NoiseConfig, seed: number): IHelper2D {
+  switch (config.type) {
+    case 'noise':
+      return new NoiseHelper2D(
+        config.scale,
+        config.offsetX,
+        config.offsetY,
+        seed,
+        config.strength,
+        config.offset
+      )
+    case 'add':
+      return new AdditiveGroupHelper2D(
+        config.layers.map((layer) => makeNoiseHelper(layer, seed))
+      )
+    case 'step':
+      return new StepHelper2D(
+        makeNoiseHelper(config.source, seed),
+        config.threshold
+      )
+    case 'invert':
+      return new InvertHelper2D(makeNoiseHelper(config.source, seed))
+    case 'clamp':
+      return new ClampHelper2D(
+        makeNoiseHelper(config.source, seed),
+        config.min,
+        config.max
+      )
+    case 'box':
+      return new BoxFilterHelper2D(
+        makeNoiseHelper(config.source, seed),
+        config.min,
+        config.max
+      )
+  }
+}
+
+export default class WorldGenerator {
+  //indexed by meta bit, undefined for layers that are never generated
+  private _layers: (IHelper2D | undefined)[]
+  get seed() {
+    return this.config.seed
+  }
+  get namespace() {
+    return `${this.config.name}:${this.config.seed}`
+  }
+  constructor(public readonly config: WorldGeneratorConfig) {
+    this._layers = metaTileStrings.map((name) => {
+      const layer = config.layers[name]
+      return layer && layer.enabled !== false
+        ? new StepHelper2D(
+            makeNoiseHelper(layer.noise, config.seed),
+            layer.threshold
+          )
+        : undefined
+    })
+  }
+  getValue(x: number, y: number) {
+    let value = 0
+    for (let j = 0; j < this._layers.length; j++) {
+      const layer = this._layers[j]
+      if (layer) {
+        value += layer.getValue(x, y) << j
+      }
+    }
+    return value
+  }
+  withSeed(seed: number) {
+    return new WorldGenerator({ ...this.config, seed })
+  }
+}
@@ -0,0 +1,287 @@
+import { strict as assert } from 'node:assert'
+import { describe, it } from 'node:test'
+import NamedBitsInNumber from '../../../../helpers/utils/NamedBitsInNumber'
+import MetaConstraintSolver, {
+  defaultMetaConstraints
+} from '../MetaConstraintSolver'
+import { metaTileStrings, NamedMetaBits } from '../metaTiles'
+import WorldGenerator from '../WorldGenerator'
+import { worldGeneratorPresets } from '../worldGeneratorPresets'
+
+type SampleMetaRaw = (x: number, y: number) => NamedMetaBits
+
+//JITTileSampler.validateMeta as it was before the constraint table, kept to compare against
+function legacyValidateMeta(
+  val: NamedMetaBits,
+  x: number,
+  y: number,
+  sampleMetaRaw: SampleMetaRaw
+) {
+  const hasRocks = val.has('rocks')
+  const hasSand = val.has('sand')
+  const hasBeach = val.has('beach')
+  const hasDirt = val.has('dirt')
+  const hasGold = val.has('goldOreForRocks')
+  const hasSilver = val.has('silverOreForRocks')
+  const hasIron = val.has('ironOreForRocks')
+  const hasCopper = val.has('copperOreForRocks')
+
+  if (val.has('water')) {
+    val.value = 0
+    if (hasRocks) {
+      val.enableBit('rocks')
+    }
+    if (
+      sampleMetaRaw(x + 1, y).has('water') &&
+      sampleMetaRaw(x - 1, y).has('water') &&
+      sampleMetaRaw(x, y + 1).has('water') &&
+      sampleMetaRaw(x, y - 1).has('water') &&
+      sampleMetaRaw(x + 1, y + 1).has('water') &&
+      sampleMetaRaw(x + 1, y - 1).has('water') &&
+      sampleMetaRaw(x - 1, y + 1).has('water') &&
+      sampleMetaRaw(x - 1, y - 1).has('water')
+    ) {
+      val.enableBit('water')
+    } else {
+      if (hasSand) {
+        val.enableBit('sand')
+      }
+      if (hasDirt) {
+        if (hasBeach) {
+          val.enableBit('sand')
+        } else {
+          val.enableBit('dirt')
+        }
+      }
+    }
+  }
+
+  if (val.has('sand')) {
+    val.disableBit('dirt')
+    val.disableBit('grass')
+  }
+
+  if (val.has('water')) {
+    val.disableBit('floor')
+    val.disableBit('logWall')
+    val.disableBit('beam')
+    val.disableBit('bricks')
+  }
+
+  if (val.has('floor')) {
+    val.disableBit('grass')
+    val.disableBit('sand')
+    val.enableBit('dirt')
+  }
+
+  if (!val.has('floor') && val.has('beam')) {
+    val.flipBit('beam')
+  }
+  if (!val.has('floor') && val.has('logWall')) {
+    val.flipBit('logWall')
+  }
+  if (val.has('beam') && val.has('logWall')) {
+    val.flipBit('logWall')
+  }
+  if (val.has('beam') && val.has('grass')) {
+    val.flipBit('grass')
+  }
+  if (!val.has('beam') && val.has('bricks')) {
+    val.flipBit('bricks')
+  }
+  if (val.has('floor') && val.has('grass')) {
+    val.flipBit('grass')
+  }
+  if (val.has('floor') && val.has('bush')) {
+    val.flipBit('bush')
+  }
+  if (!val.has('grass') && val.has('bush')) {
+    val.flipBit('bush')
+  }
+  if (val.has('testObject') && (val.has('bush') || val.has('pyramid'))) {
+    val.flipBit('testObject')
+  }
+  if (
+    val.has('lampPost') &&
+    (val.has('beam') ||
+      val.has('logWall') ||
+      val.has('bush') ||
+      val.has('bricks') ||
+      val.has('goldPile') ||
+      val.has('testObject'))
+  ) {
+    val.flipBit('lampPost')
+  }
+
+  if (
+    val.has('pyramid') &&
+    (val.has('bush') ||
+      val.has('beam') ||
+      val.has('logWall') ||
+      val.has('lampPost') ||
+      val.has('grass') ||
+      !val.has('floor') ||
+      val.has('goldPile'))
+  ) {
+    val.flipBit('pyramid')
+  }
+
+  if (
+    val.has('rockyGround') &&
+    (val.has('beam') ||
+      val.has('logWall') ||
+      val.has('bush') ||
+      val.has('floor') ||
+      val.has('grass') ||
+      val.has('bricks') ||
+      val.has('goldPile') ||
+      val.has('testObject'))
+  ) {
+    val.flipBit('rockyGround')
+  }
+
+  if (
+    val.has('goldPile') &&
+    (val.has('bush') ||
+      val.has('beam') ||
+      val.has('logWall') ||
+      val.has('treePine') ||
+      val.has('treeMaple') ||
+      val.has('lampPost'))
+  ) {
+    val.flipBit('goldPile')
+  }
+
+  if (hasRocks) {
+    const wasHarvested = val.has('harvested')
+    val.value = 0
+    if (val.has('sand')) {
+      val.enableBit('sand')
+    } else {
+      val.enableBit('dirt')
+    }
+    val.flipBit('rocks')
+    if (hasGold && !hasCopper && !hasIron) {
+      val.flipBit('goldOreForRocks')
+    }
+    if (hasSilver && !hasCopper && !hasIron) {
+      val.flipBit('silverOreForRocks')
+    }
+    if (hasIron) {
+      val.flipBit('ironOreForRocks')
+    }
+    if (hasCopper) {
+      val.flipBit('copperOreForRocks')
+    }
+    if (wasHarvested) {
+      val.flipBit('harvested')
+    }
+  }
+
+  const hasAnyTree = val.has('treePine') || val.has('treeMaple')
+
+  if (hasAnyTree && val.has('bush')) {
+    val.flipBit('bush')
+  }
+  if (hasAnyTree && val.has('goldPile')) {
+    val.flipBit('goldPile')
+  }
+  if (hasAnyTree && val.has('testObject')) {
+    val.flipBit('testObject')
+  }
+  if (val.has('lampPost') || !val.has('grass')) {
+    if (val.has('treePine')) {
+      val.flipBit('treePine')
+    }
+    if (val.has('treeMaple')) {
+      val.flipBit('treeMaple')
+    }
+  }
+
+  if (val.has('treePine') && val.has('treeMaple')) {
+    val.flipBit('treeMaple')
+  }
+
+  return val
+}
+
+function mulberry32(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function assertSameAsLegacy(
+  solver: MetaConstraintSolver,
+  getValue: (x: number, y: number) => number,
+  radius: number
+) {
+  const sampleMetaRaw: SampleMetaRaw = (x, y) =>
+    new NamedBitsInNumber(getValue(x, y), metaTileStrings)
+  for (let y = -radius; y <= radius; y++) {
+    for (let x = -radius; x <= radius; x++) {
+      const raw = getValue(x, y)
+      const expected = legacyValidateMeta(
+        new NamedBitsInNumber(raw, metaTileStrings),
+        x,
+        y,
+        sampleMetaRaw
+      ).value
+      const actual = solver.solve(
+        new NamedBitsInNumber(raw, metaTileStrings),
+        x,
+        y,
+        sampleMetaRaw
+      ).value
+      assert.equal(actual, expected, `at ${x}:${y} from ${raw}`)
+    }
+  }
+}
+
+describe('MetaConstraintSolver', () => {
+  it('has no conflicts in the default constraints', () => {
+    assert.doesNotThrow(() => new MetaConstraintSolver())
+  })
+
+  it('matches the old validateMeta on every preset world', () => {
+    const solver = new MetaConstraintSolver()
+    for (const preset of Object.values(worldGeneratorPresets)) {
+      const generator = new WorldGenerator(preset).withSeed(1234)
+      assertSameAsLegacy(solver, (x, y) => generator.getValue(x, y), 48)
+    }
+  })
+
+  it('matches the old validateMeta on random bits', () => {
+    const solver = new MetaConstraintSolver()
+    const random = mulberry32(42)
+    const size = 65
+    const values: number[] = []
+    for (let i = 0; i < size * size; i++) {
+      //mostly water, so there is open water as well as shores
+      const water = random() < 0.9 ? 1 : 0
+      values.push((Math.floor(random() * 0x7fffffff) & ~1) | water)
+    }
+    const getValue = (x: number, y: number) =>
+      values[((y + size) % size) * size + ((x + size) % size)]
+    assertSameAsLegacy(solver, getValue, 32)
+  })
+
+  it('throws on a constraint that removes what it requires', () => {
+    assert.throws(
+      () =>
+        new MetaConstraintSolver([
+          ...defaultMetaConstraints,
+          {
+            bit: 'bush',
+            priority: 100,
+            requires: ['grass'],
+            excludes: ['grass']
+          }
+        ]),
+      /both requires and removes "grass"/
+    )
+  })
+})
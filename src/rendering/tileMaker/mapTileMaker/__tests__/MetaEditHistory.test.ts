@@ -0,0 +1,117 @@
+import { strict as assert } from 'node:assert'
+import { describe, it } from 'node:test'
+import MetaEditHistory from '../MetaEditHistory'
+import StubMetaSampler from './StubMetaSampler'
+
+function makeHistory(maxEdits?: number) {
+  const stub = new StubMetaSampler()
+  const history = new MetaEditHistory(stub.sampler, maxEdits)
+  return { stub, history }
+}
+
+function write(stub: StubMetaSampler, x: number, y: number, value: number) {
+  const meta = stub.sampleMeta(x, y)
+  meta.value = value
+  stub.writeMeta(x, y, meta)
+}
+
+describe('MetaEditHistory', () => {
+  it('groups nested transactions until the outermost one ends', () => {
+    const { stub, history } = makeHistory()
+    history.beginTransaction('outer')
+    write(stub, 0, 0, 1)
+    history.beginTransaction('inner')
+    write(stub, 1, 0, 2)
+    history.endTransaction()
+    assert.equal(history.canUndo, false)
+    write(stub, 2, 0, 3)
+    history.endTransaction()
+    assert.equal(history.undoLabel, 'outer')
+    assert.equal(history.editCount, 3)
+
+    history.undo()
+    assert.equal(history.canUndo, false)
+    assert.deepEqual(
+      [stub.getValue(0, 0), stub.getValue(1, 0), stub.getValue(2, 0)],
+      [0, 0, 0]
+    )
+    assert.throws(() => history.endTransaction(), /No transaction to end/)
+  })
+
+  it('merges writes to the same tile and undoes them to the first value', () => {
+    const { stub, history } = makeHistory()
+    write(stub, 3, 3, 4)
+    history.transact('drag', () => {
+      write(stub, 3, 3, 5)
+      write(stub, 4, 3, 1)
+      write(stub, 3, 3, 6)
+    })
+    assert.equal(history.editCount, 3)
+    history.undo()
+    assert.equal(stub.getValue(3, 3), 4)
+    assert.equal(stub.getValue(4, 3), 0)
+    history.redo()
+    assert.equal(stub.getValue(3, 3), 6)
+    assert.equal(stub.getValue(4, 3), 1)
+  })
+
+  it('drops transactions that end where they started', () => {
+    const { stub, history } = makeHistory()
+    history.transact('back and forth', () => {
+      write(stub, 0, 0, 2)
+      write(stub, 0, 0, 0)
+    })
+    assert.equal(history.canUndo, false)
+  })
+
+  it('does not record its own undos and redos', () => {
+    const { stub, history } = makeHistory()
+    write(stub, 0, 0, 1)
+    write(stub, 0, 0, 2)
+    history.undo()
+    assert.equal(stub.getValue(0, 0), 1)
+    assert.equal(history.undoLabel, 'edit')
+    assert.equal(history.canRedo, true)
+    history.undo()
+    assert.equal(stub.getValue(0, 0), 0)
+    assert.equal(history.canUndo, false)
+  })
+
+  it('clears the redo stack on a new edit', () => {
+    const { stub, history } = makeHistory()
+    history.transact('a', () => write(stub, 0, 0, 1))
+    history.transact('b', () => write(stub, 1, 0, 1))
+    history.undo()
+    assert.equal(history.redoLabel, 'b')
+    history.transact('c', () => write(stub, 2, 0, 1))
+    assert.equal(history.canRedo, false)
+    assert.equal(history.redo(), false)
+    assert.equal(history.editCount, 2)
+    assert.equal(stub.getValue(1, 0), 0)
+    history.undo()
+    assert.equal(history.undoLabel, 'a')
+  })
+
+  it('drops the oldest transactions past the edit limit, but never the latest', () => {
+    const { stub, history } = makeHistory(3)
+    history.transact('a', () => write(stub, 0, 0, 1))
+    history.transact('b', () => write(stub, 1, 0, 1))
+    history.transact('c', () => {
+      write(stub, 2, 0, 1)
+      write(stub, 3, 0, 1)
+    })
+    assert.equal(history.editCount, 3)
+    history.undo()
+    assert.equal(history.undoLabel, 'b')
+    history.undo()
+    assert.equal(history.canUndo, false)
+
+    history.transact('big', () => {
+      for (let x = 0; x < 5; x++) {
+        write(stub, x, 1, 1)
+      }
+    })
+    assert.equal(history.undoLabel, 'big')
+    assert.equal(history.editCount, 5)
+  })
+})
@@ -0,0 +1,37 @@
+import NamedBitsInNumber from '../../../../helpers/utils/NamedBitsInNumber'
+import JITTileSampler from '../JITTileSampler'
+import { metaTileStrings, NamedMetaBits } from '../metaTiles'
+
+type MetaWrittenListener = (
+  x: number,
+  y: number,
+  before: number,
+  after: number
+) => void
+
+//just the meta reads and writes of JITTileSampler, every tile starts out empty
+export default class StubMetaSampler {
+  writes = 0
+  private _values: Map<string, number> = new Map()
+  private _listeners: MetaWrittenListener[] = []
+  get sampler() {
+    return this as unknown as JITTileSampler
+  }
+  sampleMeta(x: number, y: number): NamedMetaBits {
+    return new NamedBitsInNumber(this.getValue(x, y), metaTileStrings)
+  }
+  writeMeta(x: number, y: number, meta: NamedMetaBits) {
+    const before = this.getValue(x, y)
+    this._values.set(x + ':' + y, meta.value)
+    this.writes++
+    for (const cb of this._listeners) {
+      cb(x, y, before, meta.value)
+    }
+  }
+  onMetaWritten(cb: MetaWrittenListener) {
+    this._listeners.push(cb)
+  }
+  getValue(x: number, y: number) {
+    return this._values.get(x + ':' + y) || 0
+  }
+}
@@ -0,0 +1,284 @@
+import { MetaTile, NamedMetaBits } from './metaTiles'
+
+export const neighbourStrings = [
+  'C',
+  'N',
+  'NE',
+  'E',
+  'SE',
+  'S',
+  'SW',
+  'W',
+  'NW'
+] as const
+
+export type Neighbour = typeof neighbourStrings[number]
+
+export const neighbourOffsets: { [K in Neighbour]: [number, number] } = {
+  C: [0, 0],
+  N: [0, -1],
+  NE: [1, -1],
+  E: [1, 0],
+  SE: [1, 1],
+  S: [0, 1],
+  SW: [-1, 1],
+  W: [-1, 0],
+  NW: [-1, -1]
+}
+
+export type Neighbourhood = { [K in Neighbour]: NamedMetaBits }
+
+//8-neighbour bitmask, i.e. grassC, grassN, grassNE...
+//diagonals only connect when both adjacent cardinals connect too
+export type Neighbours8Rule = {
+  type: 'neighbours8'
+  meta: MetaTile
+  prefix: string
+  //any involved tile with this meta swaps the piece to the alternate prefix
+  alternate?: { meta: MetaTile; prefix: string }
+  //enabled when all four cardinals connect and no alternate is involved
+  full?: string
+}
+
+//a piece per neighbour that has the meta, for things that spill over tile edges like trees
+export type SpillRule = {
+  type: 'spill'
+  meta: MetaTile
+  prefix: string
+  //neighbours with this meta do not spill, the center shows the stump instead
+  unless?: MetaTile
+  stump?: string
+  //appended to the prefix (and stump) when the spilling tile has the meta
+  variant?: { meta: MetaTile; suffix: string }
+}
+
+//4 quads per tile with a 4 bit height code each, see makeSandQuad/makeDirtQuad
+export type QuadCornerRule = {
+  type: 'quadCorner'
+  meta: MetaTile
+  prefix: string
+}
+
+//16 tiles keyed by which of the 4 tile corners are fully surrounded by the meta
+export type Wang2CornerRule = {
+  type: 'wang2Corner'
+  meta: MetaTile
+  prefix: string
+}
+
+export type AutoTileRule =
+  | Neighbours8Rule
+  | SpillRule
+  | QuadCornerRule
+  | Wang2CornerRule
+
+export type VisualBitTarget = {
+  enableBit(name: string): void
+}
+
+const cardinals = ['N', 'E', 'S', 'W'] as const
+const diagonals = [
+  ['NE', 'N', 'E'],
+  ['SE', 'S', 'E'],
+  ['SW', 'S', 'W'],
+  ['NW', 'N', 'W']
+] as const
+const spillOrder = ['C', 'E', 'W', 'N', 'S', 'NE', 'SW', 'NW', 'SE'] as const
+
+function applyNeighbours8(
+  rule: Neighbours8Rule,
+  n: Neighbourhood,
+  target: VisualBitTarget
+) {
+  const mask = n.C.makeFastMask(rule.meta)
+  if (!n.C.hasFast(mask)) {
+    return
+  }
+  const alternateMask = rule.alternate
+    ? n.C.makeFastMask(rule.alternate.meta)
+    : 0
+  const isAlternate = (...dirs: Neighbour[]) =>
+    rule.alternate !== undefined &&
+    dirs.some((dir) => n[dir].hasFast(alternateMask))
+  const pieceName = (dir: Neighbour, ...involved: Neighbour[]) =>
+    `${
+      isAlternate('C', ...involved) ? rule.alternate!.prefix : rule.prefix
+    }${dir}`
+
+  target.enableBit(pieceName('C'))
+  for (const dir of cardinals) {
+    if (n[dir].hasFast(mask)) {
+      target.enableBit(pieceName(dir, dir))
+    }
+  }
+  for (const [dir, a, b] of diagonals) {
+    if (n[dir].hasFast(mask) && n[a].hasFast(mask) && n[b].hasFast(mask)) {
+      target.enableBit(pieceName(dir, dir, a, b))
+    }
+  }
+  if (
+    rule.full &&
+    cardinals.every((dir) => n[dir].hasFast(mask)) &&
+    !isAlternate('C', ...cardinals)
+  ) {
+    target.enableBit(rule.full)
+  }
+}
+
+function applySpill(
+  rule: SpillRule,
+  n: Neighbourhood,
+  target: VisualBitTarget
+) {
+  const mask = n.C.makeFastMask(rule.meta)
+  const unlessMask = rule.unless ? n.C.makeFastMask(rule.unless) : 0
+  const variantMask = rule.variant ? n.C.makeFastMask(rule.variant.meta) : 0
+  const variantOf = (meta: NamedMetaBits) =>
+    rule.variant && meta.hasFast(variantMask) ? rule.variant.suffix : ''
+  for (const dir of spillOrder) {
+    const meta = n[dir]
+    if (meta.hasFast(mask) && !(unlessMask && meta.hasFast(unlessMask))) {
+      target.enableBit(`${rule.prefix}${variantOf(meta)}${dir}`)
+    }
+  }
+  if (
+    rule.stump &&
+    n.C.hasFast(mask) &&
+    unlessMask &&
+    n.C.hasFast(unlessMask)
+  ) {
+    target.enableBit(`${rule.stump}${variantOf(n.C)}`)
+  }
+}
+
+//returns true when the family leaves part of the tile open
+function applyQuadCorner(
+  rule: QuadCornerRule,
+  n: Neighbourhood,
+  target: VisualBitTarget
+) {
+  const mask = n.C.makeFastMask(rule.meta)
+  const has = (dir: Neighbour) => n[dir].hasFast(mask)
+  let open = false
+  let c = false
+  let ne = false
+  let se = false
+  let sw = false
+  let nw = false
+  let north = has('N')
+  let south = has('S')
+  let east = has('E')
+  let west = has('W')
+  if (has('C')) {
+    c = ne = se = sw = nw = north = south = east = west = true
+    if (!(has('N') || has('E'))) {
+      ne = false
+      open = true
+    }
+    if (!(has('S') || has('E'))) {
+      se = false
+      open = true
+    }
+    if (!(has('N') || has('W'))) {
+      nw = false
+      open = true
+    }
+    if (!(has('S') || has('W'))) {
+      sw = false
+      open = true
+    }
+  } else {
+    open = true
+    ne = has('NE') && (north || east)
+    sw = has('SW') && (south || west)
+    se = has('SE') && (south || east)
+    nw = has('NW') && (north || west)
+  }
+  const quads = [
+    [nw, north, west, c], //nw
+    [north, ne, c, east], //ne
+    [west, c, sw, south], //sw
+    [c, east, south, se] //se
+  ]
+  for (let quadId = 0; quadId < quads.length; quadId++) {
+    const quad = quads[quadId]
+    const heightCode =
+      (quad[0] ? 1 : 0) +
+      (quad[1] ? 2 : 0) +
+      (quad[2] ? 4 : 0) +
+      (quad[3] ? 8 : 0)
+    if (heightCode > 0) {
+      target.enableBit(`${rule.prefix}${quadId * 16 + heightCode}`)
+    }
+  }
+  return open
+}
+
+function applyWang2Corner(
+  rule: Wang2CornerRule,
+  n: Neighbourhood,
+  target: VisualBitTarget
+) {
+  const mask = n.C.makeFastMask(rule.meta)
+  if (!n.C.hasFast(mask)) {
+    return
+  }
+  const corner = (dir: Neighbour, a: Neighbour, b: Neighbour) =>
+    n[dir].hasFast(mask) && n[a].hasFast(mask) && n[b].hasFast(mask)
+  const code =
+    (corner('NW', 'N', 'W') ? 1 : 0) +
+    (corner('NE', 'N', 'E') ? 2 : 0) +
+    (corner('SW', 'S', 'W') ? 4 : 0) +
+    (corner('SE', 'S', 'E') ? 8 : 0)
+  target.enableBit(`${rule.prefix}${code}`)
+}
+
+export function applyAutoTileRule(
+  rule: AutoTileRule,
+  neighbourhood: Neighbourhood,
+  target: VisualBitTarget
+) {
+  switch (rule.type) {
+    case 'neighbours8':
+      applyNeighbours8(rule, neighbourhood, target)
+      return false
+    case 'spill':
+      applySpill(rule, neighbourhood, target)
+      return false
+    case 'quadCorner':
+      return applyQuadCorner(rule, neighbourhood, target)
+    case 'wang2Corner':
+      applyWang2Corner(rule, neighbourhood, target)
+      return false
+  }
+}
+
+export const defaultAutoTileRules: AutoTileRule[] = [
+  { type: 'quadCorner', meta: 'dirt', prefix: 'dirt' },
+  { type: 'quadCorner', meta: 'sand', prefix: 'sand' },
+  { type: 'neighbours8', meta: 'grass', prefix: 'grass' },
+  { type: 'neighbours8', meta: 'bush', prefix: 'bush' },
+  {
+    type: 'neighbours8',
+    meta: 'rocks',
+    prefix: 'rocks',
+    alternate: { meta: 'harvested', prefix: 'rockCrumbs' },
+    full: 'rocksCBig'
+  },
+  {
+    type: 'spill',
+    meta: 'treePine',
+    prefix: 'treePine',
+    unless: 'harvested',
+    stump: 'treePineStump',
+    variant: { meta: 'maturePlant', suffix: 'Mature' }
+  },
+  {
+    type: 'spill',
+    meta: 'treeMaple',
+    prefix: 'treeMaple',
+    unless: 'harvested',
+    stump: 'treeMapleStump',
+    variant: { meta: 'maturePlant', suffix: 'Mature' }
+  }
+]
@@ -0,0 +1,36 @@
+import NamedBitsInNumber from '../../../helpers/utils/NamedBitsInNumber'
+
+//order matters, it is the bit layout of every stored meta value
+export const metaTileStrings = [
+  'water',
+  'dirt',
+  'sand',
+  'beach',
+  'floor',
+  'logWall',
+  'beam',
+  'bricks',
+  'drywall',
+  'grass',
+  'bush',
+  'goldPile',
+  'lampPost',
+  'testObject',
+  'pyramid',
+  'rockyGround',
+  'rocks',
+  'goldOreForRocks',
+  'silverOreForRocks',
+  'ironOreForRocks',
+  'copperOreForRocks',
+  'harvested',
+  'treePine',
+  'maturePlant',
+  'treeMaple',
+  'window',
+  'door'
+] as const
+
+export type MetaTile = typeof metaTileStrings[number]
+
+export type NamedMetaBits = NamedBitsInNumber<typeof metaTileStrings>
@@ -0,0 +1,145 @@
+import {
+  MetaLayerConfig,
+  NoiseConfig,
+  WorldGeneratorConfig
+} from './WorldGenerator'
+
+function noise(
+  scale: number,
+  offsetX = 0,
+  offsetY = 0,
+  strength?: number,
+  offset?: number
+): NoiseConfig {
+  return { type: 'noise', scale, offsetX, offsetY, strength, offset }
+}
+
+function box(source: NoiseConfig, min?: number, max?: number): NoiseConfig {
+  return { type: 'box', source, min, max }
+}
+
+function add(...layers: NoiseConfig[]): NoiseConfig {
+  return { type: 'add', layers }
+}
+
+const sandBase = noise(0.1, -182, 237)
+const rocksBase = add(noise(0.01, 604, -121), noise(0.05, 604, -121, 0.5))
+
+function ore(offsetX: number, offsetY: number, offset: number) {
+  return add(
+    { type: 'clamp', source: rocksBase },
+    noise(0.8, offsetX, offsetY, 0.2, offset)
+  )
+}
+
+//dirt fills in wherever there is no sand
+function notSand(sandThreshold: number): NoiseConfig {
+  return {
+    type: 'invert',
+    source: { type: 'step', source: sandBase, threshold: sandThreshold }
+  }
+}
+
+function layer(
+  noise: NoiseConfig,
+  threshold: number,
+  enabled = true
+): MetaLayerConfig {
+  return { noise, threshold, enabled }
+}
+
+const defaultConfig: WorldGeneratorConfig = {
+  name: 'default',
+  seed: 1,
+  layers: {
+    water: layer(add(noise(0.02), noise(0.08, 0, 0, 0.5)), 0),
+    dirt: layer(notSand(0.5), 0),
+    sand: layer(sandBase, 0.5),
+    beach: layer(sandBase, -0.2),
+    floor: layer(box(noise(0.1)), 0.5),
+    logWall: layer(box(noise(0.08, -100, -100)), 0.4),
+    beam: layer(box(noise(0.08, -100, -100)), 0.4),
+    bricks: layer(box(noise(0.06, -50, -50)), 0.5),
+    drywall: layer(box(noise(0.05, 20, 20)), 0.5),
+    grass: layer(add(noise(0.15, 100, 200), noise(0.01, 100, 200)), -0.5),
+    bush: layer(noise(0.3, 300, 200), 0.25),
+    goldPile: layer(box(noise(3, -300, 200), -32, 32), 0.75),
+    //lamp posts are placed by hand
+    lampPost: layer(box(noise(3, -1300, 200)), 0.75, false),
+    testObject: layer(box(noise(3, -100, -300)), 0.75),
+    pyramid: layer(box(noise(3, -204, -121)), 0.85),
+    rockyGround: layer(noise(3, 204, -121), 0.25),
+    rocks: layer(rocksBase, 0.7),
+    goldOreForRocks: layer(ore(604, -121, -0.1), 1.07),
+    silverOreForRocks: layer(ore(-604, -121, -0.1), 1.05),
+    ironOreForRocks: layer(ore(404, 121, -0.15), 0.95),
+    copperOreForRocks: layer(ore(504, 121, -0.15), 0.97),
+    harvested: layer(box(noise(0.08, -500, -100)), 0.35),
+    treePine: layer(noise(0.3, -200, -400), 0.5),
+    maturePlant: layer(noise(3, -340, -460), 0.25),
+    treeMaple: layer(noise(0.3, 200, 400), 0.6)
+  }
+}
+
+function variant(
+  name: string,
+  layers: WorldGeneratorConfig['layers']
+): WorldGeneratorConfig {
+  return {
+    name,
+    seed: defaultConfig.seed,
+    layers: { ...defaultConfig.layers, ...layers }
+  }
+}
+
+const desertConfig = variant('desert', {
+  water: layer(add(noise(0.02), noise(0.08, 0, 0, 0.5)), 0.6),
+  dirt: layer(notSand(-0.6), 0),
+  sand: layer(sandBase, -0.6),
+  beach: layer(sandBase, -0.8),
+  grass: layer(add(noise(0.15, 100, 200), noise(0.01, 100, 200)), 0.6),
+  bush: layer(noise(0.3, 300, 200), 0.6),
+  rockyGround: layer(noise(3, 204, -121), -0.2),
+  treePine: layer(noise(0.3, -200, -400), 0.5, false),
+  treeMaple: layer(noise(0.3, 200, 400), 0.6, false)
+})
+
+const islandConfig = variant('island', {
+  water: layer(add(noise(0.02), noise(0.08, 0, 0, 0.5)), -0.35),
+  beach: layer(sandBase, -0.6),
+  floor: layer(box(noise(0.1)), 0.5, false),
+  logWall: layer(box(noise(0.08, -100, -100)), 0.4, false),
+  beam: layer(box(noise(0.08, -100, -100)), 0.4, false),
+  bricks: layer(box(noise(0.06, -50, -50)), 0.5, false),
+  treePine: layer(noise(0.3, -200, -400), 0.5, false),
+  treeMaple: layer(noise(0.3, 200, 400), 0.3)
+})
+
+const miningConfig = variant('mining', {
+  water: layer(add(noise(0.02), noise(0.08, 0, 0, 0.5)), 0.5),
+  rocks: layer(rocksBase, 0.2),
+  goldOreForRocks: layer(ore(604, -121, -0.1), 0.85),
+  silverOreForRocks: layer(ore(-604, -121, -0.1), 0.8),
+  ironOreForRocks: layer(ore(404, 121, -0.15), 0.7),
+  copperOreForRocks: layer(ore(504, 121, -0.15), 0.72),
+  harvested: layer(box(noise(0.08, -500, -100)), 0.35, false),
+  goldPile: layer(box(noise(3, -300, 200), -32, 32), 0.75, false),
+  pyramid: layer(box(noise(3, -204, -121)), 0.85, false),
+  testObject: layer(box(noise(3, -100, -300)), 0.75, false)
+})
+
+export const worldGeneratorPresets = {
+  default: defaultConfig,
+  desert: desertConfig,
+  island: islandConfig,
+  mining: miningConfig
+}
+
+export type WorldGeneratorPresetName = keyof typeof worldGeneratorPresets
+
+//for names that come from outside, like the url
+export function isWorldGeneratorPresetName(
+  name: string
+): name is WorldGeneratorPresetName {
+  return Object.prototype.hasOwnProperty.call(worldGeneratorPresets, name)
+}
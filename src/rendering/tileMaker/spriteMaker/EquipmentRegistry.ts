@@ -0,0 +1,64 @@
+import { Object3D } from 'three'
+
+export const equipmentSlots = [
+  'head',
+  'torso',
+  'legs',
+  'mainHand',
+  'offHand',
+  'back'
+] as const
+export type EquipmentSlot = typeof equipmentSlots[number]
+
+//two bytes per slot in slot order, the attachment id then the palette id, 0 is empty and no palette
+//palette ids are those of the palettes of the SpriteMaker
+export const equipmentBytes = equipmentSlots.length * 2
+
+export type EquipmentAttachment = {
+  name: string
+  slot: EquipmentSlot
+  //placed on the pivot like the body it is worn on
+  make: () => Object3D
+  //looks the same mirrored left to right
+  symmetric: boolean
+}
+
+//attachable meshes humanoid sprites get dressed in, by id so they fit in tile descriptions
+export default class EquipmentRegistry {
+  private _attachments: EquipmentAttachment[] = []
+  private _attachmentIds: Map<string, number> = new Map()
+  constructor() {
+    //
+  }
+  registerAttachment(
+    name: string,
+    slot: EquipmentSlot,
+    make: () => Object3D,
+    symmetric = false
+  ) {
+    if (this._attachmentIds.has(name)) {
+      throw new Error(`attachment "${name}" already exists`)
+    }
+    const id = this._attachments.length + 1
+    if (id > 255) {
+      throw new Error('no more room for attachments!')
+    }
+    this._attachments.push({ name, slot, make, symmetric })
+    this._attachmentIds.set(name, id)
+    return id
+  }
+  hasAttachment(name: string) {
+    return this._attachmentIds.has(name)
+  }
+  //ids are only stable for the lifetime of the registry, save names instead
+  getAttachmentId(name: string) {
+    const id = this._attachmentIds.get(name)
+    if (id === undefined) {
+      throw new Error(`unknown attachment "${name}"`)
+    }
+    return id
+  }
+  getAttachment(id: number): EquipmentAttachment | undefined {
+    return this._attachments[id - 1]
+  }
+}
@@ -1,9 +1,21 @@
 import { BufferGeometry } from 'three'
 import NamedBitsInBytes from '../../../helpers/utils/NamedBitsInBytes'
 import NamedBitsInNumber from '../../../helpers/utils/NamedBitsInNumber'
-import { wrap } from '../../../utils/math'
+import { removeFromArray } from '../../../utils/arrayUtils'
 
-import SpriteMaker from './SpriteMaker'
+import {
+  equipmentBytes,
+  EquipmentSlot,
+  equipmentSlots
+} from './EquipmentRegistry'
+import SpatialIndex from './SpatialIndex'
+import SpriteMaker, { getUnmirroredSpriteId } from './SpriteMaker'
+import { isSpriteDrawn, isSpriteInView } from './spriteCulling'
+
+export type SpriteViewListener = (
+  sprite: SpriteController,
+  inView: boolean
+) => void
 
 type BottomAndTopIds = {
   idTop: number
@@ -13,8 +25,6 @@ const masks32: number[] = []
 for (let i = 0; i < 32; i++) {
   masks32[i] = 1 << i
 }
-const __animFrameTimes = ['0', '1', '2', '3', '4', '5', '6', '7'] as const
-
 const metaSpriteStrings = [
   'body',
   'body2',
@@ -25,48 +35,132 @@ const metaSpriteStrings = [
   'sheep',
   'skeleton',
   'wheelBarrow',
-  'animRun',
+  'animState1',
+  'animState2',
+  'animState4',
   'animTime1',
   'animTime2',
-  'animTime4'
+  'animTime4',
+  'animTime8',
+  'animTime16'
+] as const
+export type MetaSprite = typeof metaSpriteStrings[number]
+
+//bits 0 to 8 are how the sprite looks, the rest is animation
+export const spriteAppearanceMetaMask = (1 << 9) - 1
+
+export const spriteAnimationStates = [
+  'idle',
+  'walk',
+  'run',
+  'attack',
+  'hurt',
+  'carry',
+  'death'
 ] as const
-type MetaSprite = typeof metaSpriteStrings[number]
+export type SpriteAnimationState = typeof spriteAnimationStates[number]
+
+export type SpriteAnimationClip = {
+  //rig animation baked for the state, states may share one
+  animation: string
+  //states sharing an animation share the frame count of the last one set
+  frames: number
+  //loops per second while played by the sampler
+  speed: number
+  //one-shot clips call their completion listeners when they end
+  loop: boolean
+  //where a one-shot clip goes when it ends, without it the clip stays on its last frame
+  next?: SpriteAnimationState
+}
+
+export type SpriteAnimationClips = {
+  [K in SpriteAnimationState]: SpriteAnimationClip
+}
+
+export type SpriteAnimationListener = (
+  sprite: SpriteController,
+  state: SpriteAnimationState
+) => void
+
+export function makeDefaultSpriteAnimationClips(): SpriteAnimationClips {
+  return {
+    idle: { animation: 'idle', frames: 8, speed: 0.5, loop: true },
+    walk: { animation: 'run', frames: 8, speed: 1, loop: true },
+    run: { animation: 'run', frames: 8, speed: 1.5, loop: true },
+    attack: {
+      animation: 'attack',
+      frames: 8,
+      speed: 2,
+      loop: false,
+      next: 'idle'
+    },
+    hurt: { animation: 'hurt', frames: 4, speed: 3, loop: false, next: 'idle' },
+    carry: { animation: 'carry', frames: 8, speed: 1, loop: true },
+    death: { animation: 'die', frames: 8, speed: 1, loop: false }
+  }
+}
+
+const __animStateBits: MetaSprite[] = ['animState1', 'animState2', 'animState4']
+const __animTimeBits: MetaSprite[] = [
+  'animTime1',
+  'animTime2',
+  'animTime4',
+  'animTime8',
+  'animTime16'
+]
+//how finely animTime is kept in the meta, no clip can have more frames than this
+export const spriteAnimationTimeSteps = 1 << __animTimeBits.length
+
+function readMetaBits(
+  meta: NamedBitsInNumber<typeof metaSpriteStrings>,
+  bits: MetaSprite[]
+) {
+  let value = 0
+  for (let i = 0; i < bits.length; i++) {
+    if (meta.has(bits[i])) {
+      value |= 1 << i
+    }
+  }
+  return value
+}
+
+function writeMetaBits(
+  meta: NamedBitsInNumber<typeof metaSpriteStrings>,
+  bits: MetaSprite[],
+  value: number
+) {
+  for (let i = 0; i < bits.length; i++) {
+    if ((value & (1 << i)) !== 0) {
+      meta.enableBit(bits[i])
+    } else {
+      meta.disableBit(bits[i])
+    }
+  }
+}
+
+export function getSpriteAnimationState(
+  meta: NamedBitsInNumber<typeof metaSpriteStrings>
+): SpriteAnimationState {
+  return spriteAnimationStates[readMetaBits(meta, __animStateBits)] || 'idle'
+}
+
+//the hat, sword and shield meta bits wear these when nothing else is in the slot
+const __legacyEquipment: [MetaSprite, EquipmentSlot, string][] = [
+  ['hat', 'head', 'hat'],
+  ['sword', 'mainHand', 'sword'],
+  ['shield', 'offHand', 'shield']
+]
+
+//the body2 meta bit is the body with this palette, unless the sprite has one of its own
+const __legacyBody2Palette = 'redTeam'
 
 const visualSpriteStrings = [
   'layer2',
   'body',
-  'body2',
-  'hat',
-  'sword',
-  'shield',
   'itemLog',
   'sheep',
-  'sheepRun0',
-  'sheepRun1',
-  'sheepRun2',
-  'sheepRun3',
-  'sheepRun4',
-  'sheepRun5',
-  'sheepRun6',
-  'sheepRun7',
   'skeleton',
-  'skeletonRun0',
-  'skeletonRun1',
-  'skeletonRun2',
-  'skeletonRun3',
-  'skeletonRun4',
-  'skeletonRun5',
-  'skeletonRun6',
-  'skeletonRun7',
-  'wheelBarrow',
-  'wheelBarrowRun0',
-  'wheelBarrowRun1',
-  'wheelBarrowRun2',
-  'wheelBarrowRun3',
-  'wheelBarrowRun4',
-  'wheelBarrowRun5',
-  'wheelBarrowRun6',
-  'wheelBarrowRun7'
+  'wheelBarrow'
 ] as const
 
 type VisSprite = typeof visualSpriteStrings[number]
@@ -77,20 +171,40 @@ for (let i = 0; i < 8; i++) {
 }
 
 export class SpriteController {
-  private _animTime: number
+  private _x: number
+  get x(): number {
+    return this._x
+  }
+  set x(value: number) {
+    this._x = value
+    if (this._spatialIndex && this._spatialIndex.has(this)) {
+      this._spatialIndex.update(this)
+    }
+  }
+  private _y: number
+  get y(): number {
+    return this._y
+  }
+  set y(value: number) {
+    this._y = value
+    if (this._spatialIndex && this._spatialIndex.has(this)) {
+      this._spatialIndex.update(this)
+    }
+  }
+  private _animTime = 0
+  //0 to 1 through the clip of the current state
   get animTime(): number {
     return this._animTime
   }
   set animTime(value: number) {
-    if (value === 0) {
-      this.metaBytes.disableBit('animRun')
-    } else {
-      this.metaBytes.enableBit('animRun')
-    }
     this._animTime = value
-    this.animFrame = ~~(value * 8)
+    this.animFrame = Math.min(
+      ~~(value * spriteAnimationTimeSteps),
+      spriteAnimationTimeSteps - 1
+    )
   }
-  private _animFrame: number
+  private _animFrame = 0
+  //animTime in steps of spriteAnimationTimeSteps, not frames of the clip
   get animFrame(): number {
     return this._animFrame
   }
@@ -99,48 +213,191 @@ export class SpriteController {
       return
     }
     this._animFrame = value
-    if ((this.animFrame & 1) !== 0) {
-      this.metaBytes.enableBit('animTime1')
-    } else {
-      this.metaBytes.disableBit('animTime1')
-    }
-    if ((this.animFrame & 2) !== 0) {
-      this.metaBytes.enableBit('animTime2')
-    } else {
-      this.metaBytes.disableBit('animTime2')
-    }
-    if ((this.animFrame & 4) !== 0) {
-      this.metaBytes.enableBit('animTime4')
-    } else {
-      this.metaBytes.disableBit('animTime4')
-    }
+    writeMetaBits(this.metaBytes, __animTimeBits, value)
+  }
+  get animationState(): SpriteAnimationState {
+    return getSpriteAnimationState(this.metaBytes)
+  }
+  set animationState(value: SpriteAnimationState) {
+    writeMetaBits(
+      this.metaBytes,
+      __animStateBits,
+      spriteAnimationStates.indexOf(value)
+    )
   }
+  get looping() {
+    return this._clips[this.animationState].loop
+  }
+  private _playing = false
+  //true while the sampler advances the clip, see play()
+  get playing() {
+    return this._playing
+  }
+  private _onComplete: SpriteAnimationListener | undefined
+  private _animationListeners: SpriteAnimationListener[] = []
+  //attachment and palette ids by slot, see JITSpriteSampler.equip()
+  readonly equipment = new Uint8Array(equipmentBytes)
+  //recolours the whole sprite, see JITSpriteSampler.setPalette()
+  paletteId = 0
   z = 0
+  visible = true
+  //in tiles, how far out of view the sprite still counts as in view
+  cullMargin = 0.5
   constructor(
-    public x: number,
-    public y: number,
+    x: number,
+    y: number,
     public id: number,
     public angle: number,
-    public metaBytes: NamedBitsInNumber<typeof metaSpriteStrings>
+    public metaBytes: NamedBitsInNumber<typeof metaSpriteStrings>,
+    private _spatialIndex?: SpatialIndex<SpriteController>,
+    private _clips: SpriteAnimationClips = makeDefaultSpriteAnimationClips()
   ) {
-    //
+    this._x = x
+    this._y = y
+    if (_spatialIndex) {
+      _spatialIndex.add(this)
+    }
+  }
+  //plays the clip of a state from its start, onComplete is called when a one-shot clip ends
+  play(state: SpriteAnimationState, onComplete?: SpriteAnimationListener) {
+    this.animationState = state
+    this.animTime = 0
+    this._playing = true
+    this._onComplete = onComplete
+  }
+  //keeps the current frame
+  stop() {
+    this._playing = false
+    this._onComplete = undefined
+  }
+  //called whenever a one-shot clip ends
+  listenForAnimationComplete(listener: SpriteAnimationListener) {
+    this._animationListeners.push(listener)
+  }
+  stopListeningForAnimationComplete(listener: SpriteAnimationListener) {
+    removeFromArray(this._animationListeners, listener)
+  }
+  updateAnimation(dt: number) {
+    if (!this._playing) {
+      return
+    }
+    const state = this.animationState
+    const clip = this._clips[state]
+    const time = this._animTime + dt * clip.speed
+    if (clip.loop || time < 1) {
+      this.animTime = time - Math.floor(time)
+      return
+    }
+    const onComplete = this._onComplete
+    this.stop()
+    if (clip.next) {
+      this.play(clip.next)
+    } else {
+      this.animTime = 1
+    }
+    if (onComplete) {
+      onComplete(this, state)
+    }
+    for (const listener of this._animationListeners) {
+      listener(this, state)
+    }
+  }
+  //for sprites recycled from the pool
+  reset(x: number, y: number, angle: number) {
+    this._x = x
+    this._y = y
+    this.z = 0
+    this.angle = angle
+    this.visible = true
+    this.cullMargin = 0.5
+    this.metaBytes.value = 0
+    this._animTime = 0
+    this._animFrame = 0
+    this._playing = false
+    this._onComplete = undefined
+    this._animationListeners.length = 0
+    this.equipment.fill(0)
+    this.paletteId = 0
   }
 }
 
 let __id = 0
 export default class JITSpriteSampler {
   private _sprites: SpriteController[] = []
+  get sprites(): readonly SpriteController[] {
+    return this._sprites
+  }
+  //every sprite by tile, kept up to date as sprites move
+  readonly spatialIndex = new SpatialIndex<SpriteController>()
   offsetX = 0
   offsetY = 0
+  //removed sprites are kept for reuse, past this many their ids are freed instead
+  maxPooledSprites = 256
+  private _pool: SpriteController[] = []
+  private _freeIds: number[] = []
+  private _spritesInView: Set<SpriteController> = new Set()
+  //tile ids drawn last frame and so far this frame, so they aren't evicted while in use
+  private _tileIdsInView: Set<number> = new Set()
+  private _nextTileIdsInView: Set<number> = new Set()
+  private _viewListeners: SpriteViewListener[] = []
   makeSprite(x: number, y: number, angle: number) {
-    const id = __id
-    // const sprite = new SpriteController(x, y, id, angle)
-    const meta = this.getMeta(id)
-    const sprite = new SpriteController(x, y, id, angle, meta)
-    __id++
+    let sprite = this._pool.pop()
+    if (sprite) {
+      sprite.reset(x, y, angle)
+      this.validateMeta(sprite.metaBytes)
+      this.spatialIndex.add(sprite)
+    } else {
+      const id = this._freeIds.length > 0 ? this._freeIds.pop()! : __id++
+      // const sprite = new SpriteController(x, y, id, angle)
+      const meta = this.getMeta(id)
+      sprite = new SpriteController(
+        x,
+        y,
+        id,
+        angle,
+        meta,
+        this.spatialIndex,
+        this.clips
+      )
+    }
     this._sprites.push(sprite)
     return sprite
   }
+  removeSprite(sprite: SpriteController) {
+    if (!this._sprites.includes(sprite)) {
+      return false
+    }
+    removeFromArray(this._sprites, sprite)
+    this.spatialIndex.remove(sprite)
+    this.setInView(sprite, false)
+    if (this._pool.length < this.maxPooledSprites) {
+      this._pool.push(sprite)
+    } else {
+      this.metaCache.delete(sprite.id.toString())
+      this._freeIds.push(sprite.id)
+    }
+    return true
+  }
+  clearSprites() {
+    while (this._sprites.length > 0) {
+      this.removeSprite(this._sprites[this._sprites.length - 1])
+    }
+  }
+  //hidden sprites are not drawn, but still move and show up in the spatialIndex
+  hideSprite(sprite: SpriteController) {
+    sprite.visible = false
+    this.setInView(sprite, false)
+  }
+  showSprite(sprite: SpriteController) {
+    sprite.visible = true
+  }
+  isSpriteInView(sprite: SpriteController) {
+    return this._spritesInView.has(sprite)
+  }
+  //called as sprites get drawn or stop getting drawn
+  listenForSpriteViewChanges(listener: SpriteViewListener) {
+    this._viewListeners.push(listener)
+  }
   get spriteMaker(): SpriteMaker {
     return this._spriteMaker
   }
@@ -148,6 +405,7 @@ export default class JITSpriteSampler {
     throw new Error('Cannot change spriteMaker during runtime')
   }
   bytesPerTile: number
+  readonly clips = makeDefaultSpriteAnimationClips()
   metaCache: Map<string, NamedBitsInNumber<typeof metaSpriteStrings>> =
     new Map() //maybe change this caching mechanism for something more memory friendly. e.i. Map<number, <Map<number, number>> ?
   constructor(
@@ -156,7 +414,29 @@ export default class JITSpriteSampler {
     private _viewWidth: number,
     private _viewHeight: number
   ) {
-    this.bytesPerTile = Math.ceil(visualSpriteStrings.length / 8)
+    _spriteMaker.tileDefinitions.assertLayout(visualSpriteStrings)
+    //plus the equipment, palette id, animation id and frame, see SpriteMaker
+    this.bytesPerTile =
+      Math.ceil(visualSpriteStrings.length / 8) + equipmentBytes + 3
+    for (const state of spriteAnimationStates) {
+      this.setClip(state, this.clips[state])
+    }
+  }
+  //the clip every sprite of this sampler plays for a state
+  setClip(state: SpriteAnimationState, clip: SpriteAnimationClip) {
+    if (clip.frames > spriteAnimationTimeSteps) {
+      throw new Error(
+        `clips can have at most ${spriteAnimationTimeSteps} frames, "${state}" has ${clip.frames}`
+      )
+    }
+    this.clips[state] = clip
+    this._spriteMaker.setAnimationFrameCount(clip.animation, clip.frames)
+  }
+  //advances the clips of sprites that are playing
+  updateAnimations(dt: number) {
+    for (const sprite of this._sprites) {
+      sprite.updateAnimation(dt)
+    }
   }
 
   getMeta(id: number) {
@@ -180,9 +460,6 @@ export default class JITSpriteSampler {
     if (val.has('sheep') || val.has('skeleton')) {
       val.disableBit('body2')
       val.disableBit('body')
-      val.enableBit('animRun')
-    } else if (val.has('animRun')) {
-      val.disableBit('animRun')
     }
     if (val.has('sheep')) {
       val.disableBit('skeleton')
@@ -190,62 +467,110 @@ export default class JITSpriteSampler {
 
     return val
   }
-  sampleVisProps(metaProps: NamedBitsInNumber<typeof metaSpriteStrings>) {
+  //a palette of the SpriteMaker, undefined for none
+  setPalette(sprite: SpriteController, palette: string | undefined) {
+    sprite.paletteId = palette ? this._spriteMaker.palettes.getId(palette) : 0
+  }
+  getPalette(sprite: SpriteController) {
+    return this._spriteMaker.palettes.getName(sprite.paletteId)
+  }
+  //wears an attachment in its slot, replacing whatever was there
+  equip(sprite: SpriteController, attachment: string, palette?: string) {
+    const registry = this._spriteMaker.equipment
+    const id = registry.getAttachmentId(attachment)
+    const offset = equipmentSlots.indexOf(registry.getAttachment(id)!.slot) * 2
+    sprite.equipment[offset] = id
+    sprite.equipment[offset + 1] = palette
+      ? this._spriteMaker.palettes.getId(palette)
+      : 0
+  }
+  unequip(sprite: SpriteController, slot: EquipmentSlot) {
+    const offset = equipmentSlots.indexOf(slot) * 2
+    sprite.equipment[offset] = 0
+    sprite.equipment[offset + 1] = 0
+  }
+  //names of what is worn in a slot, undefined when it is empty
+  getEquipped(sprite: SpriteController, slot: EquipmentSlot) {
+    const offset = equipmentSlots.indexOf(slot) * 2
+    const attachment = this._spriteMaker.equipment.getAttachment(
+      sprite.equipment[offset]
+    )
+    if (!attachment) {
+      return undefined
+    }
+    return {
+      attachment: attachment.name,
+      palette: this._spriteMaker.palettes.getName(sprite.equipment[offset + 1])
+    }
+  }
+  sampleVisProps(
+    metaProps: NamedBitsInNumber<typeof metaSpriteStrings>,
+    equipment?: Uint8Array,
+    paletteId = 0
+  ) {
     const visProps = new NamedBitsInBytes(
       new Uint8Array(this.bytesPerTile),
       visualSpriteStrings
     )
 
-    function getSuffix() {
-      let suffix = ''
-      if (metaProps.has('animRun')) {
-        const time =
-          (metaProps.has('animTime1') ? 1 : 0) +
-          (metaProps.has('animTime2') ? 2 : 0) +
-          (metaProps.has('animTime4') ? 4 : 0)
-        suffix = 'Run' + time
-      }
-      return suffix
-    }
-
-    if (metaProps.has('sheep')) {
-      //@ts-ignore
-      visProps.enableBit('sheep' + getSuffix())
-    } else if (metaProps.has('skeleton')) {
-      //@ts-ignore
-      visProps.enableBit('skeleton' + getSuffix())
-    } else if (metaProps.has('wheelBarrow')) {
-      //@ts-ignore
-      visProps.enableBit('wheelBarrow' + getSuffix())
+    const rigged = metaProps.has('sheep')
+      ? 'sheep'
+      : metaProps.has('skeleton')
+      ? 'skeleton'
+      : metaProps.has('wheelBarrow')
+      ? 'wheelBarrow'
+      : undefined
+    if (rigged) {
+      visProps.enableBit(rigged)
+      const clip = this.clips[getSpriteAnimationState(metaProps)]
+      this.setAnimation(
+        visProps.bytes,
+        clip.animation,
+        readMetaBits(metaProps, __animTimeBits) / spriteAnimationTimeSteps
+      )
     } else {
       if (metaProps.has('body')) {
         visProps.enableBit('body')
       }
       if (metaProps.has('body2')) {
-        visProps.enableBit('body2')
-      }
-
-      if (metaProps.has('hat')) {
-        visProps.enableBit('hat')
-      }
-      if (metaProps.has('sword')) {
-        visProps.enableBit('sword')
-      }
-      if (metaProps.has('shield')) {
-        visProps.enableBit('shield')
+        visProps.enableBit('body')
+        if (paletteId === 0) {
+          paletteId = this._spriteMaker.palettes.getId(__legacyBody2Palette)
+        }
       }
       if (metaProps.has('itemLog')) {
         visProps.enableBit('itemLog')
       }
+
+      const equipmentOffset = Math.ceil(visualSpriteStrings.length / 8)
+      if (equipment) {
+        visProps.bytes.set(equipment, equipmentOffset)
+      }
+      for (const [bit, slot, attachment] of __legacyEquipment) {
+        const offset = equipmentOffset + equipmentSlots.indexOf(slot) * 2
+        if (metaProps.has(bit) && visProps.bytes[offset] === 0) {
+          visProps.bytes[offset] =
+            this._spriteMaker.equipment.getAttachmentId(attachment)
+        }
+      }
     }
+    visProps.bytes[visProps.bytes.length - 3] = paletteId
     return visProps
   }
 
-  sampleVisIds(
-    sprite: SpriteController,
-    time: '0' | '1' | '2' | '3' | '4' | '5' | '6' | '7' = '0'
-  ) {
-    const visProps = this.sampleVisProps(sprite.metaBytes)
+  //writes which frame of an animation to bake into the last two bytes of a tile description
+  setAnimation(bytes: Uint8Array, name: string, time: number) {
+    const spriteMaker = this._spriteMaker
+    const frames = spriteMaker.getAnimationFrameCount(name)
+    bytes[bytes.length - 2] = spriteMaker.getAnimationId(name)
+    bytes[bytes.length - 1] = Math.min(Math.floor(time * frames), frames - 1)
+  }
+  sampleVisIds(sprite: SpriteController) {
+    const visProps = this.sampleVisProps(
+      sprite.metaBytes,
+      sprite.equipment,
+      sprite.paletteId
+    )
     const bottomAndTopIds: BottomAndTopIds = this.sampleVisIdsByVisProps(
       visProps,
       sprite.angle
@@ -253,6 +578,21 @@ export default class JITSpriteSampler {
     return bottomAndTopIds
   }
 
+  //bakes every facing of how the sprite looks right now
+  prebakeSprite(sprite: SpriteController) {
+    const visProps = this.sampleVisProps(
+      sprite.metaBytes,
+      sprite.equipment,
+      sprite.paletteId
+    )
+    const visProps2 = visProps.bytes.slice()
+    visProps2[0] |= 1
+    this._spriteMaker.prebake(visProps.bytes)
+    this._spriteMaker.prebake(visProps2)
+  }
+  isTileIdOnScreen = (index: number) => {
+    return this._tileIdsInView.has(index) || this._nextTileIdsInView.has(index)
+  }
   sampleVisIdsByVisProps(
     visProps: NamedBitsInBytes<typeof visualSpriteStrings>,
     angle: number
@@ -284,16 +624,27 @@ export default class JITSpriteSampler {
       let j = 0
       for (let i = 0; i < this._sprites.length; i++) {
         const sprite = this._sprites[i]
-        const currentFrame =
-          __animFrameTimes[sprite.animFrame % __animFrameTimes.length]
         const x = sprite.x - this.offsetX
         const y = sprite.y - this.offsetY
         const z = sprite.z
-        if (x < 0 || x > this._viewWidth || y < 0 || y > this._viewHeight) {
+        const inView =
+          sprite.visible &&
+          isSpriteInView(
+            x,
+            y,
+            sprite.cullMargin,
+            this._viewWidth,
+            this._viewHeight
+          )
+        this.setInView(sprite, inView)
+        if (
+          !inView ||
+          !isSpriteDrawn(x, y, this._viewWidth, this._viewHeight)
+        ) {
           continue
         }
-        const xSnap = Math.round(wrap(x, 0, this._viewWidth) * ppt) / ppt
-        const ySnap = Math.round(wrap(y, 0, this._viewHeight) * ppt) / ppt
+        const xSnap = Math.round(x * ppt) / ppt
+        const ySnap = Math.round(y * ppt) / ppt
         const zSnap = Math.round(z * ppt) / ppt
         const j3 = j * 3
         xyzBottomArr[j3] = xSnap
@@ -302,12 +653,17 @@ export default class JITSpriteSampler {
         xyzTopArr[j3] = xSnap
         xyzTopArr[j3 + 1] = ySnap + 1
         xyzTopArr[j3 + 2] = zSnap
-        const frame = sprite.metaBytes.has('animRun') ? currentFrame : undefined
-        const sample = this.sampleVisIds(sprite, frame)
+        const sample = this.sampleVisIds(sprite)
         idBottomArr[j] = sample.idBottom
         idTopArr[j] = sample.idTop
+        this._nextTileIdsInView.add(getUnmirroredSpriteId(sample.idBottom))
+        this._nextTileIdsInView.add(getUnmirroredSpriteId(sample.idTop))
         j++
       }
+      const tileIdsInView = this._tileIdsInView
+      tileIdsInView.clear()
+      this._tileIdsInView = this._nextTileIdsInView
+      this._nextTileIdsInView = tileIdsInView
       bottomPointsGeo.drawRange.count = j
       topPointsGeo.drawRange.count = j
       if (j === 0) {
@@ -319,7 +675,25 @@ export default class JITSpriteSampler {
       idTopAttr.needsUpdate = true
       return true
     } else {
+      //nothing left to draw or keep baked
+      this._tileIdsInView.clear()
+      this._nextTileIdsInView.clear()
+      bottomPointsGeo.drawRange.count = 0
+      topPointsGeo.drawRange.count = 0
       return false
     }
   }
+  private setInView(sprite: SpriteController, inView: boolean) {
+    if (this._spritesInView.has(sprite) === inView) {
+      return
+    }
+    if (inView) {
+      this._spritesInView.add(sprite)
+    } else {
+      this._spritesInView.delete(sprite)
+    }
+    for (const listener of this._viewListeners) {
+      listener(sprite, inView)
+    }
+  }
 }
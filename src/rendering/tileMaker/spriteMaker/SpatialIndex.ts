@@ -0,0 +1,201 @@
+export interface ISpatialItem {
+  x: number
+  y: number
+}
+
+type Cell<T> = {
+  x: number
+  y: number
+  items: T[]
+}
+
+//buckets items by the tile (or cell) they are on, for cheap proximity queries
+//no imports, so it can be used and tested without a renderer or the DOM
+export default class SpatialIndex<T extends ISpatialItem> {
+  private _columns: Map<number, Map<number, Cell<T>>> = new Map()
+  private _itemCells: Map<T, Cell<T>> = new Map()
+  get size() {
+    return this._itemCells.size
+  }
+  constructor(public readonly cellSize = 1) {
+    //
+  }
+  has(item: T) {
+    return this._itemCells.has(item)
+  }
+  add(item: T) {
+    this.update(item)
+  }
+  //call whenever the item moved, only touches the buckets when it changed cell
+  update(item: T) {
+    const cx = Math.floor(item.x / this.cellSize)
+    const cy = Math.floor(item.y / this.cellSize)
+    const oldCell = this._itemCells.get(item)
+    if (oldCell && oldCell.x === cx && oldCell.y === cy) {
+      return
+    }
+    if (oldCell) {
+      this.removeFromCell(item, oldCell)
+    }
+    let column = this._columns.get(cx)
+    if (!column) {
+      column = new Map()
+      this._columns.set(cx, column)
+    }
+    let cell = column.get(cy)
+    if (!cell) {
+      cell = { x: cx, y: cy, items: [] }
+      column.set(cy, cell)
+    }
+    cell.items.push(item)
+    this._itemCells.set(item, cell)
+  }
+  remove(item: T) {
+    const cell = this._itemCells.get(item)
+    if (!cell) {
+      return false
+    }
+    this.removeFromCell(item, cell)
+    this._itemCells.delete(item)
+    return true
+  }
+  clear() {
+    this._columns.clear()
+    this._itemCells.clear()
+  }
+  //items whose position is inside the rect, edges included
+  queryRect(
+    minX: number,
+    minY: number,
+    maxX: number,
+    maxY: number,
+    results: T[] = []
+  ) {
+    const cellSize = this.cellSize
+    const minCX = Math.floor(minX / cellSize)
+    const minCY = Math.floor(minY / cellSize)
+    const maxCX = Math.floor(maxX / cellSize)
+    const maxCY = Math.floor(maxY / cellSize)
+    for (let cx = minCX; cx <= maxCX; cx++) {
+      const column = this._columns.get(cx)
+      if (!column) {
+        continue
+      }
+      for (let cy = minCY; cy <= maxCY; cy++) {
+        const cell = column.get(cy)
+        if (!cell) {
+          continue
+        }
+        for (const item of cell.items) {
+          if (
+            item.x >= minX &&
+            item.x <= maxX &&
+            item.y >= minY &&
+            item.y <= maxY
+          ) {
+            results.push(item)
+          }
+        }
+      }
+    }
+    return results
+  }
+  //items closer than radius, in no particular order
+  queryRadius(x: number, y: number, radius: number, results: T[] = []) {
+    const start = results.length
+    this.queryRect(x - radius, y - radius, x + radius, y + radius, results)
+    const radiusSq = radius * radius
+    let j = start
+    for (let i = start; i < results.length; i++) {
+      const item = results[i]
+      const dx = item.x - x
+      const dy = item.y - y
+      if (dx * dx + dy * dy < radiusSq) {
+        results[j] = item
+        j++
+      }
+    }
+    results.length = j
+    return results
+  }
+  //up to count items, closest first
+  queryNearest(
+    x: number,
+    y: number,
+    count: number,
+    maxDistance = Infinity,
+    filter?: (item: T) => boolean
+  ) {
+    const found: T[] = []
+    const distancesSq: Map<T, number> = new Map()
+    const maxDistanceSq = maxDistance * maxDistance
+    const cellSize = this.cellSize
+    const ocx = Math.floor(x / cellSize)
+    const ocy = Math.floor(y / cellSize)
+    const maxRing = this.getMaxRing(ocx, ocy)
+    //grow a ring of cells until nothing closer can be found beyond it
+    for (let ring = 0; count > 0 && ring <= maxRing; ring++) {
+      const ringDistance = ring * cellSize - cellSize
+      if (ringDistance > maxDistance) {
+        break
+      }
+      if (
+        found.length >= count &&
+        distancesSq.get(found[count - 1])! <= ringDistance * ringDistance
+      ) {
+        break
+      }
+      for (let cx = ocx - ring; cx <= ocx + ring; cx++) {
+        const column = this._columns.get(cx)
+        if (!column) {
+          continue
+        }
+        const onEdgeColumn = cx === ocx - ring || cx === ocx + ring
+        for (let cy = ocy - ring; cy <= ocy + ring; cy++) {
+          if (!onEdgeColumn && cy !== ocy - ring && cy !== ocy + ring) {
+            continue
+          }
+          const cell = column.get(cy)
+          if (!cell) {
+            continue
+          }
+          for (const item of cell.items) {
+            const dx = item.x - x
+            const dy = item.y - y
+            const distSq = dx * dx + dy * dy
+            if (distSq <= maxDistanceSq && (!filter || filter(item))) {
+              distancesSq.set(item, distSq)
+              found.push(item)
+            }
+          }
+        }
+      }
+      found.sort((a, b) => distancesSq.get(a)! - distancesSq.get(b)!)
+    }
+    if (found.length > count) {
+      found.length = count
+    }
+    return found
+  }
+  //how many rings of cells around the origin cell can hold anything
+  private getMaxRing(ocx: number, ocy: number) {
+    let maxRing = -1
+    this._columns.forEach((column, cx) => {
+      column.forEach((cell, cy) => {
+        maxRing = Math.max(maxRing, Math.abs(cx - ocx), Math.abs(cy - ocy))
+      })
+    })
+    return maxRing
+  }
+  private removeFromCell(item: T, cell: Cell<T>) {
+    const items = cell.items
+    items.splice(items.indexOf(item), 1)
+    if (items.length === 0) {
+      const column = this._columns.get(cell.x)!
+      column.delete(cell.y)
+      if (column.size === 0) {
+        this._columns.delete(cell.x)
+      }
+    }
+  }
+}
@@ -1,6 +1,5 @@
 import {
   CylinderBufferGeometry,
-  Material,
   Mesh,
   Object3D,
   Vector4,
@@ -8,29 +7,67 @@ import {
 } from 'three'
 import { skeletonMaterialNames } from '../../../../test/helpers/skeletonMaterialNames'
 import { wheelBarrowMaterialNames } from '../../../../test/helpers/wheelBarrowMaterialNames'
+import Rig from '../../../animation/Rig'
 import { verticalScale } from '../../../constants'
 import {
   changeMeshMaterials,
+  CuratedMaterialType,
   getMeshMaterial,
+  MaterialPalette,
   MaterialPassType
 } from '../../../helpers/materials/materialLib'
 import { makeLog } from '../../../meshes/factoryLog'
-import { makeSheep } from '../../../meshes/factorySheep'
-import { makeSkeleton } from '../../../meshes/factorySkeleton'
-import { makeWheelBarrow } from '../../../meshes/factoryWheelBarrow'
+import { makeSheepRig } from '../../../meshes/factorySheep'
+import { makeSkeletonRig } from '../../../meshes/factorySkeleton'
+import { makeWheelBarrowRig } from '../../../meshes/factoryWheelBarrow'
 import { getChamferedBoxGeometry } from '../../../utils/geometry'
 import { memoize } from '../../../utils/memoizer'
+import TileDefinitionRegistry from '../TileDefinitionRegistry'
 import TileMaker from '../TileMaker'
 
+import EquipmentRegistry, { equipmentSlots } from './EquipmentRegistry'
+
+//getTileIdAtAngle returns mirrored facings as -1 - id, the sprite writer flips those
+export function isMirroredSpriteId(id: number) {
+  return id < 0
+}
+
+export function getUnmirroredSpriteId(id: number) {
+  return id < 0 ? -1 - id : id
+}
+
+const __noPalette: MaterialPalette = {}
+
+//tile descriptions are the visible mesh bits, the equipment, the palette id, then two bytes for the animation id and frame, 0 and 0 is the rest pose
 export default class SpriteMaker extends TileMaker {
+  //attachments worn in the equipment bytes, see EquipmentRegistry
+  readonly equipment = new EquipmentRegistry()
+  //the visible mesh bits, JITSpriteSampler checks its own layout against it
+  readonly tileDefinitions: TileDefinitionRegistry
+  //frames baked of animations without a frame count of their own
+  defaultAnimationFrames = 8
   private _angleRegistry: number[] = []
+  private _animationNames: string[] = ['']
+  private _animationFrames: Map<string, number> = new Map()
+  //rigs by indexed mesh, posed before the mesh is rendered
+  private _rigs: ((() => Rig) | undefined)[]
+  private _rigPoseKeys: number[] = []
+  //bits of the meshes that look different when mirrored left to right
+  private _asymmetricMask: Uint8Array
+  private _equipmentOffset: number
+  private _attachmentObjects: Map<number, Object3D> = new Map()
+  private _shownAttachments: Object3D[] = []
+  //facings of symmetric sprites past half a turn reuse the mirrored tile
+  mirrorSymmetricFacings = true
   constructor(
     pixelsPerTile = 32,
     pixelsPerCacheEdge = 2048,
-    passes: MaterialPassType[] = ['beauty']
+    passes: MaterialPassType[] = ['beauty'],
+    //sprites are drawn with every page and its depth page plus the map depth cache, 3 keeps that within the 8 texture units WebGL1 guarantees
+    maxPages = 3,
+    //facings a full turn is split into, angles snap to the nearest one
+    readonly angleSteps = 16
   ) {
-    const dummy = () => new Object3D()
-
     const bodyMaker = memoize(() => {
       const bodyGeo = getChamferedBoxGeometry(20, 14, 10, 3)
       const obj = new Mesh(bodyGeo, getMeshMaterial('pants'))
@@ -64,20 +101,6 @@ export default class SpriteMaker extends TileMaker {
 
     const body = () => bodyMaker()
 
-    const body2 = () => {
-      const obj = bodyMaker().clone(true)
-      obj.traverse((node) => {
-        if (
-          node instanceof Mesh &&
-          node.material instanceof Material &&
-          node.material.name === 'pants'
-        ) {
-          node.material = getMeshMaterial('pantsRed')
-        }
-      })
-      return obj
-    }
-
     const hat = () => {
       const obj = new Mesh(
         getChamferedBoxGeometry(18, 16 * verticalScale, 16, 3),
@@ -114,110 +137,205 @@ export default class SpriteMaker extends TileMaker {
 
     const itemLog = makeLog
 
-    const sheep = () => {
-      return makeSheep(
+    const sheepRig = memoize(() =>
+      makeSheepRig(
         getMeshMaterial('fleeceWhite'),
         getMeshMaterial('fleeceBlack'),
         getMeshMaterial('sheepNose'),
-        getMeshMaterial('shinyBlack'),
-        0,
-        0
+        getMeshMaterial('shinyBlack')
       )
-    }
-    const indexedMeshes = [
-      dummy,
-      body,
-      body2,
-      hat,
-      sword,
-      shield,
-      itemLog,
-      sheep
-    ]
+    )
+    const sheep = () => sheepRig().root
 
-    const t = 8
-    for (let i = 0; i < t; i++) {
-      const time = i / t
-      const sheepRunFrame = () => {
-        return makeSheep(
-          getMeshMaterial('fleeceWhite'),
-          getMeshMaterial('fleeceBlack'),
-          getMeshMaterial('sheepNose'),
-          getMeshMaterial('shinyBlack'),
-          time
-        )
-      }
-      indexedMeshes.push(sheepRunFrame)
-    }
-
-    const skeleton = () => {
-      return makeSkeleton(
+    const skeletonRig = memoize(() =>
+      makeSkeletonRig(
         getMeshMaterial(skeletonMaterialNames.skin),
         getMeshMaterial(skeletonMaterialNames.black),
-        getMeshMaterial(skeletonMaterialNames.pants),
-        0,
-        0
+        getMeshMaterial(skeletonMaterialNames.pants)
+      )
+    )
+    const skeleton = () => skeletonRig().root
+
+    const wheelBarrowRig = memoize(() =>
+      makeWheelBarrowRig(
+        getMeshMaterial(wheelBarrowMaterialNames.wood),
+        getMeshMaterial(wheelBarrowMaterialNames.wood2)
       )
+    )
+    const wheelBarrow = () => wheelBarrowRig().root
+
+    const chestplate = () => {
+      const obj = new Mesh(
+        getChamferedBoxGeometry(22, 12, 12, 3),
+        getMeshMaterial('iron')
+      )
+      obj.position.y = 18
+      return obj
     }
-    indexedMeshes.push(skeleton)
-    for (let i = 0; i < t; i++) {
-      const time = i / t
-      const skeletonRunFrame = () => {
-        return makeSkeleton(
-          getMeshMaterial(skeletonMaterialNames.skin),
-          getMeshMaterial(skeletonMaterialNames.black),
-          getMeshMaterial(skeletonMaterialNames.pants),
-          time
-        )
-      }
-      indexedMeshes.push(skeletonRunFrame)
+
+    const boots = () => {
+      const obj = new Object3D()
+      const boot = new Mesh(
+        getChamferedBoxGeometry(7, 4, 9, 1.5),
+        getMeshMaterial('wood')
+      )
+      boot.position.x = -6
+      boot.position.y = 2
+      boot.position.z = 1
+      obj.add(boot)
+      const boot2 = boot.clone()
+      boot2.position.x *= -1
+      obj.add(boot2)
+      return obj
     }
 
-    const wheelBarrow = () => {
-      return makeWheelBarrow(
-        getMeshMaterial(wheelBarrowMaterialNames.wood),
-        getMeshMaterial(wheelBarrowMaterialNames.wood2),
-        0,
-        0
+    const backpack = () => {
+      const obj = new Mesh(
+        getChamferedBoxGeometry(14, 14, 6, 2),
+        getMeshMaterial('wood')
       )
+      obj.position.y = 18
+      obj.position.z = -8
+      return obj
     }
-    indexedMeshes.push(wheelBarrow)
-    for (let i = 0; i < t; i++) {
-      const time = i / t
-      const wheelBarrowRunFrame = () => {
-        return makeWheelBarrow(
-          getMeshMaterial(wheelBarrowMaterialNames.wood),
-          getMeshMaterial(wheelBarrowMaterialNames.wood2),
-          time
-        )
+
+    const tileDefinitions = new TileDefinitionRegistry()
+    tileDefinitions.register('body', body)
+    tileDefinitions.register('itemLog', itemLog)
+    tileDefinitions.register('sheep', sheep)
+    tileDefinitions.register('skeleton', skeleton)
+    tileDefinitions.register('wheelBarrow', wheelBarrow)
+    const indexedMeshes = tileDefinitions.lock().makers
+    const rigsByMesh = new Map<() => Object3D, () => Rig>([
+      [sheep, sheepRig],
+      [skeleton, skeletonRig],
+      [wheelBarrow, wheelBarrowRig]
+    ])
+    const rigs = indexedMeshes.map((mesh) => rigsByMesh.get(mesh))
+
+    //layer2 only picks the camera
+    const symmetricMeshes = [indexedMeshes[0], body, sheep, wheelBarrow]
+    const asymmetricMask = new Uint8Array(Math.ceil(indexedMeshes.length / 8))
+    for (let j = 0; j < indexedMeshes.length; j++) {
+      if (!symmetricMeshes.includes(indexedMeshes[j])) {
+        asymmetricMask[~~(j / 8)] |= 1 << j % 8
       }
-      indexedMeshes.push(wheelBarrowRunFrame)
     }
 
-    super(pixelsPerTile, pixelsPerCacheEdge, passes, indexedMeshes)
+    super(pixelsPerTile, pixelsPerCacheEdge, passes, indexedMeshes, maxPages)
 
+    this.tileDefinitions = tileDefinitions
+    this._asymmetricMask = asymmetricMask
+    this._equipmentOffset = asymmetricMask.length
+    this._rigs = rigs
     this._pivot.scale.multiplyScalar(0.5)
+
+    const equipment = this.equipment
+    equipment.registerAttachment('hat', 'head', hat, true)
+    equipment.registerAttachment('chestplate', 'torso', chestplate, true)
+    equipment.registerAttachment('boots', 'legs', boots, true)
+    equipment.registerAttachment('sword', 'mainHand', sword)
+    equipment.registerAttachment('shield', 'offHand', shield)
+    equipment.registerAttachment('backpack', 'back', backpack, true)
+    const metals: CuratedMaterialType[] = ['gold', 'silver', 'iron', 'copper']
+    for (const metal of metals) {
+      this.palettes.register(metal, { gold: metal, iron: metal })
+    }
+    this.palettes.register('redTeam', { pants: 'pantsRed' })
+    this.palettes.register('zombie', { bone: 'zombieSkin' })
   }
 
   getTileId(tileDescription: Uint8Array) {
     throw new Error('Needs angle. Use getTileIdAtAngle()')
     return 0
   }
+  //ids are only stable for the lifetime of the sprite maker, don't save them
+  getAnimationId(name: string) {
+    let id = this._animationNames.indexOf(name)
+    if (id === -1) {
+      id = this._animationNames.length
+      if (id > 255) {
+        throw new Error('no more room for animations!')
+      }
+      this._animationNames.push(name)
+    }
+    return id
+  }
+  getAnimationFrameCount(name: string) {
+    return this._animationFrames.get(name) || this.defaultAnimationFrames
+  }
+  setAnimationFrameCount(name: string, frames: number) {
+    this._animationFrames.set(name, Math.min(Math.max(~~frames, 1), 256))
+  }
+  getFacing(angle: number) {
+    const steps = this.angleSteps
+    const facing = Math.round((angle / (Math.PI * 2)) * steps) % steps
+    return facing < 0 ? facing + steps : facing
+  }
+  isSymmetric(tileDescription: Uint8Array) {
+    //a mirrored frame would swap which leg leads
+    if (tileDescription[tileDescription.length - 2] !== 0) {
+      return false
+    }
+    const mask = this._asymmetricMask
+    for (let i = 0; i < mask.length; i++) {
+      if ((tileDescription[i] & mask[i]) !== 0) {
+        return false
+      }
+    }
+    for (let i = 0; i < equipmentSlots.length; i++) {
+      const attachment = this.equipment.getAttachment(
+        tileDescription[this._equipmentOffset + i * 2]
+      )
+      if (attachment && !attachment.symmetric) {
+        return false
+      }
+    }
+    return true
+  }
+  //mirrored facings come back as -1 - id, see getUnmirroredSpriteId
   getTileIdAtAngle(tileDescription: Uint8Array, angle: number) {
-    // const hash = Buffer.from(tileDescription).toString('utf-8')
-    const hash = `${tileDescription.toString()}@${angle}`
-    let index = this._tileHashRegistry.indexOf(hash)
-    if (index === -1) {
-      index = this._tileRegistry.length
-      if (index >= this._maxTiles) {
-        console.error(`no more room for tiles! (${index})`)
+    this.dropMissingAnimation(tileDescription)
+    const steps = this.angleSteps
+    let facing = this.getFacing(angle)
+    //rotating the other way is the same as mirroring, if the sprite is symmetric
+    const mirrored =
+      facing * 2 > steps &&
+      this.mirrorSymmetricFacings &&
+      this.isSymmetric(tileDescription)
+    if (mirrored) {
+      facing = steps - facing
+    }
+    const hash = `${tileDescription.toString()}@${facing}`
+    let index = this._tileHashIndices.get(hash)
+    if (index === undefined) {
+      this.stats.misses++
+      index = this.allocateIndex()
+      this._tileRegistry[index] = tileDescription
+      this._angleRegistry[index] = (facing / steps) * Math.PI * 2
+      this._tileHashRegistry[index] = hash
+      this._tileHashIndices.set(hash, index)
+      if (!this._renderQueue.includes(index)) {
+        this._renderQueue.push(index)
       }
-      this._tileRegistry.push(tileDescription)
-      this._angleRegistry.push(angle)
-      this._tileHashRegistry.push(hash)
-      this._renderQueue.push(index)
+    } else {
+      this.stats.hits++
+    }
+    this.touchIndex(index)
+    return mirrored ? -1 - index : index
+  }
+  //bakes every facing now instead of the first time each is seen
+  prebake(tileDescription: Uint8Array) {
+    const ids: number[] = []
+    for (let i = 0; i < this.angleSteps; i++) {
+      ids.push(
+        this.getTileIdAtAngle(
+          tileDescription,
+          (i / this.angleSteps) * Math.PI * 2
+        )
+      )
     }
-    return index
+    return ids
   }
   render(renderer: WebGLRenderer) {
     if (this._renderQueue.length > 0) {
@@ -227,12 +345,12 @@ export default class SpriteMaker extends TileMaker {
       renderer.getScissor(oldScissor)
       this._scene.updateMatrixWorld(true)
       for (const pass of this._passes) {
-        renderer.setRenderTarget(this._renderTargets.get(pass)!)
         const p = this._pixelsPerTile / renderer.getPixelRatio()
         const depthPass = pass === 'customTopDownHeight'
         for (const index of this._renderQueue) {
-          const iCol = index % this._tilesPerEdge
-          const iRow = ~~(index / this._tilesPerEdge)
+          renderer.setRenderTarget(this.getRenderTarget(pass, index))
+          const iCol = this.getSlotColumn(index)
+          const iRow = this.getSlotRow(index)
           const angle = this._angleRegistry[index]
           if (this._pivot.rotation.y !== angle) {
             this._pivot.rotation.y = angle
@@ -243,6 +361,11 @@ export default class SpriteMaker extends TileMaker {
           if (layer2 && depthPass) {
             continue
           }
+          const palette =
+            this.palettes.get(visualProps[visualProps.length - 3]) ||
+            __noPalette
+          const animationId = visualProps[visualProps.length - 2]
+          const frame = visualProps[visualProps.length - 1]
           for (let j = 0; j < this._indexedMeshes.length; j++) {
             const jb = ~~(j / 8)
             const j8 = j % 8
@@ -253,10 +376,23 @@ export default class SpriteMaker extends TileMaker {
               this._indexedMeshes[j]().visible = true
             }
             this._indexedMeshesVisibility[j] = shouldShow
+            if (shouldShow) {
+              this.poseRig(j, animationId, frame)
+            }
           }
+          this.showAttachments(visualProps)
           renderer.setViewport(iCol * p, iRow * p, p, p)
           renderer.setScissor(iCol * p, iRow * p, p, p)
-          changeMeshMaterials(this._scene, pass, true)
+          changeMeshMaterials(this._scene, pass, true, palette)
+          //attachments without a palette of their own take that of the sprite
+          for (let i = 0; i < equipmentSlots.length; i++) {
+            const offset = this._equipmentOffset + i * 2
+            const attachment = this._attachmentObjects.get(visualProps[offset])
+            const attachmentPalette = this.palettes.get(visualProps[offset + 1])
+            if (attachment && attachment.visible && attachmentPalette) {
+              changeMeshMaterials(attachment, pass, true, attachmentPalette)
+            }
+          }
           renderer.render(
             this._scene,
             layer2
@@ -273,4 +409,74 @@ export default class SpriteMaker extends TileMaker {
       this._renderQueue.length = 0
     }
   }
+  private showAttachments(tileDescription: Uint8Array) {
+    for (const obj of this._shownAttachments) {
+      obj.visible = false
+    }
+    this._shownAttachments.length = 0
+    for (let i = 0; i < equipmentSlots.length; i++) {
+      const id = tileDescription[this._equipmentOffset + i * 2]
+      const obj = this.getAttachmentObject(id)
+      if (obj) {
+        obj.visible = true
+        this._shownAttachments.push(obj)
+      }
+    }
+  }
+  private getAttachmentObject(id: number) {
+    let obj = this._attachmentObjects.get(id)
+    if (!obj) {
+      const attachment = this.equipment.getAttachment(id)
+      if (!attachment) {
+        return undefined
+      }
+      obj = attachment.make()
+      obj.visible = false
+      this._pivot.add(obj)
+      obj.updateMatrixWorld(true)
+      this._attachmentObjects.set(id, obj)
+    }
+    return obj
+  }
+  //every frame of an animation none of the shown rigs have looks the same, so they share the rest pose tile
+  private dropMissingAnimation(tileDescription: Uint8Array) {
+    const animationId = tileDescription[tileDescription.length - 2]
+    if (animationId === 0) {
+      return
+    }
+    const name = this._animationNames[animationId]
+    for (let j = 0; j < this._rigs.length; j++) {
+      const rigMaker = this._rigs[j]
+      if (
+        rigMaker &&
+        (tileDescription[~~(j / 8)] & (1 << j % 8)) !== 0 &&
+        rigMaker().hasAnimation(name)
+      ) {
+        return
+      }
+    }
+    tileDescription[tileDescription.length - 2] = 0
+    tileDescription[tileDescription.length - 1] = 0
+  }
+  private poseRig(meshIndex: number, animationId: number, frame: number) {
+    const rigMaker = this._rigs[meshIndex]
+    const poseKey = animationId * 256 + frame
+    if (!rigMaker || this._rigPoseKeys[meshIndex] === poseKey) {
+      return
+    }
+    this._rigPoseKeys[meshIndex] = poseKey
+    const rig = rigMaker()
+    const name = this._animationNames[animationId]
+    if (animationId === 0 || !rig.hasAnimation(name)) {
+      rig.resetPose()
+    } else {
+      //the last frame of a one-shot animation is its end pose
+      const frames = this.getAnimationFrameCount(name)
+      const time = rig.isLooping(name)
+        ? frame / frames
+        : frame / Math.max(frames - 1, 1)
+      rig.pose(name, time)
+    }
+    rig.root.updateMatrixWorld(true)
+  }
 }
@@ -0,0 +1,142 @@
+import { strict as assert } from 'node:assert'
+import { describe, it } from 'node:test'
+import SpatialIndex from '../SpatialIndex'
+
+type Item = { name: string; x: number; y: number }
+
+function mulberry32(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function makeItems(count: number, seed: number) {
+  const random = mulberry32(seed)
+  const items: Item[] = []
+  for (let i = 0; i < count; i++) {
+    items.push({
+      name: `item${i}`,
+      x: random() * 40 - 20,
+      y: random() * 40 - 20
+    })
+  }
+  return items
+}
+
+function names(items: Item[]) {
+  return items.map((item) => item.name).sort()
+}
+
+function distanceSq(item: Item, x: number, y: number) {
+  const dx = item.x - x
+  const dy = item.y - y
+  return dx * dx + dy * dy
+}
+
+for (const cellSize of [1, 3]) {
+  describe(`SpatialIndex with cells of ${cellSize}`, () => {
+    const items = makeItems(300, cellSize)
+    const index = new SpatialIndex<Item>(cellSize)
+    for (const item of items) {
+      index.add(item)
+    }
+
+    it('finds the same items as a brute force radius check', () => {
+      for (const [x, y, radius] of [
+        [0, 0, 5],
+        [-17.5, 3.25, 2],
+        [12, -12, 0.5],
+        [30, 30, 14]
+      ]) {
+        const expected = items.filter(
+          (item) => distanceSq(item, x, y) < radius * radius
+        )
+        assert.deepEqual(
+          names(index.queryRadius(x, y, radius)),
+          names(expected)
+        )
+      }
+    })
+
+    it('includes items on the edges of a rect', () => {
+      const rectIndex = new SpatialIndex<Item>(cellSize)
+      const corner = { name: 'corner', x: 2, y: 2 }
+      const edge = { name: 'edge', x: -1, y: 0.5 }
+      const outside = { name: 'outside', x: 2.01, y: 0 }
+      rectIndex.add(corner)
+      rectIndex.add(edge)
+      rectIndex.add(outside)
+      assert.deepEqual(names(rectIndex.queryRect(-1, -1, 2, 2)), [
+        'corner',
+        'edge'
+      ])
+      const expected = items.filter(
+        (item) => item.x >= -4 && item.x <= 6.5 && item.y >= -9 && item.y <= 1
+      )
+      assert.deepEqual(names(index.queryRect(-4, -9, 6.5, 1)), names(expected))
+    })
+
+    it('returns the nearest items closest first', () => {
+      for (const [x, y] of [
+        [0, 0],
+        [19, -19],
+        [-40, 5]
+      ]) {
+        const expected = items
+          .slice()
+          .sort((a, b) => distanceSq(a, x, y) - distanceSq(b, x, y))
+          .slice(0, 7)
+        assert.deepEqual(
+          index.queryNearest(x, y, 7).map((item) => item.name),
+          expected.map((item) => item.name)
+        )
+      }
+    })
+
+    it('respects the max distance and filter of nearest queries', () => {
+      const filter = (item: Item) => item.name.endsWith('7')
+      const expected = items
+        .filter((item) => filter(item) && distanceSq(item, 3, 3) <= 36)
+        .sort((a, b) => distanceSq(a, 3, 3) - distanceSq(b, 3, 3))
+      assert.deepEqual(
+        index.queryNearest(3, 3, 100, 6, filter).map((item) => item.name),
+        expected.map((item) => item.name)
+      )
+      assert.deepEqual(index.queryNearest(3, 3, 0), [])
+    })
+  })
+}
+
+describe('SpatialIndex updates', () => {
+  it('stops finding removed items', () => {
+    const index = new SpatialIndex<Item>()
+    const a = { name: 'a', x: 0.5, y: 0.5 }
+    const b = { name: 'b', x: 0.75, y: 0.25 }
+    index.add(a)
+    index.add(b)
+    assert.equal(index.remove(a), true)
+    assert.equal(index.remove(a), false)
+    assert.equal(index.has(a), false)
+    assert.equal(index.size, 1)
+    assert.deepEqual(names(index.queryRadius(0.5, 0.5, 1)), ['b'])
+    index.remove(b)
+    assert.deepEqual(index.queryRadius(0.5, 0.5, 1), [])
+    assert.deepEqual(index.queryNearest(0.5, 0.5, 1), [])
+  })
+
+  it('moves items between cells when they are updated', () => {
+    const index = new SpatialIndex<Item>(2)
+    const item = { name: 'mover', x: 1, y: 1 }
+    index.add(item)
+    item.x = 9
+    item.y = -5
+    index.update(item)
+    assert.deepEqual(index.queryRect(0, 0, 2, 2), [])
+    assert.deepEqual(index.queryRadius(9, -5, 0.1), [item])
+    assert.deepEqual(index.queryNearest(0, 0, 1), [item])
+    assert.equal(index.size, 1)
+  })
+})
@@ -0,0 +1,50 @@
+import { strict as assert } from 'node:assert'
+import { describe, it } from 'node:test'
+import { isSpriteDrawn, isSpriteInView } from '../spriteCulling'
+
+//a view of 8x6 tiles
+const width = 8
+const height = 6
+
+describe('spriteCulling', () => {
+  it('counts sprites inside the margin as in view without drawing them', () => {
+    for (const [x, y] of [
+      [-0.25, 2],
+      [8.25, 2],
+      [3, -1.5],
+      [3, 6.5]
+    ]) {
+      assert.equal(isSpriteInView(x, y, 0.5, width, height), true, `${x}:${y}`)
+      assert.equal(isSpriteDrawn(x, y, width, height), false, `${x}:${y}`)
+    }
+  })
+
+  it('draws sprites in view', () => {
+    for (const [x, y] of [
+      [0, 0],
+      [4, 3],
+      [7.99, 5.99]
+    ]) {
+      assert.equal(isSpriteInView(x, y, 0.5, width, height), true, `${x}:${y}`)
+      assert.equal(isSpriteDrawn(x, y, width, height), true, `${x}:${y}`)
+    }
+  })
+
+  it('leaves sprites past the margin out', () => {
+    for (const [x, y] of [
+      [-0.75, 2],
+      [8.75, 2],
+      [3, -1.75],
+      [3, 6.75]
+    ]) {
+      assert.equal(isSpriteInView(x, y, 0.5, width, height), false, `${x}:${y}`)
+      assert.equal(isSpriteDrawn(x, y, width, height), false, `${x}:${y}`)
+    }
+    assert.equal(isSpriteInView(-0.75, 2, 1, width, height), true)
+  })
+
+  it('does not draw sprites on the far edges', () => {
+    assert.equal(isSpriteDrawn(8, 2, width, height), false)
+    assert.equal(isSpriteDrawn(3, 6, width, height), false)
+  })
+})
@@ -0,0 +1,27 @@
+//x and y are in tiles relative to the view, the top half is drawn a tile above
+
+//in view counts for the enter/leave events, a margin keeps them from flickering at the edges
+export function isSpriteInView(
+  x: number,
+  y: number,
+  margin: number,
+  viewWidth: number,
+  viewHeight: number
+) {
+  return (
+    x >= -margin &&
+    x <= viewWidth + margin &&
+    y >= -1 - margin &&
+    y <= viewHeight + margin
+  )
+}
+
+//only sprites strictly inside the view get drawn, anything else would land on the opposite edge
+export function isSpriteDrawn(
+  x: number,
+  y: number,
+  viewWidth: number,
+  viewHeight: number
+) {
+  return x >= 0 && x < viewWidth && y >= 0 && y < viewHeight
+}
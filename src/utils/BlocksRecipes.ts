@@ -0,0 +1,58 @@
+//merges rows of blocks into rectangles, blocks must be registered row by row from the top
+export default class BlocksRecipes {
+  private blocks = new Map<
+    number,
+    Map<number, Map<number, Map<number, number>>>
+  >()
+  register(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    colour: number
+  ) {
+    if (!this.blocks.has(x)) {
+      this.blocks.set(x, new Map())
+    }
+    const blocksX = this.blocks.get(x)!
+    if (!blocksX.has(colour)) {
+      blocksX.set(colour, new Map())
+    }
+
+    const blocksColour = blocksX.get(colour)!
+    if (!blocksColour.has(width)) {
+      blocksColour.set(width, new Map())
+    }
+
+    const blocksWidth = blocksColour.get(width)!
+    let merged = false
+    blocksWidth.forEach((value, key) => {
+      if (key + value === y) {
+        blocksWidth.set(key, value + height)
+        merged = true
+      }
+    })
+    if (!merged) {
+      blocksWidth.set(y, height)
+    }
+  }
+  process(
+    cb: (
+      x: number,
+      y: number,
+      width: number,
+      height: number,
+      colour: number
+    ) => void
+  ) {
+    this.blocks.forEach((blocksX, x) => {
+      blocksX.forEach((blocksColour, colour) => {
+        blocksColour.forEach((blocksWidth, width) => {
+          blocksWidth.forEach((height, y) => {
+            cb(x, y, width, height, colour)
+          })
+        })
+      })
+    })
+  }
+}
@@ -1,16 +1,24 @@
-export default class LocalStorageMap<K extends string, V> extends Map {
+import IMetaStore from '../metaStores/IMetaStore'
+
+export default class LocalStorageMap<K extends string, V>
+  extends Map
+  implements IMetaStore<V>
+{
+  private _prefix: string
   constructor(
     private _hydrator: (val: string) => V,
-    private _dehydrator: (val: V) => string
+    private _dehydrator: (val: V) => string,
+    public readonly namespace = ''
   ) {
     super()
+    this._prefix = namespace ? namespace + '/' : ''
   }
   has(key: K) {
-    return super.has(key) || !!localStorage.getItem(key)
+    return super.has(key) || !!localStorage.getItem(this._prefix + key)
   }
   get(key: K) {
     if (!super.has(key)) {
-      const localV = localStorage.getItem(key)
+      const localV = localStorage.getItem(this._prefix + key)
       if (localV) {
         super.set(key, this._hydrator(localV))
       }
@@ -19,11 +27,25 @@ export default class LocalStorageMap<K extends string, V> extends Map {
   }
   set(key: K, value: V) {
     const v = this._dehydrator(value)
-    localStorage.setItem(key, v)
+    localStorage.setItem(this._prefix + key, v)
     return super.set(key, value)
   }
   delete(key: K) {
-    localStorage.removeItem(key)
+    localStorage.removeItem(this._prefix + key)
     return super.delete(key)
   }
+  keys() {
+    const keys: string[] = []
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i)
+      if (key !== null && key.startsWith(this._prefix)) {
+        keys.push(key.slice(this._prefix.length))
+      }
+    }
+    return keys.values()
+  }
+  //writes go straight to localStorage
+  flush() {
+    return Promise.resolve()
+  }
 }
@@ -0,0 +1,165 @@
+import { Color } from 'three'
+import MapScrollingView from '../helpers/utils/MapScrollingView'
+import { LightController } from '../mapCache/PointLightRenderer'
+import MetaEditHistory from '../rendering/tileMaker/mapTileMaker/MetaEditHistory'
+import { equipmentSlots } from '../rendering/tileMaker/spriteMaker/EquipmentRegistry'
+import JITSpriteSampler, {
+  SpriteController
+} from '../rendering/tileMaker/spriteMaker/JITSpriteSampler'
+import {
+  currentWorldSaveVersion,
+  WorldSave,
+  WorldSaveEquipment,
+  WorldSaveSprite
+} from './worldSaveFormat'
+
+function exportEquipment(
+  spriteSampler: JITSpriteSampler,
+  sprite: SpriteController
+) {
+  let equipment: WorldSaveEquipment | undefined
+  for (const slot of equipmentSlots) {
+    const equipped = spriteSampler.getEquipped(sprite, slot)
+    if (equipped) {
+      equipment = equipment || {}
+      equipment[slot] = equipped
+    }
+  }
+  return equipment
+}
+
+export function exportWorld(view: MapScrollingView): Promise<WorldSave> {
+  const tileSampler = view.jitTileSampler
+  const metaStore = tileSampler.metaStore
+  return (metaStore.loadAll ? metaStore.loadAll() : Promise.resolve()).then(
+    () => {
+      const tiles: WorldSave['tiles'] = []
+      const keys = metaStore.keys()
+      for (let r = keys.next(); !r.done; r = keys.next()) {
+        const value = metaStore.get(r.value)
+        if (value !== undefined) {
+          const coords = r.value.split(':').map((v) => parseInt(v))
+          tiles.push([coords[0], coords[1], value])
+        }
+      }
+      const spriteSampler = view.jitSpriteSampler
+      const sprites = spriteSampler.sprites.map((sprite) => {
+        const s: WorldSaveSprite = {
+          x: sprite.x,
+          y: sprite.y,
+          z: sprite.z,
+          angle: sprite.angle,
+          meta: sprite.metaBytes.value
+        }
+        const equipment = exportEquipment(spriteSampler, sprite)
+        if (equipment) {
+          s.equipment = equipment
+        }
+        const palette = spriteSampler.getPalette(sprite)
+        if (palette) {
+          s.palette = palette
+        }
+        return s
+      })
+      const lights: WorldSave['lights'] = []
+      for (const lightGroup of view.pointLightRenderer.lightGroups) {
+        for (const light of lightGroup.lights) {
+          lights.push({
+            x: light.x,
+            y: light.y,
+            z: light.z,
+            size: light.size,
+            color: light.color.getHex(),
+            useShadows: lightGroup.useShadows,
+            shadowResolution: lightGroup.shadowResolution,
+            intensity: light.intensity,
+            falloff: light.falloff,
+            enabled: light.enabled
+          })
+        }
+      }
+      return {
+        version: currentWorldSaveVersion,
+        world: tileSampler.worldGenerator.config,
+        tiles,
+        sprites,
+        lights
+      }
+    }
+  )
+}
+
+//replaces the edits, sprites and lights of the view, the caller has to rebind anything driving the returned controllers
+//a history of edits to the view is cleared too, undoing them would write into the replaced world
+export function importWorld(
+  view: MapScrollingView,
+  save: WorldSave,
+  history?: MetaEditHistory
+) {
+  const tileSampler = view.jitTileSampler
+  const worldGenerator = tileSampler.worldGenerator
+  if (
+    save.world.name !== worldGenerator.config.name ||
+    save.world.seed !== worldGenerator.seed
+  ) {
+    throw new Error(
+      `World save is for "${save.world.name}" with seed ${save.world.seed}, create the view with a WorldGenerator made from save.world to load it`
+    )
+  }
+  const metaStore = tileSampler.metaStore
+  const loaded = metaStore.loadAll ? metaStore.loadAll() : Promise.resolve()
+  const replaceTiles = loaded.then(() => {
+    const staleKeys: string[] = []
+    const keys = metaStore.keys()
+    for (let r = keys.next(); !r.done; r = keys.next()) {
+      staleKeys.push(r.value)
+    }
+    for (const key of staleKeys) {
+      metaStore.delete(key)
+      tileSampler.metaCache.delete(key)
+      tileSampler.dirtyMeta.add(key)
+    }
+    for (const [x, y, value] of save.tiles) {
+      const key = `${x}:${y}`
+      metaStore.set(key, value)
+      tileSampler.metaCache.delete(key)
+      tileSampler.dirtyMeta.add(key)
+    }
+    if (history) {
+      history.clear()
+    }
+  })
+
+  const spriteSampler = view.jitSpriteSampler
+  spriteSampler.clearSprites()
+  const sprites: SpriteController[] = save.sprites.map((s) => {
+    const sprite = spriteSampler.makeSprite(s.x, s.y, s.angle)
+    sprite.z = s.z
+    sprite.metaBytes.value = s.meta
+    spriteSampler.setPalette(sprite, s.palette)
+    if (s.equipment) {
+      for (const slot of equipmentSlots) {
+        const equipped = s.equipment[slot]
+        if (equipped) {
+          spriteSampler.equip(sprite, equipped.attachment, equipped.palette)
+        }
+      }
+    }
+    return sprite
+  })
+
+  const lightRenderer = view.pointLightRenderer
+  for (const lightGroup of lightRenderer.lightGroups) {
+    lightGroup.clearLights()
+  }
+  const lights: LightController[] = save.lights.map((l) =>
+    lightRenderer
+      .getLightGroup(l.useShadows, l.shadowResolution)
+      .makeLight(l.x, l.y, l.z, l.size, new Color(l.color), {
+        intensity: l.intensity,
+        falloff: l.falloff,
+        enabled: l.enabled
+      })
+  )
+  return replaceTiles.then(() => ({ sprites, lights }))
+}
@@ -0,0 +1,92 @@
+import { LightFalloff } from '../mapCache/PointLightRenderer'
+import { EquipmentSlot } from '../rendering/tileMaker/spriteMaker/EquipmentRegistry'
+import { spriteAppearanceMetaMask } from '../rendering/tileMaker/spriteMaker/JITSpriteSampler'
+import { WorldGeneratorConfig } from '../rendering/tileMaker/mapTileMaker/WorldGenerator'
+
+export const currentWorldSaveVersion = 2
+
+export type WorldSaveSprite = {
+  x: number
+  y: number
+  z: number
+  angle: number
+  meta: number
+  //by name, absent in older saves and on sprites that wear nothing
+  equipment?: WorldSaveEquipment
+  palette?: string
+}
+
+export type WorldSaveEquipment = {
+  [K in EquipmentSlot]?: { attachment: string; palette?: string }
+}
+
+export type WorldSaveLight = {
+  x: number
+  y: number
+  z: number
+  size: number
+  color: number
+  useShadows: boolean
+  shadowResolution: number
+  //absent in older saves
+  intensity?: number
+  falloff?: LightFalloff
+  enabled?: boolean
+}
+
+export type WorldSave = {
+  version: typeof currentWorldSaveVersion
+  world: WorldGeneratorConfig
+  //edited meta values as [x, y, value], untouched tiles come from the generator
+  tiles: [number, number, number][]
+  sprites: WorldSaveSprite[]
+  lights: WorldSaveLight[]
+}
+
+type AnyWorldSave = { version: number; [key: string]: unknown }
+
+//keyed by the version they upgrade from, each one returns the next version
+export const worldSaveMigrations: {
+  [fromVersion: number]: (save: AnyWorldSave) => AnyWorldSave
+} = {
+  //the animation bits of sprite meta changed layout, sprites start out idle
+  1: (save) => ({
+    ...save,
+    version: 2,
+    sprites: (save.sprites as WorldSaveSprite[]).map((sprite) => ({
+      ...sprite,
+      meta: sprite.meta & spriteAppearanceMetaMask
+    }))
+  })
+}
+
+export function migrateWorldSave(save: AnyWorldSave): WorldSave {
+  let migrated = save
+  while (migrated.version < currentWorldSaveVersion) {
+    const migration = worldSaveMigrations[migrated.version]
+    if (!migration) {
+      throw new Error(
+        `No migration from world save version ${migrated.version}`
+      )
+    }
+    migrated = migration(migrated)
+  }
+  if (migrated.version !== currentWorldSaveVersion) {
+    throw new Error(
+      `World save version ${migrated.version} is newer than the supported version ${currentWorldSaveVersion}`
+    )
+  }
+  return migrated as unknown as WorldSave
+}
+
+export function serializeWorldSave(save: WorldSave) {
+  return JSON.stringify(save)
+}
+
+export function deserializeWorldSave(json: string) {
+  const save = JSON.parse(json)
+  if (typeof save !== 'object' || save === null || !save.version) {
+    throw new Error('Not a world save')
+  }
+  return migrateWorldSave(save)
+}